@@ -0,0 +1,187 @@
+import { EnemyType } from '../entities/Enemy';
+import { Random } from '../utils/Random';
+
+export type BossAttackType = 'groundSlam' | 'minigunSweep' | 'summonAdds' | 'grenadeBarrage';
+
+export interface BossAttackTiming {
+  // Warning before the attack lands, so the player can react
+  telegraph: number;
+  // How long the attack itself lasts
+  duration: number;
+  // Before the same attack can be used again
+  cooldown: number;
+  // Only used while the target is within this distance band
+  minRange: number;
+  maxRange: number;
+}
+
+export interface BossPhase {
+  name: string;
+  // Starts once health drops to this fraction of max
+  healthBelow: number;
+  attacks: BossAttackType[];
+  // Seconds between special attacks
+  attackInterval: number;
+  speedMultiplier: number;
+}
+
+export interface BossDefinition {
+  name: string;
+  title: string;
+  // Seconds the boss stands and roars before fighting
+  introDuration: number;
+  // In order; the first should have healthBelow 1
+  phases: BossPhase[];
+  timing: Record<BossAttackType, BossAttackTiming>;
+  groundSlam: { radius: number; damage: number };
+  // Arc swept across the target, in radians, and shots per second
+  minigunSweep: { arc: number; fireRate: number };
+  summonAdds: { count: number; types: EnemyType[] };
+  // Grenades land scattered this far around the target
+  grenadeBarrage: { count: number; scatter: number };
+}
+
+export const BOSS_DEFINITIONS: Record<string, BossDefinition> = {
+  warlord: {
+    name: 'The Warlord',
+    title: 'Minigun Tyrant',
+    introDuration: 3,
+    phases: [
+      { name: 'Advance', healthBelow: 1, attacks: ['minigunSweep', 'groundSlam'], attackInterval: 8, speedMultiplier: 1 },
+      { name: 'Call to Arms', healthBelow: 0.66, attacks: ['minigunSweep', 'groundSlam', 'summonAdds'], attackInterval: 6.5, speedMultiplier: 1.1 },
+      { name: 'Last Stand', healthBelow: 0.33, attacks: ['minigunSweep', 'groundSlam', 'grenadeBarrage', 'summonAdds'], attackInterval: 5, speedMultiplier: 1.3 }
+    ],
+    timing: {
+      groundSlam: { telegraph: 1.2, duration: 0.5, cooldown: 8, minRange: 0, maxRange: 9 },
+      minigunSweep: { telegraph: 1, duration: 3, cooldown: 10, minRange: 6, maxRange: 30 },
+      summonAdds: { telegraph: 1.5, duration: 0.5, cooldown: 20, minRange: 0, maxRange: 60 },
+      grenadeBarrage: { telegraph: 1, duration: 1.5, cooldown: 12, minRange: 8, maxRange: 30 }
+    },
+    groundSlam: { radius: 9, damage: 45 },
+    minigunSweep: { arc: Math.PI * 0.6, fireRate: 20 },
+    summonAdds: { count: 3, types: ['rifle', 'smg', 'drone'] },
+    grenadeBarrage: { count: 5, scatter: 6 }
+  }
+};
+
+export type BossAttackStage = 'telegraph' | 'active';
+
+export interface BossAttackState {
+  type: BossAttackType;
+  stage: BossAttackStage;
+  // Seconds left in the current stage
+  remaining: number;
+}
+
+// What happened this update, for the simulation to act on
+export type BossEvent =
+  | { type: 'phase'; index: number; phase: BossPhase }
+  | { type: 'telegraph'; attack: BossAttackType; duration: number }
+  | { type: 'attack'; attack: BossAttackType }
+  | { type: 'attackEnd'; attack: BossAttackType };
+
+export interface BossContext {
+  healthFraction: number;
+  targetDistance: number;
+  canSeeTarget: boolean;
+}
+
+// Phase and special attack sequencing for one boss. It only decides what
+// to do and when; the simulation carries the attacks out. The boss is busy
+// (standing still, not firing normally) during the intro and while an attack
+// is being telegraphed or performed.
+export class BossController {
+  private definition: BossDefinition;
+  private random: Random;
+  private introRemaining: number;
+  private phaseIndex = 0;
+  private attack: BossAttackState | null = null;
+  private nextAttackIn: number;
+  private cooldowns = new Map<BossAttackType, number>();
+
+  constructor(definition: BossDefinition, random: Random) {
+    this.definition = definition;
+    this.random = random;
+    this.introRemaining = definition.introDuration;
+    this.nextAttackIn = definition.phases[0].attackInterval / 2;
+  }
+
+  public update(delta: number, ctx: BossContext): BossEvent[] {
+    const events: BossEvent[] = [];
+
+    if (this.introRemaining > 0) {
+      this.introRemaining -= delta;
+      if (this.introRemaining <= 0) events.push({ type: 'phase', index: 0, phase: this.getPhase() });
+      return events;
+    }
+
+    // Heavy damage can skip straight past a phase
+    const phases = this.definition.phases;
+    while (this.phaseIndex + 1 < phases.length && ctx.healthFraction <= phases[this.phaseIndex + 1].healthBelow) {
+      this.phaseIndex++;
+      events.push({ type: 'phase', index: this.phaseIndex, phase: this.getPhase() });
+      // Open each new phase with an attack
+      this.nextAttackIn = Math.min(this.nextAttackIn, 1);
+    }
+
+    this.cooldowns.forEach((time, attack) => this.cooldowns.set(attack, time - delta));
+
+    if (this.attack) {
+      this.attack.remaining -= delta;
+      if (this.attack.remaining > 0) return events;
+
+      if (this.attack.stage === 'telegraph') {
+        this.attack.stage = 'active';
+        this.attack.remaining = this.definition.timing[this.attack.type].duration;
+        events.push({ type: 'attack', attack: this.attack.type });
+      } else {
+        events.push({ type: 'attackEnd', attack: this.attack.type });
+        this.attack = null;
+      }
+      return events;
+    }
+
+    this.nextAttackIn -= delta;
+    if (this.nextAttackIn > 0 || !ctx.canSeeTarget) return events;
+
+    const options = this.getPhase().attacks.filter(attack => {
+      const timing = this.definition.timing[attack];
+      return (this.cooldowns.get(attack) ?? 0) <= 0 &&
+        ctx.targetDistance >= timing.minRange &&
+        ctx.targetDistance <= timing.maxRange;
+    });
+    if (options.length === 0) return events;
+
+    const type = this.random.pick(options);
+    const timing = this.definition.timing[type];
+    this.attack = { type, stage: 'telegraph', remaining: timing.telegraph };
+    this.cooldowns.set(type, timing.cooldown);
+    this.nextAttackIn = this.getPhase().attackInterval;
+    events.push({ type: 'telegraph', attack: type, duration: timing.telegraph });
+    return events;
+  }
+
+  public isIntro(): boolean {
+    return this.introRemaining > 0;
+  }
+
+  public isBusy(): boolean {
+    return this.isIntro() || this.attack !== null;
+  }
+
+  public getAttack(): BossAttackState | null {
+    return this.attack;
+  }
+
+  public getPhase(): BossPhase {
+    return this.definition.phases[this.phaseIndex];
+  }
+
+  public getPhaseIndex(): number {
+    return this.phaseIndex;
+  }
+
+  public getDefinition(): BossDefinition {
+    return this.definition;
+  }
+}
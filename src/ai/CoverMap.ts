@@ -0,0 +1,105 @@
+import * as THREE from 'three';
+import { NavGrid } from './NavGrid';
+
+export interface CoverSearch {
+  // Where the agent is now; nearer cover scores better
+  from: THREE.Vector3;
+  // What the cover should block
+  threat: THREE.Vector3;
+  // Furthest the agent is willing to travel
+  maxTravel: number;
+  // Spot must be at least / at most this far from the threat
+  minThreatDistance?: number;
+  maxThreatDistance?: number;
+}
+
+// Gap kept between the cover object and the agent crouched behind it
+const SPOT_OFFSET = 1.2;
+
+// Low props enemies can hide behind (sandbag walls, crates, barriers). Each
+// one seats a single agent at a time; the spot is on the side facing away
+// from the threat, so it moves as the threat does.
+export class CoverMap {
+  private covers: THREE.Box3[];
+  private nav: NavGrid | null;
+  private claims = new Map<number, object>();
+
+  constructor(covers: THREE.Box3[], nav: NavGrid | null = null) {
+    this.covers = covers;
+    this.nav = nav;
+  }
+
+  // Claims the best free cover for the agent and returns the spot behind it
+  public claim(agent: object, search: CoverSearch): THREE.Vector3 | null {
+    this.release(agent);
+
+    let bestIndex = -1;
+    let bestSpot: THREE.Vector3 | null = null;
+    let bestTravel = Infinity;
+
+    for (let index = 0; index < this.covers.length; index++) {
+      if (this.claims.has(index)) continue;
+
+      const spot = this.spotBehind(this.covers[index], search.threat);
+      const travel = Math.hypot(spot.x - search.from.x, spot.z - search.from.z);
+      if (travel > search.maxTravel || travel >= bestTravel) continue;
+
+      const threatDistance = Math.hypot(spot.x - search.threat.x, spot.z - search.threat.z);
+      if (threatDistance < (search.minThreatDistance ?? 0)) continue;
+      if (threatDistance > (search.maxThreatDistance ?? Infinity)) continue;
+      if (this.nav && this.nav.findPath(search.from, spot) === null) continue;
+
+      bestIndex = index;
+      bestSpot = spot;
+      bestTravel = travel;
+    }
+
+    if (bestSpot) this.claims.set(bestIndex, agent);
+    return bestSpot;
+  }
+
+  public release(agent: object): void {
+    this.claims.forEach((owner, index) => {
+      if (owner === agent) this.claims.delete(index);
+    });
+  }
+
+  // Current spot behind the agent's claimed cover, following the threat
+  public getClaimedSpot(agent: object, threat: THREE.Vector3): THREE.Vector3 | null {
+    for (const [index, owner] of this.claims) {
+      if (owner === agent) return this.spotBehind(this.covers[index], threat);
+    }
+    return null;
+  }
+
+  // Whether a cover object lies between the threat and a position
+  public isCovered(position: THREE.Vector3, threat: THREE.Vector3): boolean {
+    const from = new THREE.Vector3(threat.x, 0, threat.z);
+    const to = new THREE.Vector3(position.x, 0, position.z);
+    const ray = new THREE.Ray(from, to.clone().sub(from).normalize());
+    const distance = from.distanceTo(to);
+    const flat = new THREE.Box3();
+    const hit = new THREE.Vector3();
+
+    return this.covers.some(cover => {
+      flat.min.set(cover.min.x, -1, cover.min.z);
+      flat.max.set(cover.max.x, 1, cover.max.z);
+      return ray.intersectBox(flat, hit) !== null && from.distanceTo(hit) < distance;
+    });
+  }
+
+  public getCovers(): THREE.Box3[] {
+    return this.covers;
+  }
+
+  private spotBehind(cover: THREE.Box3, threat: THREE.Vector3): THREE.Vector3 {
+    const center = cover.getCenter(new THREE.Vector3());
+    const away = new THREE.Vector3(center.x - threat.x, 0, center.z - threat.z);
+    if (away.lengthSq() === 0) away.set(1, 0, 0);
+    away.normalize();
+
+    const size = cover.getSize(new THREE.Vector3());
+    const reach = Math.max(size.x, size.z) / 2 + SPOT_OFFSET;
+    return new THREE.Vector3(center.x + away.x * reach, cover.min.y, center.z + away.z * reach);
+  }
+}
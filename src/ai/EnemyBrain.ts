@@ -0,0 +1,356 @@
+import * as THREE from 'three';
+import { Random } from '../utils/Random';
+import { NavGrid } from './NavGrid';
+import { CoverMap } from './CoverMap';
+import { SquadOrders, SquadRole } from './SquadManager';
+
+export type EnemyState =
+  | 'patrol'
+  | 'investigate'
+  | 'engage'
+  | 'takeCover'
+  | 'flank'
+  | 'retreat'
+  | 'regroup';
+
+// How an enemy type prefers to fight once it has seen the player:
+// assault pushes into range and ducks into cover now and then, flank circles
+// round to the side before closing in, hold digs into cover and stays put,
+// advance keeps walking in without cover (it brings its own), snipe holds
+// cover at long range and backs off if the target gets close
+export type TacticStyle = 'assault' | 'flank' | 'hold' | 'advance' | 'snipe';
+
+export interface EnemyTactics {
+  style: TacticStyle;
+  // Falls back below this fraction of max health (0 = never)
+  retreatHealth: number;
+}
+
+// What the enemy knows this tick, filled in by the simulation
+export interface EnemyAwareness {
+  targetPosition: THREE.Vector3;
+  canSeeTarget: boolean;
+  // Positions of other living enemies, for regrouping
+  allies: THREE.Vector3[];
+  // Set when the enemy belongs to a squad
+  orders?: SquadOrders | null;
+}
+
+export interface BrainContext extends EnemyAwareness {
+  position: THREE.Vector3;
+  healthFraction: number;
+  attackRange: number;
+}
+
+export interface BrainDecision {
+  // Where to walk; null to stand still
+  moveTo: THREE.Vector3 | null;
+  speedMultiplier: number;
+  // Whether the enemy may shoot if it has a clear shot
+  fire: boolean;
+}
+
+const SPEED: Record<EnemyState, number> = {
+  patrol: 0.5,
+  investigate: 0.8,
+  engage: 1,
+  takeCover: 1.1,
+  flank: 1.25,
+  retreat: 1.1,
+  regroup: 1
+};
+
+// A squad role overrides the enemy type's own tactic
+const ROLE_STYLES: Record<SquadRole, TacticStyle> = {
+  suppressor: 'hold',
+  flanker: 'flank',
+  grenadier: 'assault'
+};
+
+const ARRIVE_DISTANCE = 1;
+const PATROL_RADIUS = 12;
+// Seconds without sight of the target before giving up the fight
+const LOSE_TARGET_TIME = 2.5;
+const SEARCH_TIME = 4;
+const REGROUP_RADIUS = 30;
+// Cover sits behind the props, so it may be a little beyond the range the
+// enemy would otherwise close to
+const COVER_RANGE_FACTOR = 1.4;
+// Snipers fall back once the target is within this share of their range
+const SNIPE_FALLBACK_FACTOR = 0.35;
+
+// Behaviour state machine for one enemy. It only decides where to go and
+// whether to shoot; Enemy does the moving, aiming and firing.
+export class EnemyBrain {
+  private tactics: EnemyTactics;
+  private random: Random;
+  private nav: NavGrid | null;
+  private cover: CoverMap | null;
+  private home: THREE.Vector3;
+
+  private state: EnemyState = 'patrol';
+  private stateTime = 0;
+  private unseenTime = 0;
+  private lastKnownTarget: THREE.Vector3 | null = null;
+  private destination: THREE.Vector3 | null = null;
+  private retreated = false;
+
+  constructor(tactics: EnemyTactics, home: THREE.Vector3, random: Random, nav: NavGrid | null, cover: CoverMap | null) {
+    this.tactics = tactics;
+    this.home = home.clone();
+    this.random = random;
+    this.nav = nav;
+    this.cover = cover;
+  }
+
+  public update(delta: number, ctx: BrainContext): BrainDecision {
+    this.stateTime += delta;
+
+    if (ctx.canSeeTarget) {
+      this.lastKnownTarget = ctx.targetPosition.clone();
+      this.unseenTime = 0;
+    } else {
+      this.unseenTime += delta;
+    }
+
+    this.think(ctx);
+
+    const fighting = this.state === 'engage' || this.state === 'takeCover' || this.state === 'flank';
+    const fire = ctx.canSeeTarget && fighting && (ctx.orders?.mayFire ?? true);
+    return { moveTo: this.destination, speedMultiplier: SPEED[this.state], fire };
+  }
+
+  // Something drew attention (a hit, a noise): go and look unless already fighting
+  public alert(position: THREE.Vector3): void {
+    this.lastKnownTarget = position.clone();
+    if (this.state === 'patrol' || this.state === 'investigate') {
+      this.enter('investigate');
+      this.destination = position.clone();
+    }
+  }
+
+  public getState(): EnemyState {
+    return this.state;
+  }
+
+  public dispose(): void {
+    this.cover?.release(this);
+  }
+
+  private think(ctx: BrainContext): void {
+    const lowHealth = ctx.healthFraction < this.tactics.retreatHealth;
+    if (lowHealth && !this.retreated && this.state !== 'retreat' && this.lastKnownTarget) {
+      this.retreated = true;
+      this.startRetreat(ctx);
+      return;
+    }
+
+    const fighting = this.state === 'engage' || this.state === 'takeCover';
+    const close = ctx.position.distanceTo(ctx.targetPosition) < ctx.attackRange * SNIPE_FALLBACK_FACTOR;
+    if (this.style(ctx) === 'snipe' && fighting && close && ctx.canSeeTarget) {
+      this.startRetreat(ctx);
+      return;
+    }
+
+    switch (this.state) {
+      case 'patrol':
+        if (ctx.canSeeTarget) return this.startEngage(ctx);
+        if (!this.destination || this.arrived(ctx.position)) {
+          this.destination = this.pickPatrolPoint();
+        }
+        return;
+
+      case 'investigate':
+        if (ctx.canSeeTarget) return this.startEngage(ctx);
+        // Look around the last known position for a while, then go back to patrolling
+        if (this.destination && this.arrived(ctx.position)) {
+          this.destination = null;
+          this.stateTime = 0;
+        }
+        if (!this.destination && this.stateTime > SEARCH_TIME) this.enter('patrol');
+        return;
+
+      case 'engage':
+        if (this.lostTarget()) return this.startInvestigate();
+        this.destination = this.inRange(ctx) ? null : this.approachPoint(ctx);
+        // After a few seconds of open fighting, try the preferred manoeuvre again
+        if (this.stateTime > 4 && this.inRange(ctx)) {
+          const style = this.style(ctx);
+          if (style === 'flank') this.startFlank(ctx);
+          else if (style !== 'advance') this.startTakeCover(ctx);
+        }
+        return;
+
+      case 'takeCover': {
+        if (this.lostTarget()) return this.startInvestigate();
+        const threat = this.lastKnownTarget ?? ctx.targetPosition;
+        const spot = this.cover?.getClaimedSpot(this, threat) ?? null;
+        // Cover is useless once the threat is out of range of it
+        if (!spot || spot.distanceTo(threat) > ctx.attackRange * COVER_RANGE_FACTOR + 1) return this.startEngage(ctx);
+        this.destination = spot;
+        // Holders and snipers stay in cover; assault troops pop back out after a while
+        const style = this.style(ctx);
+        if (style !== 'hold' && style !== 'snipe' && this.stateTime > 5) return this.startEngage(ctx, false);
+        return;
+      }
+
+      case 'flank':
+        if (this.lostTarget()) return this.startInvestigate();
+        if (!this.destination || this.arrived(ctx.position) || this.stateTime > 8) {
+          this.startEngage(ctx, false);
+        }
+        return;
+
+      case 'retreat':
+        if (!this.destination || this.arrived(ctx.position) || this.stateTime > 6) {
+          this.enter('regroup');
+          this.destination = this.regroupPoint(ctx);
+        }
+        return;
+
+      case 'regroup':
+        if (!this.destination || this.arrived(ctx.position) || this.stateTime > 8) {
+          if (ctx.canSeeTarget) this.startEngage(ctx, false);
+          else this.startInvestigate();
+        }
+        return;
+    }
+  }
+
+  // Leaving cover gives it up for others
+  private enter(state: EnemyState): void {
+    if (state !== 'takeCover') this.cover?.release(this);
+    this.state = state;
+    this.stateTime = 0;
+  }
+
+  // allowTactic: false when coming back from a manoeuvre, so it fights for a
+  // while before picking the next one
+  private startEngage(ctx: BrainContext, allowTactic = true): void {
+    this.enter('engage');
+    this.destination = null;
+    if (!allowTactic) return;
+
+    const style = this.style(ctx);
+    if (style === 'flank') {
+      this.startFlank(ctx);
+    } else if (style === 'hold' || style === 'snipe') {
+      this.startTakeCover(ctx);
+    }
+  }
+
+  private startInvestigate(): void {
+    this.enter('investigate');
+    this.destination = this.lastKnownTarget?.clone() ?? null;
+  }
+
+  private startTakeCover(ctx: BrainContext): void {
+    const spot = this.cover?.claim(this, {
+      from: ctx.position,
+      threat: ctx.targetPosition,
+      maxTravel: 15,
+      minThreatDistance: 4,
+      maxThreatDistance: ctx.attackRange * COVER_RANGE_FACTOR
+    });
+    if (!spot) {
+      // Nothing nearby; keep fighting in the open and look again later
+      this.stateTime = 0;
+      return;
+    }
+
+    this.enter('takeCover');
+    this.destination = spot;
+  }
+
+  private style(ctx: BrainContext): TacticStyle {
+    return ctx.orders ? ROLE_STYLES[ctx.orders.role] : this.tactics.style;
+  }
+
+  // Squad members close in from their squad's bearing so they surround the
+  // target; once there (or without a squad) they head straight for it
+  private approachPoint(ctx: BrainContext): THREE.Vector3 {
+    const target = ctx.targetPosition;
+    if (!ctx.orders) return target.clone();
+
+    const bearing = ctx.orders.approachBearing;
+    const radius = ctx.attackRange * 0.8;
+    const point = new THREE.Vector3(target.x + Math.cos(bearing) * radius, 0, target.z + Math.sin(bearing) * radius);
+    const near = Math.hypot(point.x - ctx.position.x, point.z - ctx.position.z) < ARRIVE_DISTANCE * 2;
+    if (near || (this.nav && !this.nav.isWalkable(point.x, point.z))) return target.clone();
+    return point;
+  }
+
+  // Circle round to one side of the target, about weapon range away
+  private startFlank(ctx: BrainContext): void {
+    const target = ctx.targetPosition;
+    const bearing = Math.atan2(ctx.position.z - target.z, ctx.position.x - target.x);
+    const side = this.random.next() < 0.5 ? 1 : -1;
+    const radius = ctx.attackRange * 0.8;
+
+    for (const direction of [side, -side]) {
+      const angle = bearing + direction * this.random.range(1, 1.6);
+      const point = new THREE.Vector3(target.x + Math.cos(angle) * radius, 0, target.z + Math.sin(angle) * radius);
+      if (!this.nav || this.nav.isWalkable(point.x, point.z)) {
+        this.enter('flank');
+        this.destination = point;
+        return;
+      }
+    }
+    this.stateTime = 0;
+  }
+
+  // Back off away from the threat, into cover if there is some
+  private startRetreat(ctx: BrainContext): void {
+    const threat = this.lastKnownTarget ?? ctx.targetPosition;
+    this.enter('retreat');
+    const spot = this.cover?.claim(this, {
+      from: ctx.position,
+      threat,
+      maxTravel: 20,
+      minThreatDistance: ctx.position.distanceTo(threat) + 5
+    });
+    if (spot) {
+      this.destination = spot;
+      return;
+    }
+
+    const away = new THREE.Vector3(ctx.position.x - threat.x, 0, ctx.position.z - threat.z);
+    if (away.lengthSq() === 0) away.set(1, 0, 0);
+    this.destination = ctx.position.clone().addScaledVector(away.normalize(), 15);
+  }
+
+  // Centroid of nearby allies, or home if alone
+  private regroupPoint(ctx: BrainContext): THREE.Vector3 {
+    const nearby = ctx.allies.filter(ally => ally.distanceTo(ctx.position) < REGROUP_RADIUS);
+    if (nearby.length === 0) return this.home.clone();
+
+    const centroid = new THREE.Vector3();
+    nearby.forEach(ally => centroid.add(ally));
+    return centroid.divideScalar(nearby.length);
+  }
+
+  private pickPatrolPoint(): THREE.Vector3 {
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const angle = this.random.range(0, Math.PI * 2);
+      const distance = this.random.range(3, PATROL_RADIUS);
+      const point = this.home.clone().add(new THREE.Vector3(Math.cos(angle) * distance, 0, Math.sin(angle) * distance));
+      if (!this.nav || this.nav.isWalkable(point.x, point.z)) return point;
+    }
+    return this.home.clone();
+  }
+
+  private lostTarget(): boolean {
+    return this.unseenTime > LOSE_TARGET_TIME;
+  }
+
+  private inRange(ctx: BrainContext): boolean {
+    const dx = ctx.targetPosition.x - ctx.position.x;
+    const dz = ctx.targetPosition.z - ctx.position.z;
+    return ctx.canSeeTarget && Math.hypot(dx, dz) <= ctx.attackRange;
+  }
+
+  private arrived(position: THREE.Vector3): boolean {
+    if (!this.destination) return true;
+    return Math.hypot(this.destination.x - position.x, this.destination.z - position.z) < ARRIVE_DISTANCE;
+  }
+}
@@ -0,0 +1,296 @@
+import * as THREE from 'three';
+import { CollisionManager } from '../utils/CollisionManager';
+
+// What the grid is baked from; Terrain and headless stubs both satisfy it
+export interface NavWorld {
+  getHeightAt(x: number, z: number): number;
+  isWater?(x: number, z: number): boolean;
+}
+
+export interface NavGridOptions {
+  // Square area covered, centred on the origin
+  halfExtent?: number;
+  cellSize?: number;
+  // Steepest walkable rise over run
+  maxSlope?: number;
+  // Clearance kept from colliders
+  agentRadius?: number;
+  // Colliders lower than this above the ground can be stepped over
+  stepHeight?: number;
+  // Expanded nodes before a search gives up on an unreachable target
+  maxSearchNodes?: number;
+}
+
+const DIAGONAL_COST = Math.SQRT2;
+
+// Neighbour offsets: 4 straight, then 4 diagonal
+const NEIGHBOURS: [number, number][] = [
+  [1, 0], [-1, 0], [0, 1], [0, -1],
+  [1, 1], [1, -1], [-1, 1], [-1, -1]
+];
+
+// Walkability grid over the XZ plane baked once from the terrain and world
+// colliders. Water, slopes steeper than maxSlope and anything solid are
+// blocked. findPath runs A* over 8-connected cells (no corner cutting) and
+// smooths the result so agents walk straight wherever the grid allows.
+export class NavGrid {
+  private halfExtent: number;
+  private cellSize: number;
+  private maxSlope: number;
+  private agentRadius: number;
+  private stepHeight: number;
+  private maxSearchNodes: number;
+  private columns: number;
+  private walkable: Uint8Array;
+  private heights: Float32Array;
+
+  constructor(world: NavWorld, collision: CollisionManager, options: NavGridOptions = {}) {
+    this.halfExtent = options.halfExtent ?? 150;
+    this.cellSize = options.cellSize ?? 2;
+    this.maxSlope = options.maxSlope ?? 0.8;
+    this.agentRadius = options.agentRadius ?? 0.6;
+    this.stepHeight = options.stepHeight ?? 0.5;
+    this.maxSearchNodes = options.maxSearchNodes ?? 8000;
+    this.columns = Math.ceil((this.halfExtent * 2) / this.cellSize);
+    this.walkable = new Uint8Array(this.columns * this.columns);
+    this.heights = new Float32Array(this.columns * this.columns);
+    this.bake(world, collision);
+  }
+
+  private bake(world: NavWorld, collision: CollisionManager): void {
+    // Slope is measured across two cells so the terrain's stepped height
+    // samples don't read as cliffs
+    const span = this.cellSize;
+    const box = new THREE.Box3();
+
+    for (let row = 0; row < this.columns; row++) {
+      for (let col = 0; col < this.columns; col++) {
+        const index = row * this.columns + col;
+        const x = this.toWorld(col);
+        const z = this.toWorld(row);
+        const ground = world.getHeightAt(x, z);
+        this.heights[index] = ground;
+
+        if (world.isWater?.(x, z)) continue;
+
+        const slopeX = Math.abs(world.getHeightAt(x + span, z) - world.getHeightAt(x - span, z)) / (span * 2);
+        const slopeZ = Math.abs(world.getHeightAt(x, z + span) - world.getHeightAt(x, z - span)) / (span * 2);
+        if (Math.max(slopeX, slopeZ) > this.maxSlope) continue;
+
+        const reach = this.cellSize / 2 + this.agentRadius;
+        box.min.set(x - reach, ground + this.stepHeight, z - reach);
+        box.max.set(x + reach, ground + 1.8, z + reach);
+        if (collision.intersectsAny(box)) continue;
+
+        this.walkable[index] = 1;
+      }
+    }
+  }
+
+  public isWalkable(x: number, z: number): boolean {
+    const col = this.toCell(x);
+    const row = this.toCell(z);
+    return this.inBounds(col, row) && this.walkable[row * this.columns + col] === 1;
+  }
+
+  // Waypoints from start to end (excluding start), or null when the target is
+  // unreachable. Blocked endpoints snap to the nearest walkable cell.
+  public findPath(start: THREE.Vector3, end: THREE.Vector3): THREE.Vector3[] | null {
+    const startCell = this.nearestWalkableCell(this.toCell(start.x), this.toCell(start.z));
+    const goalCell = this.nearestWalkableCell(this.toCell(end.x), this.toCell(end.z));
+    if (startCell === null || goalCell === null) return null;
+    if (startCell === goalCell) return [end.clone()];
+
+    const cells = this.search(startCell, goalCell);
+    if (!cells) return null;
+
+    const points = cells.map(cell => this.cellCenter(cell));
+    // Aim for the exact target when its own cell is walkable
+    if (this.isWalkable(end.x, end.z)) {
+      points[points.length - 1] = end.clone();
+    }
+    return this.smooth(start, points);
+  }
+
+  // Whether an agent can walk the straight line between two points
+  public hasClearPath(from: THREE.Vector3, to: THREE.Vector3): boolean {
+    const dx = to.x - from.x;
+    const dz = to.z - from.z;
+    const steps = Math.ceil(Math.sqrt(dx * dx + dz * dz) / (this.cellSize * 0.5));
+    for (let i = 1; i <= steps; i++) {
+      const t = i / steps;
+      if (!this.isWalkable(from.x + dx * t, from.z + dz * t)) return false;
+    }
+    return true;
+  }
+
+  // A* with an octile-distance heuristic. Returns cell indices after the start.
+  private search(start: number, goal: number): number[] | null {
+    const cellCount = this.walkable.length;
+    const cost = new Float32Array(cellCount).fill(Infinity);
+    const cameFrom = new Int32Array(cellCount).fill(-1);
+    const closed = new Uint8Array(cellCount);
+    const open = new MinHeap();
+    const goalCol = goal % this.columns;
+    const goalRow = Math.floor(goal / this.columns);
+
+    const heuristic = (cell: number) => {
+      const dx = Math.abs(cell % this.columns - goalCol);
+      const dz = Math.abs(Math.floor(cell / this.columns) - goalRow);
+      return Math.max(dx, dz) + (DIAGONAL_COST - 1) * Math.min(dx, dz);
+    };
+
+    cost[start] = 0;
+    open.push(start, heuristic(start));
+    let expanded = 0;
+
+    while (open.size() > 0) {
+      const current = open.pop();
+      if (current === goal) return this.reconstruct(cameFrom, start, goal);
+      if (closed[current]) continue;
+      closed[current] = 1;
+      if (++expanded > this.maxSearchNodes) return null;
+
+      const col = current % this.columns;
+      const row = Math.floor(current / this.columns);
+
+      NEIGHBOURS.forEach(([dc, dr], i) => {
+        const nc = col + dc;
+        const nr = row + dr;
+        if (!this.inBounds(nc, nr)) return;
+        const next = nr * this.columns + nc;
+        if (!this.walkable[next] || closed[next]) return;
+
+        // Diagonals may not cut past a blocked corner
+        const diagonal = i >= 4;
+        if (diagonal && (!this.walkable[row * this.columns + nc] || !this.walkable[nr * this.columns + col])) return;
+
+        const nextCost = cost[current] + (diagonal ? DIAGONAL_COST : 1);
+        if (nextCost < cost[next]) {
+          cost[next] = nextCost;
+          cameFrom[next] = current;
+          open.push(next, nextCost + heuristic(next));
+        }
+      });
+    }
+
+    return null;
+  }
+
+  private reconstruct(cameFrom: Int32Array, start: number, goal: number): number[] {
+    const cells: number[] = [];
+    for (let cell = goal; cell !== start; cell = cameFrom[cell]) {
+      cells.push(cell);
+    }
+    return cells.reverse();
+  }
+
+  // Drops waypoints that can be skipped in a straight walkable line
+  private smooth(start: THREE.Vector3, points: THREE.Vector3[]): THREE.Vector3[] {
+    const result: THREE.Vector3[] = [];
+    let anchor = start;
+    let i = 0;
+
+    while (i < points.length) {
+      let furthest = i;
+      for (let j = points.length - 1; j > i; j--) {
+        if (this.hasClearPath(anchor, points[j])) {
+          furthest = j;
+          break;
+        }
+      }
+      result.push(points[furthest]);
+      anchor = points[furthest];
+      i = furthest + 1;
+    }
+
+    return result;
+  }
+
+  // Searches outward in rings for the closest walkable cell
+  private nearestWalkableCell(col: number, row: number, maxRadius = 6): number | null {
+    col = Math.max(0, Math.min(this.columns - 1, col));
+    row = Math.max(0, Math.min(this.columns - 1, row));
+
+    for (let radius = 0; radius <= maxRadius; radius++) {
+      for (let dr = -radius; dr <= radius; dr++) {
+        for (let dc = -radius; dc <= radius; dc++) {
+          if (Math.max(Math.abs(dc), Math.abs(dr)) !== radius) continue;
+          const c = col + dc;
+          const r = row + dr;
+          if (this.inBounds(c, r) && this.walkable[r * this.columns + c]) {
+            return r * this.columns + c;
+          }
+        }
+      }
+    }
+    return null;
+  }
+
+  private cellCenter(cell: number): THREE.Vector3 {
+    const col = cell % this.columns;
+    const row = Math.floor(cell / this.columns);
+    return new THREE.Vector3(this.toWorld(col), this.heights[cell], this.toWorld(row));
+  }
+
+  private toCell(value: number): number {
+    return Math.floor((value + this.halfExtent) / this.cellSize);
+  }
+
+  private toWorld(cell: number): number {
+    return (cell + 0.5) * this.cellSize - this.halfExtent;
+  }
+
+  private inBounds(col: number, row: number): boolean {
+    return col >= 0 && row >= 0 && col < this.columns && row < this.columns;
+  }
+}
+
+// Binary min-heap of cell indices keyed by priority
+class MinHeap {
+  private items: number[] = [];
+  private priorities: number[] = [];
+
+  public size(): number {
+    return this.items.length;
+  }
+
+  public push(item: number, priority: number): void {
+    this.items.push(item);
+    this.priorities.push(priority);
+    let i = this.items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.priorities[parent] <= this.priorities[i]) break;
+      this.swap(i, parent);
+      i = parent;
+    }
+  }
+
+  public pop(): number {
+    const top = this.items[0];
+    const lastItem = this.items.pop()!;
+    const lastPriority = this.priorities.pop()!;
+    if (this.items.length === 0) return top;
+
+    this.items[0] = lastItem;
+    this.priorities[0] = lastPriority;
+    let i = 0;
+    for (;;) {
+      const left = i * 2 + 1;
+      const right = left + 1;
+      let smallest = i;
+      if (left < this.items.length && this.priorities[left] < this.priorities[smallest]) smallest = left;
+      if (right < this.items.length && this.priorities[right] < this.priorities[smallest]) smallest = right;
+      if (smallest === i) break;
+      this.swap(i, smallest);
+      i = smallest;
+    }
+    return top;
+  }
+
+  private swap(a: number, b: number): void {
+    [this.items[a], this.items[b]] = [this.items[b], this.items[a]];
+    [this.priorities[a], this.priorities[b]] = [this.priorities[b], this.priorities[a]];
+  }
+}
@@ -0,0 +1,71 @@
+import * as THREE from 'three';
+import { NavGrid } from './NavGrid';
+
+export interface PathFollowerOptions {
+  // Seconds between path queries while the target keeps moving
+  repathInterval?: number;
+  // Target movement that triggers a new query
+  repathDistance?: number;
+  // How close counts as reaching a waypoint
+  arriveRadius?: number;
+}
+
+// Steers any agent (enemy, AI vehicle, bot) along NavGrid paths towards a
+// moving target, re-querying at most every repathInterval seconds
+export class PathFollower {
+  private nav: NavGrid;
+  private path: THREE.Vector3[] = [];
+  private pathTarget: THREE.Vector3 | null = null;
+  private repathTimer = 0;
+  private repathInterval: number;
+  private repathDistance: number;
+  private arriveRadius: number;
+
+  constructor(nav: NavGrid, options: PathFollowerOptions = {}) {
+    this.nav = nav;
+    this.repathInterval = options.repathInterval ?? 0.5;
+    this.repathDistance = options.repathDistance ?? 2;
+    this.arriveRadius = options.arriveRadius ?? 1;
+  }
+
+  // Normalized XZ direction to walk in, or null when the target can't be reached
+  public update(delta: number, position: THREE.Vector3, target: THREE.Vector3): THREE.Vector3 | null {
+    this.repathTimer -= delta;
+
+    const targetMoved = !this.pathTarget || this.pathTarget.distanceTo(target) > this.repathDistance;
+    if (this.repathTimer <= 0 && (targetMoved || this.path.length === 0)) {
+      this.repath(position, target);
+    }
+
+    while (this.path.length > 0 && this.horizontalDistance(position, this.path[0]) < this.arriveRadius) {
+      this.path.shift();
+    }
+    if (this.path.length === 0) return null;
+
+    const direction = new THREE.Vector3().subVectors(this.path[0], position);
+    direction.y = 0;
+    return direction.lengthSq() > 0 ? direction.normalize() : null;
+  }
+
+  private repath(position: THREE.Vector3, target: THREE.Vector3): void {
+    this.repathTimer = this.repathInterval;
+    this.pathTarget = target.clone();
+    this.path = this.nav.hasClearPath(position, target)
+      ? [target.clone()]
+      : this.nav.findPath(position, target) ?? [];
+  }
+
+  private horizontalDistance(a: THREE.Vector3, b: THREE.Vector3): number {
+    return Math.hypot(a.x - b.x, a.z - b.z);
+  }
+
+  public getPath(): THREE.Vector3[] {
+    return this.path;
+  }
+
+  public clear(): void {
+    this.path = [];
+    this.pathTarget = null;
+    this.repathTimer = 0;
+  }
+}
@@ -0,0 +1,146 @@
+import * as THREE from 'three';
+import { CollisionManager } from '../utils/CollisionManager';
+
+// How well one kind of observer sees and hears
+export interface SenseProfile {
+  sightRange: number;
+  // Full cone angle in radians
+  fieldOfView: number;
+  // Multiplies the audible radius of noises
+  hearing: number;
+}
+
+export interface Observer {
+  eye: THREE.Vector3;
+  // Which way the observer is facing
+  forward: THREE.Vector3;
+  senses: SenseProfile;
+}
+
+export interface PerceptionTarget {
+  position: THREE.Vector3;
+  crouching: boolean;
+}
+
+export interface SenseResult {
+  // Target is in view and fully noticed
+  canSee: boolean;
+  // Target is in view but not yet noticed; worth a closer look
+  suspicious: boolean;
+  // Became fully noticed this update
+  spotted: boolean;
+  // Closest noise heard this step, if any
+  heard: THREE.Vector3 | null;
+}
+
+interface Noise {
+  position: THREE.Vector3;
+  // Audible distance for an observer with hearing 1
+  radius: number;
+}
+
+// Anything within this distance is noticed regardless of facing
+const PERIPHERAL_RANGE = 4;
+// Crouching targets are seen from closer and noticed more slowly
+const CROUCH_RANGE_FACTOR = 0.6;
+const CROUCH_DETECTION_FACTOR = 0.4;
+// Detection per second at the edge of sight range and point-blank
+const FAR_DETECTION_RATE = 0.5;
+const NEAR_DETECTION_RATE = 3;
+const DETECTION_DECAY = 0.2;
+const SUSPICION_THRESHOLD = 0.3;
+
+// Sight and hearing for AI observers. Sight is a cone test plus an occlusion
+// ray against the world colliders, and fills a per-observer detection meter
+// so targets at the edge of view (or crouching) take a while to notice.
+// Noises made during one step are heard by observers on the next.
+export class Perception {
+  private collision: CollisionManager;
+  private detection = new Map<object, number>();
+  private noises: Noise[] = [];
+  private pendingNoises: Noise[] = [];
+  // 1 = clear weather; fog and rain shrink sight range
+  private visibility = 1;
+
+  constructor(collision: CollisionManager) {
+    this.collision = collision;
+  }
+
+  // Call once at the start of each simulation step
+  public beginStep(): void {
+    this.noises = this.pendingNoises;
+    this.pendingNoises = [];
+  }
+
+  public makeNoise(position: THREE.Vector3, radius: number): void {
+    this.pendingNoises.push({ position: position.clone(), radius });
+  }
+
+  public setVisibility(visibility: number): void {
+    this.visibility = Math.max(0, Math.min(1, visibility));
+  }
+
+  public getVisibility(): number {
+    return this.visibility;
+  }
+
+  // key identifies the observer across updates (its detection meter)
+  public sense(key: object, delta: number, observer: Observer, target: PerceptionTarget): SenseResult {
+    const before = this.detection.get(key) ?? 0;
+    const distance = observer.eye.distanceTo(target.position);
+    const range = observer.senses.sightRange * this.visibility * (target.crouching ? CROUCH_RANGE_FACTOR : 1);
+    const inView = this.isInView(observer, target.position, distance, range);
+
+    let level: number;
+    if (inView) {
+      const closeness = 1 - distance / range;
+      const rate = FAR_DETECTION_RATE + (NEAR_DETECTION_RATE - FAR_DETECTION_RATE) * closeness;
+      level = Math.min(1, before + delta * rate * (target.crouching ? CROUCH_DETECTION_FACTOR : 1));
+    } else {
+      level = Math.max(0, before - delta * DETECTION_DECAY);
+    }
+    this.detection.set(key, level);
+
+    return {
+      canSee: inView && level >= 1,
+      suspicious: inView && level >= SUSPICION_THRESHOLD && level < 1,
+      spotted: before < 1 && level >= 1,
+      heard: this.hear(observer)
+    };
+  }
+
+  // Something (a squadmate, being shot) told the observer where to look
+  public raiseDetection(key: object, level: number): void {
+    this.detection.set(key, Math.max(this.detection.get(key) ?? 0, level));
+  }
+
+  public forget(key: object): void {
+    this.detection.delete(key);
+  }
+
+  private isInView(observer: Observer, point: THREE.Vector3, distance: number, range: number): boolean {
+    if (distance > range) return false;
+
+    if (distance > PERIPHERAL_RANGE) {
+      const toPoint = new THREE.Vector3().subVectors(point, observer.eye);
+      toPoint.y = 0;
+      const forward = new THREE.Vector3(observer.forward.x, 0, observer.forward.z);
+      if (forward.angleTo(toPoint) > observer.senses.fieldOfView / 2) return false;
+    }
+
+    return this.collision.castSegment(observer.eye, point) === null;
+  }
+
+  private hear(observer: Observer): THREE.Vector3 | null {
+    let closest: THREE.Vector3 | null = null;
+    let closestDistance = Infinity;
+    for (const noise of this.noises) {
+      const distance = noise.position.distanceTo(observer.eye);
+      if (distance <= noise.radius * observer.senses.hearing && distance < closestDistance) {
+        closest = noise.position;
+        closestDistance = distance;
+      }
+    }
+    return closest;
+  }
+}
@@ -0,0 +1,195 @@
+import * as THREE from 'three';
+import { Random } from '../utils/Random';
+
+// suppressor keeps the target pinned from cover and may always fire,
+// flanker works round the side, grenadier lobs grenades to flush the target out
+export type SquadRole = 'suppressor' | 'flanker' | 'grenadier';
+
+export interface SquadAgent {
+  getPosition(): THREE.Vector3;
+}
+
+// What the squad asks of one member this step
+export interface SquadOrders {
+  role: SquadRole;
+  // Bearing (radians, around the target in the XZ plane) to close in from
+  approachBearing: number;
+  // Whether it's this member's turn to shoot
+  mayFire: boolean;
+  // Whether the squad's grenade is ready and this member should throw it
+  mayThrowGrenade: boolean;
+}
+
+export interface SquadManagerOptions {
+  maxSize?: number;
+  // New members join the nearest squad with room within this distance
+  joinRadius?: number;
+  // Seconds each fire team gets before the next one takes over
+  volleyDuration?: number;
+  // Seconds between a squad's grenades
+  grenadeInterval?: number;
+}
+
+interface Squad {
+  members: SquadAgent[];
+  roles: Map<SquadAgent, SquadRole>;
+  approachBearing: number;
+  volleyTimer: number;
+  volley: number;
+  grenadeCooldown: number;
+}
+
+const ROLES: SquadRole[] = ['suppressor', 'flanker', 'grenadier'];
+// Non-suppressors that may fire at the same time
+const FIRE_TEAM_SIZE = 2;
+// Members fan out this far either side of the squad's bearing
+const MEMBER_SPREAD = 0.35;
+
+// Groups enemies into small squads. Each squad gets its own approach angle
+// around the target so squads surround it instead of bunching up, members
+// hold distinct roles, and non-suppressors take turns firing in fire teams.
+export class SquadManager {
+  private random: Random;
+  private squads: Squad[] = [];
+  private maxSize: number;
+  private joinRadius: number;
+  private volleyDuration: number;
+  private grenadeInterval: number;
+
+  constructor(random: Random, options: SquadManagerOptions = {}) {
+    this.random = random;
+    this.maxSize = options.maxSize ?? 4;
+    this.joinRadius = options.joinRadius ?? 20;
+    this.volleyDuration = options.volleyDuration ?? 1.5;
+    this.grenadeInterval = options.grenadeInterval ?? 10;
+  }
+
+  // Adds an agent to the nearest squad with room (or a new one). It gets its
+  // preferred role unless that's taken and the squad is missing another.
+  public join(agent: SquadAgent, preferredRole: SquadRole): void {
+    const position = agent.getPosition();
+    let squad: Squad | null = null;
+    let nearest = this.joinRadius;
+    for (const candidate of this.squads) {
+      if (candidate.members.length >= this.maxSize) continue;
+      const distance = this.centroid(candidate).distanceTo(position);
+      if (distance <= nearest) {
+        squad = candidate;
+        nearest = distance;
+      }
+    }
+
+    if (!squad) {
+      squad = {
+        members: [],
+        roles: new Map(),
+        approachBearing: 0,
+        volleyTimer: 0,
+        volley: 0,
+        grenadeCooldown: this.random.range(0.5, 1) * this.grenadeInterval
+      };
+      this.squads.push(squad);
+    }
+
+    const taken = new Set(squad.roles.values());
+    const missing = ROLES.find(role => !taken.has(role));
+    const role = taken.has(preferredRole) && missing ? missing : preferredRole;
+    squad.members.push(agent);
+    squad.roles.set(agent, role);
+  }
+
+  public leave(agent: SquadAgent): void {
+    const squad = this.findSquad(agent);
+    if (!squad) return;
+
+    squad.members.splice(squad.members.indexOf(agent), 1);
+    squad.roles.delete(agent);
+    if (squad.members.length === 0) {
+      this.squads.splice(this.squads.indexOf(squad), 1);
+    }
+  }
+
+  // Call once per step before reading orders
+  public update(delta: number, target: THREE.Vector3): void {
+    this.squads.forEach(squad => {
+      squad.volleyTimer += delta;
+      if (squad.volleyTimer >= this.volleyDuration) {
+        squad.volleyTimer = 0;
+        squad.volley++;
+      }
+      squad.grenadeCooldown = Math.max(0, squad.grenadeCooldown - delta);
+    });
+    this.assignBearings(target);
+  }
+
+  public getOrders(agent: SquadAgent): SquadOrders | null {
+    const squad = this.findSquad(agent);
+    if (!squad) return null;
+
+    const role = squad.roles.get(agent)!;
+    const index = squad.members.indexOf(agent);
+    const offset = squad.members.length > 1 ? (index / (squad.members.length - 1) - 0.5) * 2 * MEMBER_SPREAD : 0;
+
+    // Everyone but the suppressors is split into fire teams that take turns
+    const shooters = squad.members.filter(member => squad.roles.get(member) !== 'suppressor');
+    const teams = Math.max(1, Math.ceil(shooters.length / FIRE_TEAM_SIZE));
+    const team = Math.floor(shooters.indexOf(agent) / FIRE_TEAM_SIZE);
+
+    return {
+      role,
+      approachBearing: squad.approachBearing + offset,
+      mayFire: role === 'suppressor' || team === squad.volley % teams,
+      mayThrowGrenade: role === 'grenadier' && squad.grenadeCooldown <= 0
+    };
+  }
+
+  // Restarts the squad's grenade cooldown after a member throws
+  public grenadeThrown(agent: SquadAgent): void {
+    const squad = this.findSquad(agent);
+    if (squad) squad.grenadeCooldown = this.grenadeInterval * this.random.range(0.8, 1.2);
+  }
+
+  public getSquadmates(agent: SquadAgent): SquadAgent[] {
+    const squad = this.findSquad(agent);
+    return squad ? squad.members.filter(member => member !== agent) : [];
+  }
+
+  public getSquadCount(): number {
+    return this.squads.length;
+  }
+
+  // Spreads squads evenly around the target, keeping their order around it
+  // so nobody has to cross the others' paths
+  private assignBearings(target: THREE.Vector3): void {
+    if (this.squads.length === 0) return;
+
+    const bearings = this.squads.map(squad => {
+      const center = this.centroid(squad);
+      return { squad, bearing: Math.atan2(center.z - target.z, center.x - target.x) };
+    });
+    bearings.sort((a, b) => a.bearing - b.bearing);
+
+    const step = (Math.PI * 2) / bearings.length;
+    // Rotate the whole fan so the squads move as little as possible
+    let sin = 0;
+    let cos = 0;
+    bearings.forEach(({ bearing }, i) => {
+      sin += Math.sin(bearing - i * step);
+      cos += Math.cos(bearing - i * step);
+    });
+    const offset = Math.atan2(sin, cos);
+    bearings.forEach(({ squad }, i) => {
+      squad.approachBearing = offset + i * step;
+    });
+  }
+
+  private findSquad(agent: SquadAgent): Squad | null {
+    return this.squads.find(squad => squad.roles.has(agent)) ?? null;
+  }
+
+  private centroid(squad: Squad): THREE.Vector3 {
+    const center = new THREE.Vector3();
+    squad.members.forEach(member => center.add(member.getPosition()));
+    return center.divideScalar(Math.max(1, squad.members.length));
+  }
+}
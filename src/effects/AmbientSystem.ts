@@ -1,3 +1,8 @@
+import { WeaponSound } from '../weapons/WeaponData';
+
+const DEFAULT_SHOOT_SOUND: WeaponSound = { wave: 'square', frequency: 150, duration: 0.1, volume: 0.15 };
+const DEFAULT_RELOAD_SOUND: WeaponSound = { wave: 'triangle', frequency: 200, duration: 0.2, volume: 0.08 };
+
 export class AmbientSystem {
   private audioContext: AudioContext | null = null;
   private windGain: GainNode | null = null;
@@ -178,23 +183,28 @@ export class AmbientSystem {
     setTimeout(spawnBird, 3000);
   }
 
-  public playShootSound(): void {
+  public playShootSound(sound: WeaponSound = DEFAULT_SHOOT_SOUND): void {
+    this.playTone(sound);
+  }
+
+  // A single decaying tone; weapons describe theirs in weapons.json
+  public playTone(sound: WeaponSound): void {
     if (!this.audioContext) return;
 
     const osc = this.audioContext.createOscillator();
     const gain = this.audioContext.createGain();
 
-    osc.type = 'square';
-    osc.frequency.value = 150;
+    osc.type = sound.wave;
+    osc.frequency.value = sound.frequency;
 
-    gain.gain.value = 0.15;
-    gain.gain.exponentialRampToValueAtTime(0.001, this.audioContext.currentTime + 0.1);
+    gain.gain.value = sound.volume;
+    gain.gain.exponentialRampToValueAtTime(0.001, this.audioContext.currentTime + sound.duration);
 
     osc.connect(gain);
     gain.connect(this.audioContext.destination);
 
     osc.start();
-    osc.stop(this.audioContext.currentTime + 0.1);
+    osc.stop(this.audioContext.currentTime + sound.duration);
   }
 
   public playHitSound(isHeadshot: boolean = false): void {
@@ -216,24 +226,9 @@ export class AmbientSystem {
     osc.stop(this.audioContext.currentTime + 0.1);
   }
 
-  public playReloadSound(): void {
-    if (!this.audioContext) return;
-
+  public playReloadSound(sound: WeaponSound = DEFAULT_RELOAD_SOUND): void {
     // Click sound
-    const osc = this.audioContext.createOscillator();
-    const gain = this.audioContext.createGain();
-
-    osc.type = 'triangle';
-    osc.frequency.value = 200;
-
-    gain.gain.value = 0.08;
-    gain.gain.exponentialRampToValueAtTime(0.001, this.audioContext.currentTime + 0.2);
-
-    osc.connect(gain);
-    gain.connect(this.audioContext.destination);
-
-    osc.start();
-    osc.stop(this.audioContext.currentTime + 0.2);
+    this.playTone(sound);
   }
 
   public playPowerUpSound(): void {
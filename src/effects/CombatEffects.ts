@@ -1,3 +1,13 @@
+import { HitZone } from '../entities/Health';
+
+const HIT_ZONE_LABELS: Record<HitZone, string> = {
+  head: 'HEADSHOT!',
+  torso: 'BODY',
+  arm: 'ARM SHOT',
+  leg: 'LEG SHOT',
+  weakPoint: 'WEAK POINT!'
+};
+
 export class CombatEffects {
   private screenShakeAmount = 0;
   private screenShakeDecay = 10;
@@ -70,20 +80,22 @@ export class CombatEffects {
     }, 100);
   }
 
-  public showKillPopup(points: number, isHeadshot: boolean = false): void {
+  public showKillPopup(points: number, hitZone?: HitZone): void {
     const container = document.getElementById('kill-popup-container');
     if (!container) return;
 
+    const isCritical = hitZone === 'head' || hitZone === 'weakPoint';
+
     const popup = document.createElement('div');
     popup.style.cssText = `
       font-family: 'Arial Black', sans-serif;
-      font-size: ${isHeadshot ? '28px' : '24px'};
+      font-size: ${isCritical ? '28px' : '24px'};
       font-weight: bold;
-      color: ${isHeadshot ? '#ff4444' : '#ffffff'};
+      color: ${isCritical ? '#ff4444' : '#ffffff'};
       text-shadow: 2px 2px 4px rgba(0,0,0,0.8);
       animation: killPopup 1.5s ease-out forwards;
     `;
-    popup.textContent = isHeadshot ? `+${points} HEADSHOT!` : `+${points}`;
+    popup.textContent = hitZone ? `+${points} ${HIT_ZONE_LABELS[hitZone]}` : `+${points}`;
     
     container.appendChild(popup);
 
@@ -151,6 +163,22 @@ export class CombatEffects {
     setTimeout(() => splatter.remove(), 500);
   }
 
+  public flashHitOverlay(): void {
+    const overlay = document.createElement('div');
+    overlay.style.cssText = `
+      position: fixed;
+      top: 0;
+      left: 0;
+      width: 100%;
+      height: 100%;
+      background: rgba(255, 0, 0, 0.3);
+      pointer-events: none;
+      z-index: 99;
+    `;
+    document.body.appendChild(overlay);
+    setTimeout(() => overlay.remove(), 100);
+  }
+
   public flashDamageOverlay(): void {
     const overlay = document.createElement('div');
     overlay.style.cssText = `
@@ -118,6 +118,99 @@ export class ParticleSystem {
     anim();
   }
 
+  // Small burst of debris thrown back off a surface a bullet hit
+  public createImpact(position: THREE.Vector3, normal: THREE.Vector3): void {
+    const count = 12;
+    const geo = new THREE.BufferGeometry();
+    const pos = new Float32Array(count * 3);
+    const vel = Array.from({ length: count }, () => new THREE.Vector3(
+      normal.x * 4 + (Math.random() - 0.5) * 4,
+      normal.y * 4 + Math.random() * 3,
+      normal.z * 4 + (Math.random() - 0.5) * 4
+    ));
+
+    for (let i = 0; i < count; i++) {
+      pos[i * 3] = position.x;
+      pos[i * 3 + 1] = position.y;
+      pos[i * 3 + 2] = position.z;
+    }
+    geo.setAttribute('position', new THREE.BufferAttribute(pos, 3));
+
+    const mat = new THREE.PointsMaterial({ color: 0xccbbaa, size: 0.15, transparent: true });
+    const impact = new THREE.Points(geo, mat);
+    this.scene.add(impact);
+
+    let t = 0;
+    const anim = () => {
+      t += 0.016;
+      const p = impact.geometry.attributes.position.array as Float32Array;
+      for (let i = 0; i < count; i++) {
+        p[i * 3] += vel[i].x * 0.016;
+        p[i * 3 + 1] += vel[i].y * 0.016;
+        p[i * 3 + 2] += vel[i].z * 0.016;
+        vel[i].y -= 15 * 0.016;
+      }
+      impact.geometry.attributes.position.needsUpdate = true;
+      mat.opacity = 1 - t * 2.5;
+      t < 0.4 ? requestAnimationFrame(anim) : (this.scene.remove(impact), geo.dispose(), mat.dispose());
+    };
+    anim();
+  }
+
+  // Brief streak along a hitscan shot
+  public createTracer(start: THREE.Vector3, end: THREE.Vector3): void {
+    const geo = new THREE.BufferGeometry().setFromPoints([start, end]);
+    const mat = new THREE.LineBasicMaterial({ color: 0xffdd88, transparent: true });
+    const tracer = new THREE.Line(geo, mat);
+    this.scene.add(tracer);
+
+    let t = 0;
+    const anim = () => {
+      t += 0.016;
+      mat.opacity = 1 - t * 10;
+      t < 0.1 ? requestAnimationFrame(anim) : (this.scene.remove(tracer), geo.dispose(), mat.dispose());
+    };
+    anim();
+  }
+
+  // Pulsing ground ring marking where an attack is about to land
+  public createWarningRing(position: THREE.Vector3, radius: number, duration: number): void {
+    const geo = new THREE.RingGeometry(Math.max(0, radius - 0.4), radius, 48);
+    const mat = new THREE.MeshBasicMaterial({
+      color: 0xff2222, transparent: true, opacity: 0.6, side: THREE.DoubleSide, depthWrite: false
+    });
+    const ring = new THREE.Mesh(geo, mat);
+    ring.rotation.x = -Math.PI / 2;
+    ring.position.set(position.x, position.y + 0.1, position.z);
+    this.scene.add(ring);
+
+    let t = 0;
+    const anim = () => {
+      t += 0.016;
+      mat.opacity = 0.35 + 0.3 * Math.sin(t * 20);
+      t < duration ? requestAnimationFrame(anim) : (this.scene.remove(ring), geo.dispose(), mat.dispose());
+    };
+    anim();
+  }
+
+  public createExplosionLight(position: THREE.Vector3): void {
+    const light = new THREE.PointLight(0xff6600, 10, 30);
+    light.position.copy(position);
+    this.scene.add(light);
+
+    // Fade out light
+    let intensity = 10;
+    const fadeInterval = setInterval(() => {
+      intensity -= 0.5;
+      light.intensity = intensity;
+      if (intensity <= 0) {
+        this.scene.remove(light);
+        light.dispose();
+        clearInterval(fadeInterval);
+      }
+    }, 50);
+  }
+
   public createMuzzleFlash(position: THREE.Vector3): void {
     const f = new THREE.PointLight(0xffaa00, 4, 4);
     f.position.copy(position);
@@ -0,0 +1,349 @@
+import * as THREE from 'three';
+
+// Named parts of a character model that clips can move. The model root is
+// never touched: its position and heading belong to whoever moves it.
+export type BoneName = 'torso' | 'head' | 'leftArm' | 'rightArm' | 'leftLeg' | 'rightLeg' | 'weapon';
+
+export type AnimationClipName = 'idle' | 'walk' | 'run' | 'crouch' | 'shoot' | 'reload' | 'hitReact' | 'death';
+
+// Clips triggered by gameplay events rather than ongoing state
+export type AnimationAction = 'shoot' | 'hitReact' | 'death';
+
+// Offset from the bone's rest pose; rotation is Euler radians
+export interface BoneOffset {
+  rotation?: [number, number, number];
+  position?: [number, number, number];
+}
+
+export type AnimationPose = Partial<Record<BoneName, BoneOffset>>;
+
+export interface AnimationKey {
+  // 0-1 through the clip
+  time: number;
+  pose: AnimationPose;
+}
+
+export interface AnimationClip {
+  duration: number;
+  loop: boolean;
+  // Additive clips stack on the layers below; override clips replace what
+  // the layers below did to any bone they key
+  blend: 'additive' | 'override';
+  // One-shots that stay on their last frame until reset (death)
+  hold?: boolean;
+  keys: AnimationKey[];
+}
+
+const swing = (legs: number, arms: number, bob: number): AnimationKey[] => [
+  { time: 0, pose: { torso: { position: [0, bob, 0] } } },
+  { time: 0.25, pose: { leftLeg: { rotation: [legs, 0, 0] }, rightLeg: { rotation: [-legs, 0, 0] }, leftArm: { rotation: [-arms, 0, 0] }, rightArm: { rotation: [arms, 0, 0] } } },
+  { time: 0.5, pose: { torso: { position: [0, bob, 0] } } },
+  { time: 0.75, pose: { leftLeg: { rotation: [-legs, 0, 0] }, rightLeg: { rotation: [legs, 0, 0] }, leftArm: { rotation: [arms, 0, 0] }, rightArm: { rotation: [-arms, 0, 0] } } },
+  { time: 1, pose: { torso: { position: [0, bob, 0] } } }
+];
+
+// Forward is +z, so a positive x rotation leans a part forward
+export const CHARACTER_CLIPS: Record<AnimationClipName, AnimationClip> = {
+  idle: {
+    duration: 3, loop: true, blend: 'additive',
+    keys: [
+      { time: 0, pose: {} },
+      { time: 0.5, pose: { torso: { position: [0, 0.02, 0] }, head: { position: [0, 0.02, 0] }, leftArm: { rotation: [0.05, 0, 0] }, rightArm: { rotation: [0.05, 0, 0] } } },
+      { time: 1, pose: {} }
+    ]
+  },
+  // Walk and run are one full stride; playback follows ground speed
+  walk: { duration: 1, loop: true, blend: 'additive', keys: swing(0.5, 0.3, 0.03) },
+  run: {
+    duration: 1, loop: true, blend: 'additive',
+    keys: swing(0.9, 0.7, 0.08).map(key => ({
+      time: key.time,
+      pose: { ...key.pose, torso: { position: key.pose.torso?.position, rotation: [0.2, 0, 0] }, head: { rotation: [-0.1, 0, 0] } }
+    }))
+  },
+  crouch: {
+    duration: 1, loop: true, blend: 'additive',
+    keys: [{
+      time: 0,
+      pose: {
+        torso: { position: [0, -0.35, 0], rotation: [0.25, 0, 0] },
+        head: { position: [0, -0.4, 0.1] },
+        leftArm: { position: [0, -0.35, 0] },
+        rightArm: { position: [0, -0.35, 0] },
+        weapon: { position: [0, -0.35, 0] },
+        leftLeg: { position: [0, -0.1, 0.1], rotation: [0.6, 0, 0] },
+        rightLeg: { position: [0, -0.1, -0.05], rotation: [-0.3, 0, 0] }
+      }
+    }]
+  },
+  shoot: {
+    duration: 0.15, loop: false, blend: 'additive',
+    keys: [
+      { time: 0, pose: {} },
+      { time: 0.2, pose: { weapon: { position: [0, 0.02, -0.08], rotation: [-0.15, 0, 0] }, rightArm: { rotation: [-0.15, 0, 0] } } },
+      { time: 1, pose: {} }
+    ]
+  },
+  // Weapon tipped down while the off hand swaps the magazine
+  reload: {
+    duration: 1.2, loop: true, blend: 'override',
+    keys: [
+      { time: 0, pose: { weapon: { rotation: [0.5, 0, 0.3] }, leftArm: { rotation: [-0.6, 0, 0] }, rightArm: { rotation: [-0.3, 0, 0] } } },
+      { time: 0.4, pose: { weapon: { rotation: [0.5, 0, 0.3] }, leftArm: { rotation: [-0.2, 0, 0.3] }, rightArm: { rotation: [-0.3, 0, 0] } } },
+      { time: 0.6, pose: { weapon: { rotation: [0.6, 0, 0.3] }, leftArm: { rotation: [-0.2, 0, 0.3] }, rightArm: { rotation: [-0.3, 0, 0] } } },
+      { time: 1, pose: { weapon: { rotation: [0.5, 0, 0.3] }, leftArm: { rotation: [-0.6, 0, 0] }, rightArm: { rotation: [-0.3, 0, 0] } } }
+    ]
+  },
+  hitReact: {
+    duration: 0.3, loop: false, blend: 'additive',
+    keys: [
+      { time: 0, pose: {} },
+      { time: 0.3, pose: { torso: { rotation: [-0.3, 0, 0] }, head: { rotation: [-0.4, 0, 0], position: [0, 0, -0.05] }, leftArm: { rotation: [-0.3, 0, 0.2] }, rightArm: { rotation: [-0.3, 0, -0.2] } } },
+      { time: 1, pose: {} }
+    ]
+  },
+  // Knees give and the body slumps back onto the ground
+  death: {
+    duration: 0.6, loop: false, blend: 'override', hold: true,
+    keys: [
+      { time: 0, pose: {} },
+      {
+        time: 0.4,
+        pose: {
+          torso: { position: [0, -0.4, 0], rotation: [-0.3, 0, 0] },
+          head: { position: [0, -0.5, -0.2], rotation: [-0.3, 0, 0] },
+          leftArm: { position: [0, -0.4, -0.1], rotation: [-0.8, 0, 0.4] },
+          rightArm: { position: [0, -0.4, -0.1], rotation: [-0.8, 0, -0.4] },
+          leftLeg: { position: [0, 0.05, 0.1], rotation: [0.8, 0, 0] },
+          rightLeg: { position: [0, 0.05, 0.1], rotation: [0.7, 0, 0] },
+          weapon: { position: [0, -0.5, 0.1], rotation: [0.4, 0, 0.6] }
+        }
+      },
+      {
+        time: 1,
+        pose: {
+          torso: { position: [0, -0.6, -0.2], rotation: [-1.2, 0, 0] },
+          head: { position: [0, -1.15, -1], rotation: [-0.6, 0, 0] },
+          leftArm: { position: [0, -0.75, -0.5], rotation: [-1.5, 0, 0.6] },
+          rightArm: { position: [0, -0.75, -0.5], rotation: [-1.5, 0, -0.6] },
+          leftLeg: { position: [0, 0.1, 0.25], rotation: [1.3, 0, 0.1] },
+          rightLeg: { position: [0, 0.1, 0.25], rotation: [1.2, 0, -0.1] },
+          weapon: { position: [0.2, -0.95, 0.3], rotation: [0, 0, 1.4] }
+        }
+      }
+    ]
+  }
+};
+
+export interface CharacterAnimatorOptions {
+  // Ground speeds (m/s) where walking and running reach full weight
+  walkSpeed?: number;
+  runSpeed?: number;
+  // Metres covered per full stride at the model's unit scale
+  stride?: number;
+  // Starting point in the stride, 0-1, so groups don't march in lockstep
+  phase?: number;
+  clips?: Record<AnimationClipName, AnimationClip>;
+}
+
+// What the character is doing; all optional
+export interface CharacterState {
+  // Ground speed; measured from the root's movement when left out
+  speed?: number;
+  crouching?: boolean;
+  sprinting?: boolean;
+  reloading?: boolean;
+}
+
+interface Bone {
+  object: THREE.Object3D;
+  restPosition: THREE.Vector3;
+  restRotation: THREE.Euler;
+}
+
+interface BoneTransform {
+  rotation: THREE.Vector3;
+  position: THREE.Vector3;
+}
+
+interface PlayingAction {
+  clip: AnimationClip;
+  time: number;
+}
+
+// Blend speed for held states (crouch, reload), in full weight per second
+const STATE_BLEND_RATE = 8;
+// How quickly measured speed follows the root's actual movement
+const SPEED_SMOOTHING = 10;
+
+// Plays keyframed clips on the named parts of a character model in three
+// layers: locomotion (idle, walk and run blended by ground speed, with
+// crouch added on top), held states (reload) and one-shot actions (shoot,
+// hit react, death). Bones are found by name under the root; a model
+// without some of them (drones, the boss) just ignores those keys.
+export class CharacterAnimator {
+  private root: THREE.Object3D;
+  private bones = new Map<BoneName, Bone>();
+  private transforms = new Map<BoneName, BoneTransform>();
+  private clips: Record<AnimationClipName, AnimationClip>;
+  private walkSpeed: number;
+  private runSpeed: number;
+  private stride: number;
+  private phase: number;
+  private idleTime = 0;
+  private speed = 0;
+  private lastPosition: THREE.Vector3;
+  private crouchWeight = 0;
+  private reloadWeight = 0;
+  private reloadTime = 0;
+  private actions = new Map<AnimationAction, PlayingAction>();
+
+  constructor(root: THREE.Object3D, options: CharacterAnimatorOptions = {}) {
+    this.root = root;
+    this.clips = options.clips ?? CHARACTER_CLIPS;
+    this.walkSpeed = options.walkSpeed ?? 1.5;
+    this.runSpeed = options.runSpeed ?? 6;
+    this.stride = options.stride ?? 3;
+    this.phase = options.phase ?? 0;
+    this.lastPosition = root.position.clone();
+
+    const names: BoneName[] = ['torso', 'head', 'leftArm', 'rightArm', 'leftLeg', 'rightLeg', 'weapon'];
+    names.forEach(name => {
+      const object = root.getObjectByName(name);
+      if (object) this.addBone(name, object);
+    });
+  }
+
+  // Starts an action from the beginning, restarting it if already playing
+  public play(action: AnimationAction): void {
+    if (this.actions.get('death') && action !== 'death') return;
+    this.actions.set(action, { clip: this.clips[action], time: 0 });
+  }
+
+  // Back to the rest pose with nothing playing (e.g. on respawn)
+  public reset(): void {
+    this.actions.clear();
+    this.crouchWeight = 0;
+    this.reloadWeight = 0;
+    this.speed = 0;
+    this.lastPosition.copy(this.root.position);
+    this.transforms.forEach(transform => {
+      transform.rotation.set(0, 0, 0);
+      transform.position.set(0, 0, 0);
+    });
+    this.apply();
+  }
+
+  public isPlaying(action: AnimationAction): boolean {
+    return this.actions.has(action);
+  }
+
+  public update(delta: number, state: CharacterState = {}): void {
+    if (delta <= 0) return;
+
+    const moved = Math.hypot(this.root.position.x - this.lastPosition.x, this.root.position.z - this.lastPosition.z);
+    this.lastPosition.copy(this.root.position);
+    // Capped so teleports (spawns, respawns) don't read as a sprint
+    const measured = Math.min(moved / delta, this.runSpeed * 2);
+    this.speed = state.speed ?? this.speed + (measured - this.speed) * Math.min(1, delta * SPEED_SMOOTHING);
+
+    this.crouchWeight = this.approach(this.crouchWeight, state.crouching ? 1 : 0, delta);
+    this.reloadWeight = this.approach(this.reloadWeight, state.reloading ? 1 : 0, delta);
+    this.reloadTime = this.reloadWeight > 0 ? this.reloadTime + delta : 0;
+    this.idleTime += delta;
+    this.phase = (this.phase + (this.speed * delta) / (this.stride * this.root.scale.y)) % 1;
+
+    this.transforms.forEach(transform => {
+      transform.rotation.set(0, 0, 0);
+      transform.position.set(0, 0, 0);
+    });
+
+    // Locomotion: idle fades out as the character gets moving, and walk
+    // hands over to run as it speeds up; both share the stride phase
+    const moving = this.clamp01(this.speed / this.walkSpeed);
+    const running = state.sprinting ? moving : moving * this.clamp01((this.speed - this.walkSpeed) / (this.runSpeed - this.walkSpeed));
+    this.layer(this.clips.idle, this.idleTime, 1 - moving);
+    this.layer(this.clips.walk, this.phase * this.clips.walk.duration, moving - running);
+    this.layer(this.clips.run, this.phase * this.clips.run.duration, running);
+    this.layer(this.clips.crouch, 0, this.crouchWeight);
+
+    this.layer(this.clips.reload, this.reloadTime, this.reloadWeight);
+
+    this.actions.forEach((action, name) => {
+      action.time += delta;
+      if (action.time >= action.clip.duration && !action.clip.loop) {
+        if (!action.clip.hold) {
+          this.actions.delete(name);
+          return;
+        }
+        action.time = action.clip.duration;
+      }
+      this.layer(action.clip, action.time, 1);
+    });
+
+    this.apply();
+  }
+
+  private addBone(name: BoneName, object: THREE.Object3D): void {
+    this.bones.set(name, { object, restPosition: object.position.clone(), restRotation: object.rotation.clone() });
+    this.transforms.set(name, { rotation: new THREE.Vector3(), position: new THREE.Vector3() });
+  }
+
+  // Blends a clip sampled at time into the pose being built
+  private layer(clip: AnimationClip, time: number, weight: number): void {
+    if (weight <= 0) return;
+
+    const t = clip.loop ? (time % clip.duration) / clip.duration : Math.min(1, time / clip.duration);
+    let next = clip.keys.findIndex(key => key.time >= t);
+    if (next < 0) next = clip.keys.length - 1;
+    const from = clip.keys[Math.max(0, next - 1)];
+    const to = clip.keys[next];
+    const span = to.time - from.time;
+    // Eased between keys so cycles swing rather than tick
+    const u = span > 0 ? THREE.MathUtils.smoothstep(t, from.time, to.time) : 1;
+
+    this.transforms.forEach((transform, name) => {
+      const a = from.pose[name];
+      const b = to.pose[name];
+      if (clip.blend === 'override' && !a && !b) return;
+
+      const rotation = this.mix(a?.rotation, b?.rotation, u);
+      const position = this.mix(a?.position, b?.position, u);
+      if (clip.blend === 'override') {
+        // Only the channels the clip keys, so a crouch still lowers a reloading weapon
+        if (a?.rotation || b?.rotation) transform.rotation.lerp(rotation, weight);
+        if (a?.position || b?.position) transform.position.lerp(position, weight);
+      } else {
+        transform.rotation.addScaledVector(rotation, weight);
+        transform.position.addScaledVector(position, weight);
+      }
+    });
+  }
+
+  private mix(a: [number, number, number] | undefined, b: [number, number, number] | undefined, u: number): THREE.Vector3 {
+    const start = a ? new THREE.Vector3(...a) : new THREE.Vector3();
+    const end = b ? new THREE.Vector3(...b) : new THREE.Vector3();
+    return start.lerp(end, u);
+  }
+
+  private apply(): void {
+    this.bones.forEach((bone, name) => {
+      const { rotation, position } = this.transforms.get(name)!;
+      bone.object.rotation.set(
+        bone.restRotation.x + rotation.x,
+        bone.restRotation.y + rotation.y,
+        bone.restRotation.z + rotation.z
+      );
+      bone.object.position.copy(bone.restPosition).add(position);
+    });
+  }
+
+  private approach(value: number, target: number, delta: number): number {
+    const step = STATE_BLEND_RATE * delta;
+    return value < target ? Math.min(target, value + step) : Math.max(target, value - step);
+  }
+
+  private clamp01(value: number): number {
+    return Math.max(0, Math.min(1, value));
+  }
+}
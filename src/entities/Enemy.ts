@@ -1,57 +1,253 @@
 import * as THREE from 'three';
+import { Random } from '../utils/Random';
+import { Scheduler, TimerHandle } from '../game/Scheduler';
+import { DamageResult, Health, Resistances } from './Health';
+import { CollisionManager } from '../utils/CollisionManager';
+import { Hitbox, HitboxDefinition, HitboxSet, mirrored } from './Hitboxes';
+import { NavGrid } from '../ai/NavGrid';
+import { PathFollower } from '../ai/PathFollower';
+import { CoverMap } from '../ai/CoverMap';
+import { EnemyAwareness, EnemyBrain, EnemyState, EnemyTactics } from '../ai/EnemyBrain';
+import { SenseProfile } from '../ai/Perception';
+import { SquadRole } from '../ai/SquadManager';
+import { Ragdoll } from './Ragdoll';
+import { CharacterAnimator } from './CharacterAnimator';
+import { WeaponId } from '../weapons/WeaponData';
 
-export type EnemyType = 'rifle' | 'smg' | 'heavy' | 'boss';
+export type EnemyType = 'rifle' | 'smg' | 'heavy' | 'sniper' | 'grenadier' | 'shieldBearer' | 'drone' | 'boss';
+
+// hitscan fires the weapon; grenade lobs grenades instead
+export type EnemyAttackMode = 'hitscan' | 'grenade';
 
 interface EnemyConfig {
   health: number;
+  resistances?: Resistances;
   speed: number;
+  // Per shot, and per melee hit unless meleeDamage is set
   damage: number;
+  meleeDamage?: number;
+  // Shots per second
   attackRate: number;
   color: number;
   scale: number;
+  weapon: string;
+  // Player weapon it can leave behind when killed
+  drop?: WeaponId;
+  // Closes to this distance, then opens fire once the player is in sight
+  range: number;
+  // Aim error in radians at point-blank range; grows with distance
+  spread: number;
+  // Seconds of continuous engagement before it starts firing (minigun)
+  spinUp?: number;
+  // Max aim turn rate in rad/s; unset means aim snaps to the target
+  aimTurnRate?: number;
+  // Defaults to hitscan; for grenades attackRate is throws per second
+  attackMode?: EnemyAttackMode;
+  // Seconds spent aiming down a visible laser before each shot (sniper)
+  windUp?: number;
+  // Flies this high above the ground, over obstacles instead of around them
+  hoverHeight?: number;
+  tactics: EnemyTactics;
+  senses: SenseProfile;
+  // Role it asks for when joining a squad; unset keeps it out of squads
+  squadRole?: SquadRole;
+}
+
+// Per-spawn multipliers on the type's base stats (wave difficulty)
+export interface EnemyScaling {
+  health: number;
+  damage: number;
+}
+
+// Temporary multipliers, e.g. from the boss rallying nearby troops
+export interface EnemyBuff {
+  damage: number;
+  fireRate: number;
+  speed: number;
 }
 
 const ENEMY_CONFIGS: Record<EnemyType, EnemyConfig> = {
-  rifle: { health: 80, speed: 2.5, damage: 15, attackRate: 0.8, color: 0xF4A261, scale: 1 },
-  smg: { health: 60, speed: 5, damage: 8, attackRate: 2, color: 0xE9967A, scale: 0.9 },
-  heavy: { health: 200, speed: 1.5, damage: 25, attackRate: 0.5, color: 0xFFD166, scale: 1.3 },
-  boss: { health: 1000, speed: 3, damage: 40, attackRate: 1.5, color: 0xE76F51, scale: 2.5 }
+  rifle: {
+    health: 80, speed: 2.5, damage: 15, attackRate: 0.8, color: 0xF4A261, scale: 1,
+    weapon: 'Enemy Rifle', drop: 'rifle', range: 12, spread: 0.06,
+    tactics: { style: 'assault', retreatHealth: 0.3 },
+    senses: { sightRange: 50, fieldOfView: Math.PI * 0.6, hearing: 1 },
+    squadRole: 'grenadier'
+  },
+  smg: {
+    health: 60, speed: 5, damage: 8, attackRate: 2, color: 0xE9967A, scale: 0.9,
+    weapon: 'Enemy SMG', drop: 'smg', range: 8, spread: 0.12,
+    tactics: { style: 'flank', retreatHealth: 0.25 },
+    senses: { sightRange: 40, fieldOfView: Math.PI * 0.7, hearing: 1.2 },
+    squadRole: 'flanker'
+  },
+  heavy: {
+    health: 200, speed: 1.5, damage: 25, attackRate: 0.5, color: 0xFFD166, scale: 1.3, resistances: { explosion: 0.3 },
+    weapon: 'Enemy Cannon', drop: 'railgun', range: 15, spread: 0.04,
+    tactics: { style: 'hold', retreatHealth: 0 },
+    senses: { sightRange: 45, fieldOfView: Math.PI * 0.5, hearing: 0.8 },
+    squadRole: 'suppressor'
+  },
+  sniper: {
+    health: 70, speed: 2.2, damage: 55, attackRate: 0.25, color: 0x6B8F71, scale: 1,
+    weapon: 'Enemy Sniper', drop: 'sniper', range: 45, spread: 0.008, windUp: 1.5, aimTurnRate: 1.5,
+    tactics: { style: 'snipe', retreatHealth: 0.4 },
+    senses: { sightRange: 75, fieldOfView: Math.PI * 0.4, hearing: 0.9 }
+  },
+  grenadier: {
+    health: 90, speed: 2.2, damage: 10, attackRate: 0.3, color: 0x8D99AE, scale: 1.05,
+    weapon: 'Grenade Launcher', range: 18, spread: 0.08, attackMode: 'grenade',
+    tactics: { style: 'assault', retreatHealth: 0.3 },
+    senses: { sightRange: 45, fieldOfView: Math.PI * 0.6, hearing: 1 },
+    squadRole: 'grenadier'
+  },
+  shieldBearer: {
+    health: 120, speed: 2, damage: 12, attackRate: 1, color: 0x457B9D, scale: 1.1,
+    weapon: 'Enemy Pistol', drop: 'pistol', range: 10, spread: 0.08,
+    tactics: { style: 'advance', retreatHealth: 0 },
+    senses: { sightRange: 40, fieldOfView: Math.PI * 0.6, hearing: 1 }
+  },
+  drone: {
+    health: 45, speed: 6, damage: 6, attackRate: 3, color: 0x2B2D42, scale: 1,
+    weapon: 'Drone Gun', range: 14, spread: 0.1, hoverHeight: 7,
+    tactics: { style: 'flank', retreatHealth: 0 },
+    senses: { sightRange: 55, fieldOfView: Math.PI * 1.2, hearing: 1.3 },
+    squadRole: 'flanker'
+  },
+  boss: {
+    health: 1000, speed: 3, damage: 5, meleeDamage: 40, attackRate: 12, color: 0xE76F51, scale: 2.5, resistances: { explosion: 0.5, bullet: 0.1 },
+    weapon: 'Minigun', range: 20, spread: 0.08, spinUp: 1.5, aimTurnRate: 1.2,
+    tactics: { style: 'assault', retreatHealth: 0 },
+    senses: { sightRange: 60, fieldOfView: Math.PI * 0.8, hearing: 1 }
+  }
+};
+
+// Spread doubles every this many units of distance
+const SPREAD_FALLOFF_DISTANCE = 15;
+// Enemies close to their range but will shoot from a bit further (e.g. from cover)
+const MAX_FIRE_RANGE_FACTOR = 1.5;
+// Vertical speed of flying enemies, m/s
+const CLIMB_RATE = 3;
+
+// Hitbox layouts in model space; the mesh scale is applied on top
+const SOLDIER_HITBOXES: HitboxDefinition[] = [
+  { zone: 'head', center: new THREE.Vector3(0, 1.7, 0), size: new THREE.Vector3(0.9, 0.9, 0.9) },
+  { zone: 'torso', center: new THREE.Vector3(0, 0.8, 0), size: new THREE.Vector3(0.9, 1, 0.8) },
+  ...mirrored('arm', new THREE.Vector3(0.6, 0.85, 0), new THREE.Vector3(0.3, 0.5, 0.3)),
+  ...mirrored('leg', new THREE.Vector3(0.2, 0.15, 0), new THREE.Vector3(0.3, 0.3, 0.3))
+];
+
+// Soldier plus the riot shield held out front; the head shows above it
+const SHIELD_BEARER_HITBOXES: HitboxDefinition[] = [
+  ...SOLDIER_HITBOXES,
+  { zone: 'shield', center: new THREE.Vector3(0, 0.95, 0.65), size: new THREE.Vector3(1.2, 1.5, 0.15) }
+];
+
+// Body, camera pod and the four rotors
+const DRONE_HITBOXES: HitboxDefinition[] = [
+  { zone: 'torso', center: new THREE.Vector3(0, 0, 0), size: new THREE.Vector3(0.7, 0.3, 0.7) },
+  { zone: 'head', center: new THREE.Vector3(0, -0.18, 0.25), size: new THREE.Vector3(0.25, 0.25, 0.25) },
+  ...mirrored('arm', new THREE.Vector3(0.45, 0.1, 0.45), new THREE.Vector3(0.45, 0.1, 0.45)),
+  ...mirrored('arm', new THREE.Vector3(0.45, 0.1, -0.45), new THREE.Vector3(0.45, 0.1, 0.45))
+];
+
+const BOSS_HITBOXES: HitboxDefinition[] = [
+  { zone: 'head', center: new THREE.Vector3(0, 2.5, 0), size: new THREE.Vector3(0.5, 0.5, 0.5) },
+  { zone: 'torso', center: new THREE.Vector3(0, 1.5, 0), size: new THREE.Vector3(0.9, 1.2, 0.6) },
+  // Arms include the shoulder pads
+  ...mirrored('arm', new THREE.Vector3(0.7, 1.5, 0), new THREE.Vector3(0.4, 1.4, 0.4)),
+  ...mirrored('leg', new THREE.Vector3(0.3, 0.45, 0), new THREE.Vector3(0.36, 0.9, 0.36)),
+  // Power core on the back; sticks out past the torso so shots from behind find it first
+  { zone: 'weakPoint', center: new THREE.Vector3(0, 1.6, -0.42), size: new THREE.Vector3(0.4, 0.4, 0.25) }
+];
+
+const ENEMY_HITBOXES: Record<EnemyType, HitboxDefinition[]> = {
+  rifle: SOLDIER_HITBOXES,
+  smg: SOLDIER_HITBOXES,
+  heavy: SOLDIER_HITBOXES,
+  sniper: SOLDIER_HITBOXES,
+  grenadier: SOLDIER_HITBOXES,
+  shieldBearer: SHIELD_BEARER_HITBOXES,
+  drone: DRONE_HITBOXES,
+  boss: BOSS_HITBOXES
 };
 
 export class Enemy {
   private mesh: THREE.Group;
   private scene: THREE.Scene;
-  private health: number;
-  private maxHealth: number;
+  private health: Health;
   private speed: number;
   private damage: number;
+  private meleeDamage: number;
   private attackCooldown = 0;
   private attackRate: number;
   private dead = false;
   private type: EnemyType;
-  private walkCycle = 0;
+  private walkCycle: number;
+  private animator: CharacterAnimator;
   private isHit = false;
   private hitTimer = 0;
-  private deathTimer = 0;
+  private scheduler: Scheduler;
+  private hitFlashTimer: TimerHandle | null = null;
+  private flashColors = new Map<THREE.MeshStandardMaterial, number>();
+  private hitboxes: HitboxSet;
+  private config: EnemyConfig;
+  // Weapon state
+  private spin = 0;
+  private charge = 0;
+  private laser: THREE.Line | null = null;
+  private engaged = false;
+  private aimDirection = new THREE.Vector3(0, 0, 1);
   private isDying = false;
+  private buff: EnemyBuff | null = null;
+  private buffTimer: TimerHandle | null = null;
+  // Set while a boss performs a special attack: it holds still and only
+  // fires when the simulation tells it to, along aimOverride if set
+  private busy = false;
+  private aimOverride: THREE.Vector3 | null = null;
+  private speedMultiplier = 1;
   
   // Terrain and collision
   private getTerrainHeight: ((x: number, z: number) => number) | null = null;
-  private colliders: THREE.Box3[] = [];
+  private collision: CollisionManager | null = null;
+  private pathFollower: PathFollower | null = null;
+  private brain: EnemyBrain;
+  private random: Random;
 
-  constructor(scene: THREE.Scene, position: THREE.Vector3, type: EnemyType = 'rifle') {
+  constructor(
+    scene: THREE.Scene,
+    position: THREE.Vector3,
+    type: EnemyType,
+    random: Random,
+    scheduler: Scheduler,
+    scaling: EnemyScaling = { health: 1, damage: 1 }
+  ) {
     this.scene = scene;
+    this.scheduler = scheduler;
+    this.random = random;
     this.type = type;
+    // Desync walk animations so groups don't march in lockstep
+    this.walkCycle = random.range(0, Math.PI * 2);
     const config = ENEMY_CONFIGS[type];
-    this.health = config.health;
-    this.maxHealth = config.health;
+    this.config = config;
+    this.health = new Health(config.health * scaling.health, { resistances: config.resistances });
     this.speed = config.speed;
-    this.damage = config.damage;
+    this.damage = config.damage * scaling.damage;
+    this.meleeDamage = (config.meleeDamage ?? config.damage) * scaling.damage;
     this.attackRate = config.attackRate;
     this.mesh = this.createMesh(config);
     this.mesh.position.copy(position);
+    this.mesh.position.y += config.hoverHeight ?? 0;
     this.mesh.scale.setScalar(config.scale);
+    this.animator = new CharacterAnimator(this.mesh, { walkSpeed: 1.5, runSpeed: 5, phase: this.walkCycle / (Math.PI * 2) });
+    this.hitboxes = new HitboxSet(this.mesh, ENEMY_HITBOXES[type]);
+    this.brain = new EnemyBrain(config.tactics, position, random, null, null);
     scene.add(this.mesh);
+
+    if (config.windUp) {
+      this.laser = this.createLaser();
+      scene.add(this.laser);
+    }
   }
 
   private createMesh(config: EnemyConfig): THREE.Group {
@@ -61,6 +257,9 @@ export class Enemy {
     if (this.type === 'boss') {
       return this.createBossMesh(config);
     }
+    if (this.type === 'drone') {
+      return this.createDroneMesh(config);
+    }
     
     // GLOSSY candy-style materials - Fall Guys look!
     const bodyMaterial = new THREE.MeshStandardMaterial({ 
@@ -171,6 +370,7 @@ export class Enemy {
     weapon.position.set(0.5, 0.9, 0.3);
     weapon.name = 'weapon';
     group.add(weapon);
+    this.addGear(group);
 
     // Health bar with rounded look
     const healthBarBg = new THREE.Mesh(
@@ -193,6 +393,118 @@ export class Enemy {
     return group;
   }
   
+  // Kit that sets the archetypes apart from the basic soldier
+  private addGear(group: THREE.Group): void {
+    const darkMaterial = new THREE.MeshStandardMaterial({ color: 0x2F3E46, roughness: 0.8, metalness: 0 });
+
+    if (this.type === 'sniper') {
+      // Low-pulled beanie
+      const beanie = new THREE.Mesh(new THREE.SphereGeometry(0.47, 16, 8, 0, Math.PI * 2, 0, Math.PI / 2), darkMaterial);
+      beanie.position.y = 1.75;
+      group.add(beanie);
+    }
+
+    if (this.type === 'grenadier') {
+      // Bandolier of grenades across the chest
+      const grenadeMaterial = new THREE.MeshStandardMaterial({ color: 0x556B2F, roughness: 0.6, metalness: 0 });
+      for (let i = 0; i < 5; i++) {
+        const grenade = new THREE.Mesh(new THREE.SphereGeometry(0.07, 8, 8), grenadeMaterial);
+        grenade.position.set(-0.3 + i * 0.15, 1.15 - i * 0.1, 0.42);
+        group.add(grenade);
+      }
+    }
+
+    if (this.type === 'shieldBearer') {
+      // Riot shield with a viewing slit; its hitbox stops bullets
+      const shield = new THREE.Group();
+      const panel = new THREE.Mesh(
+        new THREE.BoxGeometry(1.1, 1.4, 0.06),
+        new THREE.MeshStandardMaterial({ color: 0x9FB8C8, roughness: 0.3, metalness: 0, transparent: true, opacity: 0.75 })
+      );
+      panel.castShadow = true;
+      shield.add(panel);
+      [0.7, -0.7].forEach(y => {
+        const rim = new THREE.Mesh(new THREE.BoxGeometry(1.15, 0.08, 0.08), darkMaterial);
+        rim.position.y = y;
+        shield.add(rim);
+      });
+      const slit = new THREE.Mesh(new THREE.BoxGeometry(0.5, 0.06, 0.07), darkMaterial);
+      slit.position.y = 0.45;
+      shield.add(slit);
+      shield.position.set(0, 0.95, 0.65);
+      shield.name = 'shield';
+      group.add(shield);
+    }
+  }
+
+  private createDroneMesh(config: EnemyConfig): THREE.Group {
+    const group = new THREE.Group();
+    const bodyMaterial = new THREE.MeshStandardMaterial({ color: config.color, roughness: 0.5, metalness: 0.2 });
+
+    // Flattened body
+    const body = new THREE.Mesh(new THREE.SphereGeometry(0.35, 16, 12), bodyMaterial);
+    body.scale.set(1, 0.45, 1);
+    body.castShadow = true;
+    body.name = 'torso';
+    group.add(body);
+
+    // Camera pod with a red eye
+    const pod = new THREE.Mesh(new THREE.SphereGeometry(0.12, 12, 12), bodyMaterial);
+    pod.position.set(0, -0.18, 0.25);
+    pod.name = 'head';
+    group.add(pod);
+    const eye = new THREE.Mesh(new THREE.SphereGeometry(0.05, 8, 8), new THREE.MeshBasicMaterial({ color: 0xff0000 }));
+    eye.position.set(0, -0.18, 0.36);
+    group.add(eye);
+
+    // Four arms, each with a rotor
+    const rotorMaterial = new THREE.MeshStandardMaterial({ color: 0xCCCCCC, roughness: 0.5, metalness: 0, transparent: true, opacity: 0.6 });
+    [[1, 1], [1, -1], [-1, 1], [-1, -1]].forEach(([x, z]) => {
+      const arm = new THREE.Mesh(new THREE.BoxGeometry(0.06, 0.04, 0.6), bodyMaterial);
+      arm.position.set(x * 0.22, 0.05, z * 0.22);
+      arm.rotation.y = Math.atan2(x, z);
+      group.add(arm);
+
+      const rotor = new THREE.Mesh(new THREE.CylinderGeometry(0.22, 0.22, 0.02, 16), rotorMaterial);
+      rotor.position.set(x * 0.45, 0.1, z * 0.45);
+      rotor.name = 'rotor';
+      group.add(rotor);
+    });
+
+    const weapon = this.createWeaponMesh();
+    weapon.position.set(0, -0.2, 0.05);
+    weapon.name = 'weapon';
+    group.add(weapon);
+
+    const healthBarBg = new THREE.Mesh(
+      new THREE.PlaneGeometry(0.8, 0.12),
+      new THREE.MeshBasicMaterial({ color: 0xE0E0E0 })
+    );
+    healthBarBg.position.y = 0.7;
+    healthBarBg.name = 'healthBarBg';
+    group.add(healthBarBg);
+
+    const healthBarFill = new THREE.Mesh(
+      new THREE.PlaneGeometry(0.75, 0.08),
+      new THREE.MeshBasicMaterial({ color: 0x90EE90 })
+    );
+    healthBarFill.position.y = 0.7;
+    healthBarFill.position.z = 0.01;
+    healthBarFill.name = 'healthBarFill';
+    group.add(healthBarFill);
+
+    return group;
+  }
+
+  // Sniper's aiming laser; lives in the scene, not the enemy's group, so it
+  // can be drawn in world space from the muzzle
+  private createLaser(): THREE.Line {
+    const geometry = new THREE.BufferGeometry().setFromPoints([new THREE.Vector3(), new THREE.Vector3()]);
+    const laser = new THREE.Line(geometry, new THREE.LineBasicMaterial({ color: 0xff0000, transparent: true, opacity: 0 }));
+    laser.visible = false;
+    return laser;
+  }
+
   private createBossMesh(config: EnemyConfig): THREE.Group {
     const group = new THREE.Group();
     const bodyMaterial = new THREE.MeshStandardMaterial({ 
@@ -239,6 +551,21 @@ export class Enemy {
       group.add(eyeLight);
     });
 
+    // Glowing power core on the back: the weak point
+    const core = new THREE.Mesh(
+      new THREE.BoxGeometry(0.36, 0.36, 0.2),
+      new THREE.MeshStandardMaterial({
+        color: 0x66ddff,
+        emissive: 0x33ccff,
+        emissiveIntensity: 1.2,
+        roughness: 0.4,
+        metalness: 0
+      })
+    );
+    core.position.set(0, 1.6, -0.4);
+    core.name = 'weakPoint';
+    group.add(core);
+
     // Shoulder pads
     [-0.6, 0.6].forEach(x => {
       const shoulder = new THREE.Mesh(
@@ -255,11 +582,13 @@ export class Enemy {
     const leftArm = new THREE.Mesh(armGeo, bodyMaterial);
     leftArm.position.set(-0.7, 1.3, 0);
     leftArm.castShadow = true;
+    leftArm.name = 'leftArm';
     group.add(leftArm);
 
     const rightArm = new THREE.Mesh(armGeo, bodyMaterial);
     rightArm.position.set(0.7, 1.3, 0);
     rightArm.castShadow = true;
+    rightArm.name = 'rightArm';
     group.add(rightArm);
 
     // Heavy legs
@@ -268,6 +597,7 @@ export class Enemy {
       const leg = new THREE.Mesh(legGeo, bodyMaterial);
       leg.position.set(x, 0.5, 0);
       leg.castShadow = true;
+      leg.name = x < 0 ? 'leftLeg' : 'rightLeg';
       group.add(leg);
     });
 
@@ -285,6 +615,7 @@ export class Enemy {
       barrel.position.y = Math.sin(angle) * 0.15;
       barrels.add(barrel);
     }
+    barrels.name = 'barrels';
     weapon.add(barrels);
     weapon.position.set(0.8, 1.3, 0.4);
     weapon.name = 'weapon';
@@ -316,9 +647,29 @@ export class Enemy {
     this.getTerrainHeight = fn;
   }
   
-  // Set colliders for obstacle avoidance
-  public setColliders(colliders: THREE.Box3[]): void {
-    this.colliders = colliders;
+  // Set world collision for obstacle avoidance
+  public setCollisionManager(collision: CollisionManager): void {
+    this.collision = collision;
+  }
+
+  // Route around buildings and water, and fight from the given cover
+  public setNavigation(nav: NavGrid, cover: CoverMap): void {
+    this.pathFollower = new PathFollower(nav);
+    this.brain.dispose();
+    this.brain = new EnemyBrain(this.config.tactics, this.mesh.position, this.random, nav, cover);
+  }
+
+  // Draws the enemy's attention to a position (e.g. where it was shot from)
+  public alert(position: THREE.Vector3): void {
+    this.brain.alert(position);
+  }
+
+  public getState(): EnemyState {
+    return this.brain.getState();
+  }
+
+  private isBlocked(box: THREE.Box3): boolean {
+    return this.collision !== null && this.collision.intersectsAny(box);
   }
 
   private createWeaponMesh(): THREE.Group {
@@ -328,6 +679,27 @@ export class Enemy {
       const barrel = new THREE.Mesh(new THREE.CylinderGeometry(0.08, 0.08, 0.8, 8), gunMaterial);
       barrel.rotation.x = Math.PI / 2;
       weapon.add(barrel);
+    } else if (this.type === 'sniper') {
+      // Long rifle with a scope
+      const body = new THREE.Mesh(new THREE.BoxGeometry(0.06, 0.1, 1), gunMaterial);
+      weapon.add(body);
+      const barrel = new THREE.Mesh(new THREE.CylinderGeometry(0.015, 0.015, 0.5, 6), gunMaterial);
+      barrel.rotation.x = Math.PI / 2;
+      barrel.position.z = 0.7;
+      weapon.add(barrel);
+      const scope = new THREE.Mesh(new THREE.CylinderGeometry(0.04, 0.04, 0.3, 8), gunMaterial);
+      scope.rotation.x = Math.PI / 2;
+      scope.position.y = 0.1;
+      weapon.add(scope);
+    } else if (this.type === 'grenadier') {
+      // Stubby launcher with a drum
+      const tube = new THREE.Mesh(new THREE.CylinderGeometry(0.09, 0.09, 0.6, 10), gunMaterial);
+      tube.rotation.x = Math.PI / 2;
+      weapon.add(tube);
+      const drum = new THREE.Mesh(new THREE.CylinderGeometry(0.14, 0.14, 0.15, 10), gunMaterial);
+      drum.rotation.x = Math.PI / 2;
+      drum.position.z = -0.15;
+      weapon.add(drum);
     } else {
       const body = new THREE.Mesh(new THREE.BoxGeometry(0.08, 0.12, 0.6), gunMaterial);
       weapon.add(body);
@@ -339,15 +711,12 @@ export class Enemy {
     return weapon;
   }
 
-  public update(delta: number, playerPosition: THREE.Vector3): void {
+  // awareness.canSeeTarget: whether this enemy has spotted the player (see Perception).
+  // Enemies keep advancing until they are in range and can see the player.
+  public update(delta: number, awareness: EnemyAwareness): void {
     if (this.dead) return;
 
-    if (this.isDying) {
-      this.deathTimer += delta;
-      this.mesh.rotation.x = Math.min(Math.PI / 2, this.deathTimer * 3);
-      this.mesh.position.y = Math.max(-0.5, 0 - this.deathTimer);
-      return;
-    }
+    if (this.isDying) return;
 
     if (this.attackCooldown > 0) this.attackCooldown -= delta;
     if (this.isHit) {
@@ -355,14 +724,30 @@ export class Enemy {
       if (this.hitTimer <= 0) this.isHit = false;
     }
 
-    const direction = new THREE.Vector3().subVectors(playerPosition, this.mesh.position);
-    direction.y = 0;
-    const distance = direction.length();
-    const attackRange = this.type === 'smg' ? 8 : this.type === 'heavy' ? 15 : 12;
+    const playerPosition = awareness.targetPosition;
+    const decision = this.brain.update(delta, {
+      ...awareness,
+      position: this.mesh.position,
+      healthFraction: this.health.getHealth() / this.health.getMaxHealth(),
+      attackRange: this.config.range
+    });
+
+    const toPlayer = Math.hypot(playerPosition.x - this.mesh.position.x, playerPosition.z - this.mesh.position.z);
+    // Busy bosses keep the minigun spinning while they have a sweep lined up
+    this.engaged = this.busy
+      ? this.aimOverride !== null
+      : decision.fire && toPlayer <= this.config.range * MAX_FIRE_RANGE_FACTOR;
+
+    const moveTo = this.busy ? null : decision.moveTo;
+    const direction = moveTo ? new THREE.Vector3(moveTo.x - this.mesh.position.x, 0, moveTo.z - this.mesh.position.z) : null;
 
-    if (distance > attackRange) {
+    if (this.isFlying()) {
+      this.fly(delta, direction, decision.speedMultiplier);
+    } else if (moveTo && direction && direction.length() > 0.5) {
       direction.normalize();
-      const moveSpeed = this.isHit ? this.speed * 0.3 : this.speed;
+      const pathDirection = this.pathFollower?.update(delta, this.mesh.position, moveTo);
+      if (pathDirection) direction.copy(pathDirection);
+      const moveSpeed = this.speed * this.speedMultiplier * decision.speedMultiplier * (this.buff?.speed ?? 1) * (this.isHit ? 0.3 : 1);
       
       // Calculate new position
       const newX = this.mesh.position.x + direction.x * moveSpeed * delta;
@@ -374,15 +759,7 @@ export class Enemy {
         new THREE.Vector3(1, 2, 1)
       );
       
-      let canMove = true;
-      for (const collider of this.colliders) {
-        if (testBox.intersectsBox(collider)) {
-          canMove = false;
-          break;
-        }
-      }
-      
-      if (canMove) {
+      if (!this.isBlocked(testBox)) {
         this.mesh.position.x = newX;
         this.mesh.position.z = newZ;
       } else {
@@ -394,15 +771,7 @@ export class Enemy {
           new THREE.Vector3(1, 2, 1)
         );
         
-        let canSlideX = true;
-        for (const collider of this.colliders) {
-          if (testBoxX.intersectsBox(collider)) {
-            canSlideX = false;
-            break;
-          }
-        }
-        
-        if (canSlideX) {
+        if (!this.isBlocked(testBoxX)) {
           this.mesh.position.x = slideX;
         } else {
           // Try Z slide
@@ -411,15 +780,7 @@ export class Enemy {
             new THREE.Vector3(1, 2, 1)
           );
           
-          let canSlideZ = true;
-          for (const collider of this.colliders) {
-            if (testBoxZ.intersectsBox(collider)) {
-              canSlideZ = false;
-              break;
-            }
-          }
-          
-          if (canSlideZ) {
+          if (!this.isBlocked(testBoxZ)) {
             this.mesh.position.z += direction.z * moveSpeed * delta;
           }
         }
@@ -430,12 +791,7 @@ export class Enemy {
         const groundHeight = this.getTerrainHeight(this.mesh.position.x, this.mesh.position.z);
         this.mesh.position.y = groundHeight;
       }
-      
-      this.walkCycle += delta * this.speed * 2;
-      this.animateWalk();
     } else {
-      this.resetPose();
-      
       // Still follow terrain when stationary
       if (this.getTerrainHeight) {
         const groundHeight = this.getTerrainHeight(this.mesh.position.x, this.mesh.position.z);
@@ -443,36 +799,104 @@ export class Enemy {
       }
     }
 
-    this.mesh.lookAt(playerPosition.x, this.mesh.position.y, playerPosition.z);
+    // Face along an overridden aim, the player while they're in sight,
+    // otherwise the way we're going
+    const facing = this.aimOverride
+      ? this.mesh.position.clone().add(this.aimOverride)
+      : awareness.canSeeTarget ? playerPosition : moveTo;
+    if (facing) this.mesh.lookAt(facing.x, this.mesh.position.y, facing.z);
+    this.updateWeapon(delta, playerPosition);
+    this.animator.update(delta);
     this.updateHealthBar();
   }
 
-  private animateWalk(): void {
-    const leftLeg = this.mesh.getObjectByName('leftLeg') as THREE.Mesh;
-    const rightLeg = this.mesh.getObjectByName('rightLeg') as THREE.Mesh;
-    const leftArm = this.mesh.getObjectByName('leftArm') as THREE.Mesh;
-    const rightArm = this.mesh.getObjectByName('rightArm') as THREE.Mesh;
-    if (leftLeg && rightLeg) {
-      leftLeg.rotation.x = Math.sin(this.walkCycle) * 0.5;
-      rightLeg.rotation.x = Math.sin(this.walkCycle + Math.PI) * 0.5;
+  // Drones head straight for their destination at cruising height, climbing
+  // over anything in the way and settling back down once clear
+  private fly(delta: number, direction: THREE.Vector3 | null, speedMultiplier: number): void {
+    const position = this.mesh.position;
+    const step = new THREE.Vector3();
+    if (direction && direction.length() > 0.5) {
+      const moveSpeed = this.speed * this.speedMultiplier * speedMultiplier * (this.buff?.speed ?? 1) * (this.isHit ? 0.3 : 1);
+      step.copy(direction).normalize().multiplyScalar(moveSpeed * delta);
     }
-    if (leftArm && rightArm) {
-      leftArm.rotation.x = Math.sin(this.walkCycle + Math.PI) * 0.3;
-      rightArm.rotation.x = Math.sin(this.walkCycle) * 0.3;
+
+    const size = new THREE.Vector3(1, 1, 1);
+    const ahead = new THREE.Box3().setFromCenterAndSize(position.clone().add(step), size);
+    if (this.isBlocked(ahead)) {
+      position.y += CLIMB_RATE * delta;
+    } else {
+      position.add(step);
+      const ground = this.getTerrainHeight?.(position.x, position.z) ?? 0;
+      const cruise = ground + (this.config.hoverHeight ?? 0) + Math.sin(this.walkCycle) * 0.3;
+      const climb = THREE.MathUtils.clamp(cruise - position.y, -CLIMB_RATE * delta, CLIMB_RATE * delta);
+      const below = new THREE.Box3().setFromCenterAndSize(position.clone().setY(position.y + climb), size);
+      if (!this.isBlocked(below)) position.y += climb;
     }
-  }
 
-  private resetPose(): void {
-    ['leftLeg', 'rightLeg', 'leftArm', 'rightArm'].forEach(name => {
-      const part = this.mesh.getObjectByName(name) as THREE.Mesh;
-      if (part) part.rotation.x *= 0.9;
+    this.walkCycle += delta * 2;
+    this.mesh.children.forEach(child => {
+      if (child.name === 'rotor') child.rotation.y += 40 * delta;
     });
   }
 
+  private updateWeapon(delta: number, playerPosition: THREE.Vector3): void {
+    // Minigun spins up while engaged and winds down otherwise
+    const spinUp = this.config.spinUp ?? 0;
+    if (spinUp > 0) {
+      this.spin = this.engaged ? Math.min(spinUp, this.spin + delta) : Math.max(0, this.spin - delta);
+      const barrels = this.mesh.getObjectByName('barrels');
+      if (barrels) barrels.rotation.z += (this.spin / spinUp) * 30 * delta;
+    }
+
+    // Snipers charge each shot while lined up; losing the target starts over
+    const windUp = this.config.windUp ?? 0;
+    if (windUp > 0) {
+      this.charge = this.engaged ? Math.min(windUp, this.charge + delta) : 0;
+    }
+
+    if (this.aimOverride) {
+      this.aimDirection.copy(this.aimOverride);
+    } else {
+      // Aim at the chest; turn-rate limited weapons sweep across onto the target
+      const desired = playerPosition.clone().sub(new THREE.Vector3(0, 0.4, 0))
+        .sub(this.getMuzzlePosition())
+        .normalize();
+      const turnRate = this.config.aimTurnRate;
+      if (turnRate === undefined) {
+        this.aimDirection.copy(desired);
+      } else {
+        const angle = this.aimDirection.angleTo(desired);
+        const t = angle > 0 ? Math.min(1, (turnRate * delta) / angle) : 1;
+        this.aimDirection.lerp(desired, t).normalize();
+      }
+    }
+
+    this.updateLaser();
+  }
+
+  // The laser shows while the sniper lines up a shot and brightens as it charges
+  private updateLaser(): void {
+    if (!this.laser) return;
+
+    this.laser.visible = this.engaged && !this.isDying;
+    if (!this.laser.visible) return;
+
+    const start = this.getMuzzlePosition();
+    let end = start.clone().addScaledVector(this.aimDirection, this.config.range * MAX_FIRE_RANGE_FACTOR);
+    const wall = this.collision?.castSegment(start, end);
+    if (wall) end = wall.point;
+
+    const positions = this.laser.geometry.attributes.position as THREE.BufferAttribute;
+    positions.setXYZ(0, start.x, start.y, start.z);
+    positions.setXYZ(1, end.x, end.y, end.z);
+    positions.needsUpdate = true;
+    (this.laser.material as THREE.LineBasicMaterial).opacity = 0.2 + 0.8 * (this.charge / (this.config.windUp ?? 1));
+  }
+
   private updateHealthBar(): void {
     const healthBarFill = this.mesh.getObjectByName('healthBarFill') as THREE.Mesh;
     if (healthBarFill) {
-      const healthPercent = this.health / this.maxHealth;
+      const healthPercent = this.health.getHealth() / this.health.getMaxHealth();
       healthBarFill.scale.x = Math.max(0.01, healthPercent);
       healthBarFill.position.x = -(1 - healthPercent) * 0.4;
       const material = healthBarFill.material as THREE.MeshBasicMaterial;
@@ -482,65 +906,205 @@ export class Enemy {
     }
   }
 
-  public takeDamage(amount: number, isHeadshot: boolean = false): void {
-    const finalDamage = isHeadshot ? amount * 2 : amount;
-    this.health -= finalDamage;
+  // Hit reaction; the damage itself is applied to the health component
+  public handleDamage(result: DamageResult): void {
     this.isHit = true;
     this.hitTimer = 0.2;
-    this.mesh.traverse((child) => {
-      if (child instanceof THREE.Mesh && !child.name.includes('healthBar')) {
-        const mat = child.material as THREE.MeshStandardMaterial;
-        if (mat.color) {
-          const original = mat.color.getHex();
-          mat.color.setHex(0xffffff);
-          setTimeout(() => mat.color.setHex(original), 80);
+    this.flashHit();
+    this.animator.play('hitReact');
+    if (result.killed) this.isDying = true;
+  }
+
+  private flashHit(): void {
+    // Only record original colors when not already flashing, otherwise a quick
+    // second hit would capture white as the original
+    if (!this.scheduler.cancel(this.hitFlashTimer)) {
+      this.mesh.traverse((child) => {
+        if (child instanceof THREE.Mesh && !child.name.includes('healthBar')) {
+          const mat = child.material as THREE.MeshStandardMaterial;
+          if (mat.color) {
+            this.flashColors.set(mat, mat.color.getHex());
+            mat.color.setHex(0xffffff);
+          }
         }
-      }
-    });
-    if (this.health <= 0) this.isDying = true;
+      });
+    }
+
+    this.hitFlashTimer = this.scheduler.after(0.08, () => {
+      this.flashColors.forEach((original, mat) => mat.color.setHex(original));
+      this.flashColors.clear();
+      this.hitFlashTimer = null;
+    }, 'enemy-hit-flash');
   }
 
   public canAttack(): boolean {
-    return this.attackCooldown <= 0 && !this.dead && !this.isDying && !this.isHit;
+    return this.attackCooldown <= 0 && !this.dead && !this.isDying && !this.isHit && !this.busy;
+  }
+
+  // Ready to take a ranged shot: in range of a visible target and spun up
+  public canFire(): boolean {
+    const spunUp = this.spin >= (this.config.spinUp ?? 0);
+    const charged = this.charge >= (this.config.windUp ?? 0);
+    return this.canAttack() && this.engaged && spunUp && charged;
   }
 
   public attack(): void {
-    this.attackCooldown = 1 / this.attackRate;
+    this.charge = 0;
+    this.animator.play('shoot');
+    this.attackCooldown = 1 / (this.attackRate * (this.buff?.fireRate ?? 1));
   }
 
   public getDamage(): number {
-    return this.damage;
+    return this.damage * (this.buff?.damage ?? 1);
+  }
+
+  // Replaces any active buff; it wears off after duration seconds
+  public applyBuff(buff: EnemyBuff, duration: number): void {
+    this.buff = buff;
+    this.scheduler.cancel(this.buffTimer);
+    this.buffTimer = this.scheduler.after(duration, () => {
+      this.buff = null;
+      this.buffTimer = null;
+    }, 'enemy-buff');
+  }
+
+  // Stops movement and normal attacks (boss special attacks)
+  public setBusy(busy: boolean): void {
+    this.busy = busy;
+  }
+
+  // Points the weapon along a fixed direction instead of at the target; null to release
+  public setAimOverride(direction: THREE.Vector3 | null): void {
+    this.aimOverride = direction ? direction.clone().normalize() : null;
+  }
+
+  // Multiplies move speed on top of buffs (boss phases)
+  public setSpeedMultiplier(multiplier: number): void {
+    this.speedMultiplier = multiplier;
+  }
+
+  public isBuffed(): boolean {
+    return this.buff !== null;
+  }
+
+  public getSquadRole(): SquadRole | null {
+    return this.config.squadRole ?? null;
+  }
+
+  public getMeleeDamage(): number {
+    return this.meleeDamage * (this.buff?.damage ?? 1);
+  }
+
+  public getAttackMode(): EnemyAttackMode {
+    return this.config.attackMode ?? 'hitscan';
+  }
+
+  public isFlying(): boolean {
+    return this.config.hoverHeight !== undefined;
+  }
+
+  public getWeaponName(): string {
+    return this.config.weapon;
+  }
+
+  public getWeaponDrop(): WeaponId | null {
+    return this.config.drop ?? null;
+  }
+
+  public getSenses(): SenseProfile {
+    return this.config.senses;
+  }
+
+  // Horizontal facing direction
+  public getForward(): THREE.Vector3 {
+    const forward = new THREE.Vector3(0, 0, 1).applyQuaternion(this.mesh.quaternion);
+    forward.y = 0;
+    return forward.normalize();
+  }
+
+  public getAttackRange(): number {
+    return this.config.range;
+  }
+
+  public getAimDirection(): THREE.Vector3 {
+    return this.aimDirection.clone();
+  }
+
+  // Aim error in radians, worse at long range
+  public getSpread(distance: number): number {
+    return this.config.spread * (1 + distance / SPREAD_FALLOFF_DISTANCE);
+  }
+
+  public getMuzzlePosition(): THREE.Vector3 {
+    const weapon = this.mesh.getObjectByName('weapon');
+    if (!weapon) return this.getEyePosition();
+    weapon.updateWorldMatrix(true, false);
+    return weapon.localToWorld(new THREE.Vector3(0, 0, 0.6));
+  }
+
+  // Where line-of-sight checks start from
+  public getEyePosition(): THREE.Vector3 {
+    // A drone's camera pod hangs just under its body
+    const eyeHeight = this.isFlying() ? -0.2 : 1.6;
+    return this.mesh.position.clone().add(new THREE.Vector3(0, eyeHeight * this.mesh.scale.y, 0));
   }
 
   public getType(): EnemyType {
     return this.type;
   }
 
-  public getHeadPosition(): THREE.Vector3 {
-    const head = this.mesh.getObjectByName('head') as THREE.Mesh;
-    if (head) {
-      const worldPos = new THREE.Vector3();
-      head.getWorldPosition(worldPos);
-      return worldPos;
-    }
-    return this.mesh.position.clone().add(new THREE.Vector3(0, 1.85, 0));
+  public getHealth(): number {
+    return this.health.getHealth();
+  }
+
+  public getHealthComponent(): Health {
+    return this.health;
   }
 
   public isDead(): boolean {
-    return this.health <= 0;
+    return this.health.isDead();
   }
 
   public getPosition(): THREE.Vector3 {
     return this.mesh.position.clone();
   }
 
+  public getMesh(): THREE.Object3D {
+    return this.mesh;
+  }
+
+  // Body volume only, so the health bar doesn't catch bullets
   public getBoundingBox(): THREE.Box3 {
-    return new THREE.Box3().setFromObject(this.mesh);
+    return this.hitboxes.getBounds();
+  }
+
+  public getHitboxes(): Hitbox[] {
+    return this.hitboxes.getHitboxes();
+  }
+
+  // Hands the body over to a ragdoll for the death reaction. The parts it
+  // takes are no longer this enemy's to dispose; call before destroy().
+  public createRagdoll(getHeight: (x: number, z: number) => number): Ragdoll {
+    if (this.scheduler.cancel(this.hitFlashTimer)) {
+      this.flashColors.forEach((original, mat) => mat.color.setHex(original));
+      this.flashColors.clear();
+      this.hitFlashTimer = null;
+    }
+    if (this.laser) this.laser.visible = false;
+    return new Ragdoll(this.scene, this.mesh, getHeight);
   }
 
   public destroy(): void {
     this.dead = true;
+    this.brain.dispose();
+    this.scheduler.cancel(this.hitFlashTimer);
+    this.scheduler.cancel(this.buffTimer);
     this.scene.remove(this.mesh);
+    if (this.laser) {
+      this.scene.remove(this.laser);
+      this.laser.geometry.dispose();
+      (this.laser.material as THREE.Material).dispose();
+    }
     
     // Cleanup geometry and materials
     this.mesh.traverse((child) => {
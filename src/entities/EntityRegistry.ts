@@ -0,0 +1,154 @@
+import * as THREE from 'three';
+import { DamageInfo, DamageResult, Health } from './Health';
+import { Hitbox } from './Hitboxes';
+
+export type EntityId = number;
+
+// Open-ended so new kinds need no changes here. Built-in kinds: 'player',
+// 'enemy', 'projectile', 'powerUp', 'vehicle', 'helicopter', 'remotePlayer',
+// 'corpse', 'weaponPickup'
+export type EntityKind = string;
+
+export type Team = 'player' | 'enemy' | 'neutral';
+
+export interface ColliderComponent {
+  getBoundingBox(): THREE.Box3;
+  // Per-body-part volumes; when present, hits are resolved against these
+  // instead of the bounding box and carry the zone that was hit
+  getHitboxes?(): Hitbox[];
+}
+
+export type ComponentName = 'health' | 'collider' | 'team' | 'networkId';
+
+export interface EntityDefinition<T> {
+  kind: EntityKind;
+  // The game object this entity wraps (Enemy, Projectile, Vehicle, ...)
+  owner: T;
+  // Root transform; used for position queries and render interpolation
+  object: THREE.Object3D;
+  team?: Team;
+  networkId?: string;
+  health?: Health;
+  collider?: ColliderComponent;
+
+  // Lifecycle hooks
+  update?: (delta: number) => void;
+  // Called after the health component has applied the damage
+  onDamage?: (info: DamageInfo, result: DamageResult) => void;
+  onDestroy?: () => void;
+  // Checked after each update; expired entities are destroyed
+  isExpired?: () => boolean;
+}
+
+export interface Entity<T = unknown> extends EntityDefinition<T> {
+  readonly id: EntityId;
+  alive: boolean;
+}
+
+export interface EntityQuery {
+  kind?: EntityKind;
+  team?: Team;
+  // Excludes entities on this team (e.g. targets hostile to a projectile)
+  notTeam?: Team;
+  with?: ComponentName[];
+}
+
+export type EntityCallback = (entity: Entity) => void;
+export type EntityDamageCallback = (entity: Entity, info: DamageInfo, result: DamageResult) => void;
+
+// Central list of everything that lives in a match. Systems register entities
+// with lifecycle hooks and components instead of keeping their own arrays, so
+// adding a new kind of entity doesn't require touching the game loop.
+// Iteration follows spawn order, which keeps stepping deterministic.
+export class EntityRegistry {
+  private entities = new Map<EntityId, Entity>();
+  private nextId = 1;
+  private spawnListeners: EntityCallback[] = [];
+  private destroyListeners: EntityCallback[] = [];
+  private damageListeners: EntityDamageCallback[] = [];
+
+  public spawn<T>(definition: EntityDefinition<T>): Entity<T> {
+    const entity: Entity<T> = { ...definition, id: this.nextId++, alive: true };
+    this.entities.set(entity.id, entity);
+    this.spawnListeners.forEach(listener => listener(entity));
+    return entity;
+  }
+
+  public destroy(entity: Entity): void {
+    if (!entity.alive) return;
+
+    entity.alive = false;
+    this.entities.delete(entity.id);
+    entity.onDestroy?.();
+    this.destroyListeners.forEach(listener => listener(entity));
+  }
+
+  public update(delta: number): void {
+    // Snapshot: hooks may spawn or destroy entities mid-update
+    Array.from(this.entities.values()).forEach(entity => {
+      if (!entity.alive) return;
+      entity.update?.(delta);
+      if (entity.alive && entity.isExpired?.()) {
+        this.destroy(entity);
+      }
+    });
+  }
+
+  // The single path for all damage: applies it to the entity's health
+  // component, then lets the entity and listeners react
+  public damage(entity: Entity, info: DamageInfo): DamageResult | null {
+    if (!entity.alive || !entity.health) return null;
+
+    const result = entity.health.applyDamage(info);
+    entity.onDamage?.(info, result);
+    this.damageListeners.forEach(listener => listener(entity, info, result));
+    return result;
+  }
+
+  // With a kind, only an entity of that kind, typed by its owner like query()
+  public get<T = unknown>(id: EntityId, kind?: EntityKind): Entity<T> | undefined {
+    const entity = this.entities.get(id);
+    if (!entity || (kind !== undefined && entity.kind !== kind)) return undefined;
+    return entity as Entity<T>;
+  }
+
+  public getByNetworkId<T = unknown>(networkId: string): Entity<T> | undefined {
+    for (const entity of this.entities.values()) {
+      if (entity.networkId === networkId) return entity as Entity<T>;
+    }
+    return undefined;
+  }
+
+  public query<T = unknown>(filter: EntityQuery = {}): Entity<T>[] {
+    const result: Entity<T>[] = [];
+    this.entities.forEach(entity => {
+      if (filter.kind !== undefined && entity.kind !== filter.kind) return;
+      if (filter.team !== undefined && entity.team !== filter.team) return;
+      if (filter.notTeam !== undefined && entity.team === filter.notTeam) return;
+      if (filter.with && !filter.with.every(component => entity[component] !== undefined)) return;
+      result.push(entity as Entity<T>);
+    });
+    return result;
+  }
+
+  // Underlying game objects of one kind, e.g. owners<Enemy>('enemy')
+  public owners<T>(kind: EntityKind): T[] {
+    return this.query<T>({ kind }).map(entity => entity.owner);
+  }
+
+  public count(filter: EntityQuery = {}): number {
+    return this.query(filter).length;
+  }
+
+  public onSpawn(callback: EntityCallback): void {
+    this.spawnListeners.push(callback);
+  }
+
+  public onDestroy(callback: EntityCallback): void {
+    this.destroyListeners.push(callback);
+  }
+
+  public onDamage(callback: EntityDamageCallback): void {
+    this.damageListeners.push(callback);
+  }
+}
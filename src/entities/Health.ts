@@ -0,0 +1,127 @@
+import * as THREE from 'three';
+import { Entity } from './EntityRegistry';
+
+export type DamageType = 'bullet' | 'explosion' | 'melee' | 'fall' | 'vehicle';
+
+// weakPoint is an exposed critical spot on bosses
+export type HitZone = 'head' | 'torso' | 'arm' | 'leg' | 'weakPoint';
+
+export interface DamageInfo {
+  // Base damage before hit-zone multiplier, resistances and armor
+  amount: number;
+  type: DamageType;
+  // Who dealt it, for kill credit. Missing for world damage (falls)
+  attacker?: Entity;
+  weapon?: string;
+  hitZone?: HitZone;
+  // Weapon-specific multiplier for hitZone; defaults to HIT_ZONE_MULTIPLIERS
+  hitZoneMultiplier?: number;
+  // Impact point, or where the damage came from for area damage
+  position?: THREE.Vector3;
+  // Set for damage reported by the remote player in multiplayer
+  remote?: boolean;
+}
+
+export interface DamageResult {
+  healthDamage: number;
+  armorDamage: number;
+  killed: boolean;
+}
+
+// Fraction of each damage type that is ignored (0 = none, 1 = immune)
+export type Resistances = Partial<Record<DamageType, number>>;
+
+export interface HealthOptions {
+  armor?: number;
+  maxArmor?: number;
+  resistances?: Resistances;
+}
+
+export const HIT_ZONE_MULTIPLIERS: Record<HitZone, number> = {
+  head: 2,
+  torso: 1,
+  arm: 0.75,
+  leg: 0.7,
+  weakPoint: 3
+};
+
+// Share of incoming damage armor soaks up while it lasts
+const ARMOR_ABSORPTION = 0.6;
+
+// Health, armor and resistances shared by everything that can be damaged.
+// Damage is applied in order: hit zone multiplier, resistance, then armor.
+export class Health {
+  private health: number;
+  private maxHealth: number;
+  private armor: number;
+  private maxArmor: number;
+  private resistances: Resistances;
+
+  constructor(maxHealth: number, options: HealthOptions = {}) {
+    this.maxHealth = maxHealth;
+    this.health = maxHealth;
+    this.maxArmor = options.maxArmor ?? 0;
+    this.armor = Math.min(options.armor ?? 0, this.maxArmor);
+    this.resistances = options.resistances ?? {};
+  }
+
+  public applyDamage(info: DamageInfo): DamageResult {
+    if (this.isDead()) {
+      return { healthDamage: 0, armorDamage: 0, killed: false };
+    }
+
+    const zoneMultiplier = info.hitZone
+      ? info.hitZoneMultiplier ?? HIT_ZONE_MULTIPLIERS[info.hitZone]
+      : 1;
+    const resistance = Math.min(1, Math.max(0, this.resistances[info.type] ?? 0));
+    let damage = info.amount * zoneMultiplier * (1 - resistance);
+
+    const armorDamage = Math.min(this.armor, damage * ARMOR_ABSORPTION);
+    this.armor -= armorDamage;
+    damage -= armorDamage;
+
+    const healthDamage = Math.min(this.health, damage);
+    this.health -= healthDamage;
+
+    return { healthDamage, armorDamage, killed: this.health <= 0 };
+  }
+
+  public heal(amount: number): void {
+    if (this.isDead()) return;
+    this.health = Math.min(this.maxHealth, this.health + amount);
+  }
+
+  public addArmor(amount: number): void {
+    this.armor = Math.min(this.maxArmor, this.armor + amount);
+  }
+
+  // Authoritative value from elsewhere (e.g. the remote player's own state)
+  public setHealth(health: number): void {
+    this.health = Math.max(0, Math.min(this.maxHealth, health));
+  }
+
+  public reset(): void {
+    this.health = this.maxHealth;
+    this.armor = 0;
+  }
+
+  public getHealth(): number {
+    return this.health;
+  }
+
+  public getMaxHealth(): number {
+    return this.maxHealth;
+  }
+
+  public getArmor(): number {
+    return this.armor;
+  }
+
+  public getMaxArmor(): number {
+    return this.maxArmor;
+  }
+
+  public isDead(): boolean {
+    return this.health <= 0;
+  }
+}
@@ -0,0 +1,59 @@
+import * as THREE from 'three';
+import { HitZone } from './Health';
+
+// shield boxes stop bullets without hurting whoever carries them
+export type HitboxZone = HitZone | 'shield';
+
+export interface HitboxDefinition {
+  zone: HitboxZone;
+  // Local to the model root, before its scale and rotation
+  center: THREE.Vector3;
+  size: THREE.Vector3;
+}
+
+export interface Hitbox {
+  zone: HitboxZone;
+  // World axis-aligned bounds of the turned box; looser than the box itself,
+  // so only good for broadphase
+  box: THREE.Box3;
+  // The box in the model's space, and the model transform that places it.
+  // Hit tests move the segment into model space and test this.
+  localBox: THREE.Box3;
+  matrix: THREE.Matrix4;
+}
+
+// Named damage volumes attached to a model's root object. World boxes are
+// rebuilt from the root's transform on each query, so they follow movement
+// and scale without needing the scene graph's matrices to be up to date.
+export class HitboxSet {
+  private root: THREE.Object3D;
+  private definitions: HitboxDefinition[];
+
+  constructor(root: THREE.Object3D, definitions: HitboxDefinition[]) {
+    this.root = root;
+    this.definitions = definitions;
+  }
+
+  public getHitboxes(): Hitbox[] {
+    const matrix = new THREE.Matrix4().compose(this.root.position, this.root.quaternion, this.root.scale);
+    return this.definitions.map(definition => {
+      const localBox = new THREE.Box3().setFromCenterAndSize(definition.center, definition.size);
+      return { zone: definition.zone, box: localBox.clone().applyMatrix4(matrix), localBox, matrix };
+    });
+  }
+
+  // Union of all hitboxes; excludes health bars, name tags and weapons
+  public getBounds(): THREE.Box3 {
+    const bounds = new THREE.Box3();
+    this.getHitboxes().forEach(hitbox => bounds.union(hitbox.box));
+    return bounds;
+  }
+}
+
+// Helper for the left/right pairs most bodies have
+export function mirrored(zone: HitZone, center: THREE.Vector3, size: THREE.Vector3): HitboxDefinition[] {
+  return [
+    { zone, center: center.clone(), size },
+    { zone, center: new THREE.Vector3(-center.x, center.y, center.z), size }
+  ];
+}
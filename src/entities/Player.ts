@@ -1,13 +1,18 @@
 import * as THREE from 'three';
 import { InputManager } from '../utils/InputManager';
 import { CollisionManager } from '../utils/CollisionManager';
+import { Scheduler, TimerHandle } from '../game/Scheduler';
+import { Health } from './Health';
 
 export class Player {
   private camera: THREE.PerspectiveCamera;
+  private scheduler: Scheduler;
   private velocity: THREE.Vector3 = new THREE.Vector3();
   private direction: THREE.Vector3 = new THREE.Vector3();
-  private health = 100;
+  private health = new Health(100, { maxArmor: 50 });
   private baseSpeed = 10;
+  private unboostedSpeed = 10;
+  private speedBoostTimer: TimerHandle | null = null;
   private moveSpeed = 10;
   private sprintMultiplier = 1.8;
   private crouchMultiplier = 0.5;
@@ -16,6 +21,8 @@ export class Player {
   private isGrounded = true;
   private euler: THREE.Euler = new THREE.Euler(0, 0, 0, 'YXZ');
   private mouseSensitivity = 0.002;
+  // Weapon recoil the view hasn't recovered from yet, radians: x up, y right
+  private recoilOffset = new THREE.Vector2();
   private standingHeight = 1.7;
   private crouchHeight = 1.0;
   private playerHeight = 1.7;
@@ -29,36 +36,47 @@ export class Player {
   // Terrain height function (set by Game)
   private getTerrainHeight: ((x: number, z: number) => number) | null = null;
 
-  constructor(camera: THREE.PerspectiveCamera) {
+  constructor(camera: THREE.PerspectiveCamera, scheduler: Scheduler) {
     this.camera = camera;
+    this.scheduler = scheduler;
     this.camera.position.set(0, this.playerHeight, 0);
-
-    // Setup mouse look
-    document.addEventListener('mousemove', (e) => this.onMouseMove(e));
   }
 
   public setTerrainHeightFunction(fn: (x: number, z: number) => number): void {
     this.getTerrainHeight = fn;
   }
 
-  private onMouseMove(event: MouseEvent): void {
+  // Mouse look - wired up by Game so the player stays usable without a DOM
+  public handleMouseMove(event: MouseEvent): void {
     if (document.pointerLockElement !== document.body) return;
 
-    this.euler.setFromQuaternion(this.camera.quaternion);
-    this.euler.y -= event.movementX * this.mouseSensitivity;
-    this.euler.x -= event.movementY * this.mouseSensitivity;
-
-    // Clamp vertical look
-    this.euler.x = Math.max(-Math.PI / 2, Math.min(Math.PI / 2, this.euler.x));
-
-    this.camera.quaternion.setFromEuler(this.euler);
+    this.look(-event.movementY * this.mouseSensitivity, event.movementX * this.mouseSensitivity);
   }
   
   // Mobile touch look
   public applyMobileLook(deltaX: number, deltaY: number): void {
+    this.look(-deltaY * this.mouseSensitivity * 5, deltaX * this.mouseSensitivity * 5);
+  }
+
+  // Player-controlled look; pulling against recoil counts towards recovering it
+  private look(up: number, right: number): void {
+    this.recoilOffset.x = this.compensate(this.recoilOffset.x, up);
+    this.recoilOffset.y = this.compensate(this.recoilOffset.y, right);
+    this.turn(up, right);
+  }
+
+  // offset moved towards zero by a turn against it, without overshooting
+  private compensate(offset: number, turn: number): number {
+    if (offset > 0 && turn < 0) return Math.max(0, offset + turn);
+    if (offset < 0 && turn > 0) return Math.min(0, offset + turn);
+    return offset;
+  }
+
+  // Radians
+  private turn(up: number, right: number): void {
     this.euler.setFromQuaternion(this.camera.quaternion);
-    this.euler.y -= deltaX * this.mouseSensitivity * 5;
-    this.euler.x -= deltaY * this.mouseSensitivity * 5;
+    this.euler.x += up;
+    this.euler.y -= right;
 
     // Clamp vertical look
     this.euler.x = Math.max(-Math.PI / 2, Math.min(Math.PI / 2, this.euler.x));
@@ -66,9 +84,25 @@ export class Player {
     this.camera.quaternion.setFromEuler(this.euler);
   }
 
+  // Weapon kick, in radians
+  public addRecoil(up: number, right: number): void {
+    this.turn(up, right);
+    this.recoilOffset.x += up;
+    this.recoilOffset.y += right;
+  }
+
+  // Turns back towards the view before the recoil by at most amount radians
+  public recoverRecoil(amount: number): void {
+    const remaining = this.recoilOffset.length();
+    if (remaining === 0) return;
+    const step = Math.min(1, amount / remaining);
+    this.turn(-this.recoilOffset.x * step, -this.recoilOffset.y * step);
+    this.recoilOffset.multiplyScalar(1 - step);
+  }
+
   public update(
     delta: number, 
-    input: InputManager, 
+    input: Pick<InputManager, 'keys'>, 
     collision: CollisionManager
   ): void {
     // Get movement direction
@@ -187,6 +221,19 @@ export class Player {
     this.camera.position.copy(pos);
   }
 
+  // Feet to just above the eyes; shrinks when crouching
+  public getBoundingBox(): THREE.Box3 {
+    const eye = this.camera.position;
+    return new THREE.Box3(
+      new THREE.Vector3(eye.x - 0.4, eye.y - this.playerHeight, eye.z - 0.4),
+      new THREE.Vector3(eye.x + 0.4, eye.y + 0.2, eye.z + 0.4)
+    );
+  }
+
+  public getCamera(): THREE.PerspectiveCamera {
+    return this.camera;
+  }
+
   public getPosition(): THREE.Vector3 {
     return this.camera.position.clone();
   }
@@ -197,48 +244,43 @@ export class Player {
     return dir;
   }
 
-  public takeDamage(amount: number): void {
-    this.health = Math.max(0, this.health - amount);
-    
-    // Flash screen red
-    const overlay = document.createElement('div');
-    overlay.style.cssText = `
-      position: fixed;
-      top: 0;
-      left: 0;
-      width: 100%;
-      height: 100%;
-      background: rgba(255, 0, 0, 0.3);
-      pointer-events: none;
-      z-index: 99;
-    `;
-    document.body.appendChild(overlay);
-    setTimeout(() => overlay.remove(), 100);
-
-    if (this.health <= 0) {
-      this.onDeath();
-    }
-  }
-
   public heal(amount: number): void {
-    this.health = Math.min(100, this.health + amount);
+    this.health.heal(amount);
   }
   
   public addShield(amount: number): void {
-    // Add shield as extra health
-    this.health = Math.min(150, this.health + amount);
+    this.health.addArmor(amount);
+  }
+
+  // Full health, no armor (multiplayer respawn)
+  public resetHealth(): void {
+    this.health.reset();
   }
   
   public applySpeedBoost(duration: number): void {
-    const originalBaseSpeed = this.baseSpeed;
-    this.baseSpeed = originalBaseSpeed * 1.5;
+    // A new pickup refreshes the duration instead of stacking
+    if (this.scheduler.cancel(this.speedBoostTimer)) {
+      this.baseSpeed = this.unboostedSpeed;
+    }
+
+    this.unboostedSpeed = this.baseSpeed;
+    this.baseSpeed = this.unboostedSpeed * 1.5;
     
-    setTimeout(() => {
-      this.baseSpeed = originalBaseSpeed;
-    }, duration * 1000);
+    this.speedBoostTimer = this.scheduler.after(duration, () => {
+      this.baseSpeed = this.unboostedSpeed;
+      this.speedBoostTimer = null;
+    }, 'speed-boost');
   }
 
   public getHealth(): number {
+    return this.health.getHealth();
+  }
+
+  public getArmor(): number {
+    return this.health.getArmor();
+  }
+
+  public getHealthComponent(): Health {
     return this.health;
   }
 
@@ -257,38 +299,4 @@ export class Player {
   public isSprintingState(): boolean {
     return this.isSprinting;
   }
-
-  private onDeath(): void {
-    // Game over logic
-    document.exitPointerLock();
-    const gameOver = document.createElement('div');
-    gameOver.innerHTML = `
-      <div style="
-        position: fixed;
-        top: 0;
-        left: 0;
-        width: 100%;
-        height: 100%;
-        background: rgba(0, 0, 0, 0.9);
-        display: flex;
-        flex-direction: column;
-        justify-content: center;
-        align-items: center;
-        z-index: 1000;
-        color: #fff;
-        font-family: Arial, sans-serif;
-      ">
-        <h1 style="font-size: 64px; color: #ff4444; margin-bottom: 20px;">GAME OVER</h1>
-        <button onclick="location.reload()" style="
-          padding: 15px 50px;
-          font-size: 24px;
-          background: #ff4444;
-          color: #fff;
-          border: none;
-          cursor: pointer;
-        ">Try Again</button>
-      </div>
-    `;
-    document.body.appendChild(gameOver);
-  }
 }
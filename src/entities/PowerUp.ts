@@ -12,7 +12,8 @@ interface PowerUpConfig {
 // Cute cartoon pastel colors for powerups
 const POWERUP_CONFIGS: Record<PowerUpType, PowerUpConfig> = {
   health: { color: 0xFF6B6B, emissive: 0xFF6B6B, value: 50, description: '+50 Health' },
-  ammo: { color: 0xFFE66D, emissive: 0xFFE66D, value: 60, description: '+60 Ammo' },
+  // Fraction of each carried ammo type's carry limit
+  ammo: { color: 0xFFE66D, emissive: 0xFFE66D, value: 0.25, description: 'Ammo Resupply' },
   speed: { color: 0x4ECDC4, emissive: 0x4ECDC4, value: 5, description: 'Speed Boost' },
   shield: { color: 0x9B59B6, emissive: 0x9B59B6, value: 50, description: '+50 Shield' },
   damage: { color: 0xFF6B6B, emissive: 0xFF6B6B, value: 2, description: '2x Damage' }
@@ -183,6 +184,10 @@ export class PowerUp {
     return POWERUP_CONFIGS[this.type].description;
   }
 
+  public getMesh(): THREE.Object3D {
+    return this.mesh;
+  }
+
   public isCollected(): boolean {
     return this.collected;
   }
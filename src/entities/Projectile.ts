@@ -1,18 +1,37 @@
 import * as THREE from 'three';
+import { HitZone } from './Health';
+import { FalloffCurve, falloffAt } from '../weapons/WeaponData';
+
+// Metres per second squared
+const GRAVITY = 9.8;
+// Fraction of the wind speed a round picks up per second in flight
+const WIND_DRIFT = 0.5;
+// Seconds of flight the tracer streak covers, and its longest length
+const TRACER_TIME = 0.012;
+const MAX_TRACER_LENGTH = 4;
 
 export class Projectile {
   private mesh: THREE.Mesh;
+  private tracer: THREE.Mesh;
   private scene: THREE.Scene;
   private velocity: THREE.Vector3;
+  private origin: THREE.Vector3;
+  private previousPosition: THREE.Vector3;
   private lifeTime = 0;
   private maxLifeTime = 3;
   public damage = 25;
+  public weapon = 'Rifle';
+  // Per-weapon overrides of the default hit zone multipliers
+  public hitZoneMultipliers: Partial<Record<HitZone, number>> = {};
+  // Damage multiplier by distance from the muzzle; none by default
+  public falloff: FalloffCurve = [[0, 1]];
 
   constructor(
     scene: THREE.Scene, 
     position: THREE.Vector3, 
     direction: THREE.Vector3,
-    speed: number = 50
+    speed: number = 50,
+    tracerColor: THREE.ColorRepresentation = 0xFFD166
   ) {
     this.scene = scene;
     this.velocity = direction.normalize().multiplyScalar(speed);
@@ -28,54 +47,77 @@ export class Projectile {
     });
     this.mesh = new THREE.Mesh(geometry, material);
     this.mesh.position.copy(position);
+    this.origin = position.clone();
+    this.previousPosition = position.clone();
     
-    // Cute sparkle trail using accent color
-    const trailGeometry = new THREE.ConeGeometry(0.1, 0.4, 6);
-    const trailMaterial = new THREE.MeshStandardMaterial({ 
-      color: 0xE76F51,  // Accent from palette
-      roughness: 0.9,
-      metalness: 0,
+    // Glowing tracer streak trailing behind, longer for faster rounds so
+    // the arc of a long shot is easy to follow
+    const tracerLength = Math.min(speed * TRACER_TIME, MAX_TRACER_LENGTH);
+    const tracerGeometry = new THREE.CylinderGeometry(0.04, 0.02, tracerLength, 6);
+    const tracerMaterial = new THREE.MeshBasicMaterial({ 
+      color: tracerColor,
       transparent: true,
-      opacity: 0.7
+      opacity: 0.8
     });
-    const trail = new THREE.Mesh(trailGeometry, trailMaterial);
-    trail.rotation.x = -Math.PI / 2;
-    trail.position.z = 0.25;
-    this.mesh.add(trail);
+    this.tracer = new THREE.Mesh(tracerGeometry, tracerMaterial);
+    this.tracer.rotation.x = Math.PI / 2;
+    this.tracer.position.z = -tracerLength / 2;
+    this.mesh.add(this.tracer);
 
-    // Orient bullet in direction of travel
-    this.mesh.lookAt(position.clone().add(direction));
+    this.faceVelocity();
 
     scene.add(this.mesh);
   }
 
-  public update(delta: number): void {
+  // wind is in metres per second; rounds drift along with it
+  public update(delta: number, wind?: THREE.Vector3): void {
     this.lifeTime += delta;
+    this.previousPosition.copy(this.mesh.position);
+
+    this.velocity.y -= GRAVITY * delta;
+    if (wind) this.velocity.addScaledVector(wind, WIND_DRIFT * delta);
     
     // Move projectile
     this.mesh.position.x += this.velocity.x * delta;
     this.mesh.position.y += this.velocity.y * delta;
     this.mesh.position.z += this.velocity.z * delta;
+    this.faceVelocity();
+  }
+
+  // Points the bullet and its tracer along the arc it's flying
+  private faceVelocity(): void {
+    this.mesh.lookAt(this.mesh.position.clone().add(this.velocity));
   }
 
+  // Hitting the ground is up to whoever sweeps the projectile's path
   public isExpired(): boolean {
-    return this.lifeTime >= this.maxLifeTime || 
-           this.mesh.position.y < 0 ||
-           Math.abs(this.mesh.position.x) > 100 ||
-           Math.abs(this.mesh.position.z) > 100;
+    return this.lifeTime >= this.maxLifeTime;
   }
 
   public getPosition(): THREE.Vector3 {
     return this.mesh.position.clone();
   }
 
-  public getDamage(): number {
-    return this.damage;
+  // Where the projectile was before the last update; with getPosition() this
+  // is the segment it swept through this step
+  public getPreviousPosition(): THREE.Vector3 {
+    return this.previousPosition.clone();
+  }
+
+  public getMesh(): THREE.Object3D {
+    return this.mesh;
+  }
+
+  // Damage for a hit at a point, after falloff over the distance flown
+  public getDamageAt(point: THREE.Vector3): number {
+    return this.damage * falloffAt(this.falloff, this.origin.distanceTo(point));
   }
 
   public destroy(): void {
     this.scene.remove(this.mesh);
     this.mesh.geometry.dispose();
     (this.mesh.material as THREE.Material).dispose();
+    this.tracer.geometry.dispose();
+    (this.tracer.material as THREE.Material).dispose();
   }
 }
@@ -0,0 +1,271 @@
+import * as THREE from 'three';
+import { DamageInfo, DamageType } from './Health';
+
+// Body parts that get their own point mass, by mesh name. Anything else on
+// the model (eyes, weapon, gear) rides along with the nearest of these.
+const PART_NAMES = ['torso', 'head', 'leftArm', 'rightArm', 'leftLeg', 'rightLeg'];
+// Extra links between neighbouring limbs so the body keeps some shape
+const BRACES: [string, string][] = [
+  ['head', 'leftArm'],
+  ['head', 'rightArm'],
+  ['leftArm', 'leftLeg'],
+  ['rightArm', 'rightLeg'],
+  ['leftLeg', 'rightLeg']
+];
+
+const GRAVITY = 20;
+const CONSTRAINT_ITERATIONS = 4;
+// Velocity kept per step in the air, and horizontally while touching the ground
+const AIR_DAMPING = 0.99;
+const GROUND_FRICTION = 0.6;
+// Goes to sleep after this long with every part slower than REST_SPEED (m/s)
+const REST_SPEED = 0.15;
+const REST_TIME = 0.5;
+// Launch speed (m/s) per point of damage in the killing blow, by damage type
+const IMPULSE_PER_DAMAGE: Partial<Record<DamageType, number>> = {
+  bullet: 0.15,
+  melee: 0.1,
+  explosion: 0.2,
+  vehicle: 0.2
+};
+const MAX_IMPULSE = 14;
+// Share of a bullet's push that reaches the parts it didn't hit
+const SPILLOVER = 0.4;
+
+interface RagdollPart {
+  name: string;
+  object: THREE.Object3D;
+  position: THREE.Vector3;
+  previous: THREE.Vector3;
+  // Velocity to add on the next step
+  kick: THREE.Vector3;
+  // Distance from its centre to the ground when lying down
+  radius: number;
+  // Starting offset from the torso and rotation, for orienting it as the body moves
+  restOffset: THREE.Vector3;
+  restQuaternion: THREE.Quaternion;
+}
+
+interface RagdollJoint {
+  a: RagdollPart;
+  b: RagdollPart;
+  length: number;
+}
+
+// Lightweight articulated ragdoll for a dead enemy. Each named body part is a
+// Verlet point mass tied to the torso, and braced to its neighbours, by
+// distance constraints. Parts are turned to match where they sit relative to
+// the torso, so there's no rigid-body solver, and the whole thing sleeps once
+// it comes to rest. Takes over the parts of the model it's built from.
+export class Ragdoll {
+  private scene: THREE.Scene;
+  private group = new THREE.Group();
+  private parts: RagdollPart[] = [];
+  private joints: RagdollJoint[] = [];
+  private torso: RagdollPart;
+  private head: RagdollPart | null;
+  private getHeight: (x: number, z: number) => number;
+  private restTime = 0;
+  private asleep = false;
+
+  constructor(scene: THREE.Scene, model: THREE.Object3D, getHeight: (x: number, z: number) => number) {
+    this.scene = scene;
+    this.getHeight = getHeight;
+    scene.add(this.group);
+    model.updateMatrixWorld(true);
+
+    // Move the named parts into the ragdoll's group, keeping their world transforms
+    PART_NAMES.forEach(name => {
+      const object = model.getObjectByName(name);
+      if (!object || object.parent !== model) return;
+
+      const size = new THREE.Box3().setFromObject(object).getSize(new THREE.Vector3());
+      this.group.attach(object);
+      this.parts.push({
+        name,
+        object,
+        position: object.position.clone(),
+        previous: object.position.clone(),
+        kick: new THREE.Vector3(),
+        radius: Math.min(size.x, size.y, size.z) / 2,
+        restOffset: new THREE.Vector3(),
+        restQuaternion: object.quaternion.clone()
+      });
+    });
+
+    this.torso = this.getPart('torso') ?? this.parts[0];
+    this.head = this.getPart('head');
+    this.parts.forEach(part => part.restOffset.subVectors(part.position, this.torso.position));
+
+    // Everything else except the health bar goes with the nearest part
+    const loose = model.children.filter(child => !child.name.startsWith('healthBar'));
+    loose.forEach(child => {
+      const position = child.getWorldPosition(new THREE.Vector3());
+      let nearest = this.torso;
+      this.parts.forEach(part => {
+        if (part.position.distanceTo(position) < nearest.position.distanceTo(position)) nearest = part;
+      });
+      nearest.object.attach(child);
+    });
+
+    this.parts.forEach(part => {
+      if (part !== this.torso) this.link(this.torso, part);
+    });
+    BRACES.forEach(([a, b]) => {
+      const partA = this.getPart(a);
+      const partB = this.getPart(b);
+      if (partA && partB) this.link(partA, partB);
+    });
+  }
+
+  // Knocks the body about with the blow that killed it: explosions throw
+  // the whole body away from the blast, bullets and melee mostly push the
+  // part that was hit
+  public applyHit(info: DamageInfo): void {
+    const perDamage = IMPULSE_PER_DAMAGE[info.type] ?? 0;
+    if (!info.position || perDamage === 0) return;
+
+    const speed = Math.min(MAX_IMPULSE, info.amount * perDamage);
+    if (info.type === 'explosion') {
+      const direction = this.torso.position.clone().sub(info.position).setY(0).normalize().setY(0.8).normalize();
+      this.parts.forEach(part => part.kick.addScaledVector(direction, speed));
+    } else {
+      const from = info.attacker?.object.position ?? info.position;
+      const direction = info.position.clone().sub(from).setY(0);
+      if (direction.lengthSq() === 0) direction.subVectors(this.torso.position, info.position).setY(0);
+      direction.normalize().setY(0.2);
+      const hit = this.nearestPart(info.position);
+      this.parts.forEach(part => part.kick.addScaledVector(direction, part === hit ? speed : speed * SPILLOVER));
+    }
+    this.wake();
+  }
+
+  // Pushes each part away from a blast, weaker further out
+  public applyBlast(center: THREE.Vector3, radius: number, speed: number): void {
+    let pushed = false;
+    this.parts.forEach(part => {
+      const offset = part.position.clone().sub(center);
+      const distance = offset.length();
+      if (distance >= radius) return;
+      offset.setY(Math.max(offset.y, 0) + distance * 0.5).normalize();
+      part.kick.addScaledVector(offset, speed * (1 - distance / radius));
+      pushed = true;
+    });
+    if (pushed) this.wake();
+  }
+
+  public update(delta: number): void {
+    if (this.asleep || delta <= 0) return;
+
+    let fastest = 0;
+    this.parts.forEach(part => {
+      const velocity = part.position.clone().sub(part.previous).multiplyScalar(AIR_DAMPING);
+      velocity.addScaledVector(part.kick, delta);
+      velocity.y -= GRAVITY * delta * delta;
+      part.kick.set(0, 0, 0);
+      part.previous.copy(part.position);
+      part.position.add(velocity);
+    });
+
+    for (let i = 0; i < CONSTRAINT_ITERATIONS; i++) {
+      this.joints.forEach(joint => this.solve(joint));
+      this.parts.forEach(part => this.collideGround(part));
+    }
+
+    this.parts.forEach(part => {
+      fastest = Math.max(fastest, part.position.distanceTo(part.previous) / delta);
+    });
+    this.restTime = fastest < REST_SPEED ? this.restTime + delta : 0;
+    if (this.restTime >= REST_TIME) this.asleep = true;
+
+    this.pose();
+  }
+
+  // Lowers the whole body into the ground (corpses sink before they vanish)
+  public sink(depth: number): void {
+    this.group.position.y = -depth;
+  }
+
+  public isAsleep(): boolean {
+    return this.asleep;
+  }
+
+  public getObject(): THREE.Object3D {
+    return this.group;
+  }
+
+  public getParts(): THREE.Object3D[] {
+    return this.parts.map(part => part.object);
+  }
+
+  public dispose(): void {
+    this.scene.remove(this.group);
+    this.group.traverse(child => {
+      if (child instanceof THREE.Mesh) {
+        child.geometry.dispose();
+        if (Array.isArray(child.material)) {
+          child.material.forEach(m => m.dispose());
+        } else {
+          child.material.dispose();
+        }
+      }
+    });
+  }
+
+  private link(a: RagdollPart, b: RagdollPart): void {
+    this.joints.push({ a, b, length: a.position.distanceTo(b.position) });
+  }
+
+  // Moves both ends of a joint halfway back towards its rest length
+  private solve(joint: RagdollJoint): void {
+    const delta = joint.b.position.clone().sub(joint.a.position);
+    const distance = delta.length();
+    if (distance === 0) return;
+
+    const correction = delta.multiplyScalar((distance - joint.length) / distance / 2);
+    joint.a.position.add(correction);
+    joint.b.position.sub(correction);
+  }
+
+  private collideGround(part: RagdollPart): void {
+    const floor = this.getHeight(part.position.x, part.position.z) + part.radius;
+    if (part.position.y >= floor) return;
+
+    part.position.y = floor;
+    // Friction: drag the previous position along so less sliding carries over
+    part.previous.x += (part.position.x - part.previous.x) * (1 - GROUND_FRICTION);
+    part.previous.z += (part.position.z - part.previous.z) * (1 - GROUND_FRICTION);
+  }
+
+  // Copies the simulated positions onto the meshes and turns each part to
+  // follow its offset from the torso (the torso follows the head)
+  private pose(): void {
+    const turn = new THREE.Quaternion();
+    this.parts.forEach(part => {
+      part.object.position.copy(part.position);
+
+      const reference = part === this.torso ? this.head : part;
+      if (!reference || reference === this.torso) return;
+      const current = reference.position.clone().sub(this.torso.position).normalize();
+      turn.setFromUnitVectors(reference.restOffset.clone().normalize(), current);
+      part.object.quaternion.copy(turn).multiply(part.restQuaternion);
+    });
+  }
+
+  private nearestPart(position: THREE.Vector3): RagdollPart {
+    let nearest = this.torso;
+    this.parts.forEach(part => {
+      if (part.position.distanceTo(position) < nearest.position.distanceTo(position)) nearest = part;
+    });
+    return nearest;
+  }
+
+  private getPart(name: string): RagdollPart | null {
+    return this.parts.find(part => part.name === name) ?? null;
+  }
+
+  private wake(): void {
+    this.asleep = false;
+    this.restTime = 0;
+  }
+}
@@ -0,0 +1,84 @@
+import * as THREE from 'three';
+import { WEAPONS, WeaponConfig } from '../weapons/WeaponData';
+import { WeaponDrop } from '../weapons/Loadout';
+import { applyAttachments } from '../weapons/Attachments';
+import { createWeaponModel } from '../weapons/WeaponModel';
+
+// Ground models are scaled up from the first-person size so they're easy to spot
+const MODEL_SCALE = 2.5;
+const HOVER_HEIGHT = 0.8;
+const PICKUP_RADIUS = 2;
+
+// A weapon left on the ground, spinning slowly until someone takes it
+export class WeaponPickup {
+  private mesh: THREE.Group;
+  private scene: THREE.Scene;
+  private drop: WeaponDrop;
+  private config: WeaponConfig;
+  private rotation = 0;
+  private bobOffset = 0;
+
+  constructor(scene: THREE.Scene, position: THREE.Vector3, drop: WeaponDrop) {
+    this.scene = scene;
+    this.drop = drop;
+    this.config = applyAttachments(WEAPONS.get(drop.weapon), drop.attachments ?? []);
+    this.mesh = this.createMesh();
+    this.mesh.position.copy(position);
+    this.mesh.position.y += HOVER_HEIGHT;
+    scene.add(this.mesh);
+  }
+
+  private createMesh(): THREE.Group {
+    const group = new THREE.Group();
+
+    const model = createWeaponModel(this.config.parts);
+    model.scale.setScalar(MODEL_SCALE);
+    model.traverse(child => { child.castShadow = true; });
+    group.add(model);
+
+    // Soft ring underneath marks it as something to pick up
+    const ringGeo = new THREE.TorusGeometry(0.8, 0.05, 6, 24);
+    const ringMat = new THREE.MeshBasicMaterial({ color: 0xaaddff, transparent: true, opacity: 0.6 });
+    const ring = new THREE.Mesh(ringGeo, ringMat);
+    ring.rotation.x = Math.PI / 2;
+    ring.position.y = -HOVER_HEIGHT + 0.1;
+    group.add(ring);
+
+    return group;
+  }
+
+  public update(delta: number): void {
+    this.rotation += delta;
+    this.mesh.rotation.y = this.rotation;
+
+    this.bobOffset += delta * 2;
+    this.mesh.position.y += Math.sin(this.bobOffset) * 0.005;
+  }
+
+  // position is the player's eye position
+  public checkCollision(position: THREE.Vector3): boolean {
+    const dx = this.mesh.position.x - position.x;
+    const dz = this.mesh.position.z - position.z;
+    return dx * dx + dz * dz < PICKUP_RADIUS * PICKUP_RADIUS && Math.abs(this.mesh.position.y - position.y) < 3;
+  }
+
+  // Rounds are taken out of the drop as they're collected
+  public getDrop(): WeaponDrop { return this.drop; }
+  public getConfig(): WeaponConfig { return this.config; }
+  public getMesh(): THREE.Object3D { return this.mesh; }
+  public isEmpty(): boolean { return this.drop.magazine + this.drop.reserve === 0; }
+
+  public destroy(): void {
+    this.scene.remove(this.mesh);
+    this.mesh.traverse(child => {
+      if (child instanceof THREE.Mesh) {
+        child.geometry.dispose();
+        if (Array.isArray(child.material)) {
+          child.material.forEach(m => m.dispose());
+        } else {
+          child.material.dispose();
+        }
+      }
+    });
+  }
+}
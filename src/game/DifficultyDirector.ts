@@ -0,0 +1,184 @@
+import { EnemyType } from '../entities/Enemy';
+import { Random } from '../utils/Random';
+
+export type DifficultyPreset = 'easy' | 'normal' | 'hard';
+
+// Pairs are the value at pressure 0 and at pressure 1
+export interface DifficultySettings {
+  // Intensity band the director tries to keep the match in
+  targetIntensity: [number, number];
+  startPressure: number;
+  // Pressure change per second while intensity is outside the band
+  adjustRate: number;
+  spawnRate: [number, number];
+  enemySpread: [number, number];
+  // Chance a rifle is swapped for a heavy or SMG at full pressure
+  upgradeChance: number;
+  // Chance a heavy is swapped for a rifle at zero pressure
+  downgradeChance: number;
+  // Power-up drop chance per kill
+  dropChance: [number, number];
+}
+
+export const DIFFICULTY_PRESETS: Record<DifficultyPreset, DifficultySettings> = {
+  easy: {
+    targetIntensity: [0.15, 0.4], startPressure: 0.2, adjustRate: 0.012,
+    spawnRate: [0.6, 1], enemySpread: [1.6, 1.1],
+    upgradeChance: 0.15, downgradeChance: 0.5, dropChance: [0.35, 0.15]
+  },
+  normal: {
+    targetIntensity: [0.3, 0.6], startPressure: 0.4, adjustRate: 0.015,
+    spawnRate: [0.75, 1.3], enemySpread: [1.3, 0.9],
+    upgradeChance: 0.3, downgradeChance: 0.3, dropChance: [0.25, 0.08]
+  },
+  hard: {
+    targetIntensity: [0.45, 0.8], startPressure: 0.6, adjustRate: 0.02,
+    spawnRate: [0.9, 1.6], enemySpread: [1.1, 0.7],
+    upgradeChance: 0.45, downgradeChance: 0.1, dropChance: [0.15, 0.04]
+  }
+};
+
+export interface PlayerCondition {
+  healthFraction: number;
+  killStreak: number;
+}
+
+// Seconds over which shots, hits and kills are averaged
+const PERFORMANCE_WINDOW = 30;
+// Stress added per full health bar of damage taken, and lost per second
+const STRESS_PER_HEALTH = 1.5;
+const STRESS_DECAY = 0.06;
+// How much missing health alone adds to intensity
+const LOW_HEALTH_INTENSITY = 0.5;
+// Performance that counts as top marks
+const GOOD_ACCURACY = 0.5;
+const GOOD_KILLS_PER_MINUTE = 8;
+const GOOD_STREAK = 5;
+
+// Keeps solo matches tense without being overwhelming. Intensity (0-1) is how
+// hard the player is being pushed right now: recent damage plus missing
+// health. Skill (0-1) is how well they're doing: accuracy, kills per minute,
+// streaks and health. Pressure (0-1) rises while intensity is below the
+// preset's band (faster for skilled players) and falls while it's above,
+// and drives spawn rate, enemy accuracy, the enemy mix and power-up drops.
+export class DifficultyDirector {
+  private preset: DifficultyPreset;
+  private settings: DifficultySettings;
+  private pressure: number;
+  private stress = 0;
+  private intensity = 0;
+  private skill = 0;
+  // Exponentially decaying event counts over PERFORMANCE_WINDOW
+  private shots = 0;
+  private hits = 0;
+  private kills = 0;
+
+  constructor(preset: DifficultyPreset = 'normal') {
+    this.preset = preset;
+    this.settings = DIFFICULTY_PRESETS[preset];
+    this.pressure = this.settings.startPressure;
+  }
+
+  public setPreset(preset: DifficultyPreset): void {
+    this.preset = preset;
+    this.settings = DIFFICULTY_PRESETS[preset];
+    this.pressure = this.settings.startPressure;
+  }
+
+  public getPreset(): DifficultyPreset {
+    return this.preset;
+  }
+
+  public recordShots(count: number): void {
+    this.shots += count;
+  }
+
+  public recordHit(): void {
+    this.hits++;
+  }
+
+  public recordKill(): void {
+    this.kills++;
+  }
+
+  public recordDamageTaken(amount: number, maxHealth: number): void {
+    this.stress += (amount / maxHealth) * STRESS_PER_HEALTH;
+  }
+
+  public update(delta: number, condition: PlayerCondition): void {
+    const decay = Math.exp(-delta / PERFORMANCE_WINDOW);
+    this.shots *= decay;
+    this.hits *= decay;
+    this.kills *= decay;
+    this.stress = Math.max(0, this.stress - STRESS_DECAY * delta);
+
+    this.intensity = this.clamp01(this.stress + (1 - condition.healthFraction) * LOW_HEALTH_INTENSITY);
+    this.skill =
+      0.3 * this.clamp01(this.getAccuracy() / GOOD_ACCURACY) +
+      0.3 * this.clamp01(this.getKillsPerMinute() / GOOD_KILLS_PER_MINUTE) +
+      0.2 * this.clamp01(condition.killStreak / GOOD_STREAK) +
+      0.2 * condition.healthFraction;
+
+    const [low, high] = this.settings.targetIntensity;
+    if (this.intensity < low) {
+      this.pressure += this.settings.adjustRate * delta * (0.5 + this.skill);
+    } else if (this.intensity > high) {
+      this.pressure -= this.settings.adjustRate * delta * (1.5 - this.skill);
+    }
+    this.pressure = this.clamp01(this.pressure);
+  }
+
+  public getIntensity(): number {
+    return this.intensity;
+  }
+
+  public getPressure(): number {
+    return this.pressure;
+  }
+
+  public getSkill(): number {
+    return this.skill;
+  }
+
+  // Share of recent shots that hit; neutral until there's enough to judge
+  public getAccuracy(): number {
+    return this.shots >= 3 ? this.hits / this.shots : GOOD_ACCURACY / 2;
+  }
+
+  public getKillsPerMinute(): number {
+    return (this.kills / PERFORMANCE_WINDOW) * 60;
+  }
+
+  public getSpawnRateMultiplier(): number {
+    return this.lerp(this.settings.spawnRate);
+  }
+
+  // Multiplies enemy aim spread; below 1 they shoot straighter
+  public getEnemySpreadMultiplier(): number {
+    return this.lerp(this.settings.enemySpread);
+  }
+
+  public getDropChance(): number {
+    return this.lerp(this.settings.dropChance);
+  }
+
+  // Swaps rank-and-file enemies for tougher ones under pressure and for
+  // easier ones when the player is struggling. Bosses are left alone.
+  public adjustEnemyType(type: EnemyType, random: Random): EnemyType {
+    if (type === 'rifle' && random.chance(this.settings.upgradeChance * this.pressure)) {
+      return random.pick<EnemyType>(['heavy', 'smg']);
+    }
+    if (type === 'heavy' && random.chance(this.settings.downgradeChance * (1 - this.pressure))) {
+      return 'rifle';
+    }
+    return type;
+  }
+
+  private lerp([atZero, atOne]: [number, number]): number {
+    return atZero + (atOne - atZero) * this.pressure;
+  }
+
+  private clamp01(value: number): number {
+    return Math.max(0, Math.min(1, value));
+  }
+}
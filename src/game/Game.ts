@@ -1,13 +1,12 @@
 import * as THREE from 'three';
 import { Player } from '../entities/Player';
-import { Enemy, EnemyType } from '../entities/Enemy';
-import { Projectile } from '../entities/Projectile';
 import { Weapon } from '../weapons/Weapon';
-import { MultiWeapon, WeaponType } from '../weapons/WeaponTypes';
-import { GrenadeSystem } from '../weapons/Grenade';
-import { PowerUp, PowerUpType } from '../entities/PowerUp';
+import { MultiWeapon } from '../weapons/WeaponTypes';
+import { WEAPONS, WEAPON_SLOTS } from '../weapons/WeaponData';
+import { LoadoutSelection } from '../weapons/Loadout';
+import { AttachmentSelection } from '../weapons/Attachments';
 import { InputManager } from '../utils/InputManager';
-import { CollisionManager } from '../utils/CollisionManager';
+import { Random } from '../utils/Random';
 import { Minimap } from '../utils/Minimap';
 import { KillstreakSystem } from '../utils/KillstreakSystem';
 import { Terrain } from '../world/Terrain';
@@ -20,28 +19,45 @@ import { AmbientSystem } from '../effects/AmbientSystem';
 import { Vehicle, VehicleType } from '../vehicles/Vehicle';
 import { MultiplayerManager, PlayerState, GameMessage } from '../multiplayer/MultiplayerManager';
 import { NetworkPlayer } from '../multiplayer/NetworkPlayer';
+import { GameSimulation, SimulationEvent } from './GameSimulation';
+import { DifficultyPreset } from './DifficultyDirector';
+import { BossAttackType, BossDefinition } from '../ai/BossController';
+
+// What the boss shouts while winding up each special attack
+const BOSS_ATTACK_CALLOUTS: Record<BossAttackType, string> = {
+  groundSlam: 'BOSS IS WINDING UP A SLAM - GET CLEAR!',
+  minigunSweep: 'MINIGUN SWEEP - TAKE COVER!',
+  summonAdds: 'BOSS CALLS FOR REINFORCEMENTS',
+  grenadeBarrage: 'GRENADE BARRAGE INCOMING!'
+};
+
+// Distance of the crosshair lines from the centre with no spread, px
+const CROSSHAIR_GAP = 18;
 
 export class Game {
   private scene: THREE.Scene;
   private camera: THREE.PerspectiveCamera;
   private renderer: THREE.WebGLRenderer;
+  private simulation: GameSimulation;
   private player: Player;
-  private enemies: Enemy[] = [];
-  private projectiles: Projectile[] = [];
   private weapon: Weapon;
   private multiWeapon: MultiWeapon;
   private useMultiWeapon = true; // Use enhanced weapon system
+  private crosshairGap = CROSSHAIR_GAP;
   private inputManager: InputManager;
-  private collisionManager: CollisionManager;
   private clock: THREE.Clock;
+  private random: Random;
   private isRunning = false;
-  private score = 0;
-  private kills = 0;
+
+  // Fixed-timestep loop: the simulation always advances in FIXED_DELTA steps,
+  // rendering blends between the last two steps
+  private readonly FIXED_DELTA = 1 / 60;
+  private readonly MAX_FRAME_DELTA = 0.25;
+  private accumulator = 0;
 
   // New systems
   private terrain!: Terrain;
   private skySystem!: SkySystem;
-  private helicopters: Helicopter[] = [];
   private particleSystem!: ParticleSystem;
   private combatEffects!: CombatEffects;
   private ambientSystem!: AmbientSystem;
@@ -49,28 +65,28 @@ export class Game {
   // Enhanced systems
   private minimap!: Minimap;
   private killstreakSystem!: KillstreakSystem;
-  private grenadeSystem!: GrenadeSystem;
   private weatherSystem!: WeatherSystem;
-  private powerUps: PowerUp[] = [];
-  private waveNumber = 1;
-  private bossSpawned = false;
 
   // Drivable vehicles
-  private vehicles: Vehicle[] = [];
   private playerVehicle: Vehicle | null = null;
   private nearbyVehicle: Vehicle | null = null;
 
   // Multiplayer
   private isMultiplayer = false;
   private multiplayerManager: MultiplayerManager | null = null;
-  private networkPlayer: NetworkPlayer | null = null;
   private myKills = 0;
   private enemyKills = 0;
   private readonly KILLS_TO_WIN = 5;
   private lastStateSent = 0;
   private readonly STATE_SEND_RATE = 50; // ms
 
-  constructor() {
+  constructor(seed: number = Random.randomSeed(), difficulty: DifficultyPreset = 'normal') {
+    // One seeded RNG drives everything that affects the match
+    this.random = new Random(seed);
+    // Shown under the compass so the match can be replayed with ?seed=
+    const seedEl = document.getElementById('match-seed');
+    if (seedEl) seedEl.textContent = `Seed: ${this.random.getSeed()}`;
+
     // Scene setup
     this.scene = new THREE.Scene();
     this.scene.background = new THREE.Color(0x44BBFF); // Bright cyan sky
@@ -99,19 +115,14 @@ export class Game {
 
     // Initialize managers
     this.inputManager = new InputManager();
-    this.collisionManager = new CollisionManager();
     this.clock = new THREE.Clock();
 
-    // Initialize player
-    this.player = new Player(this.camera);
-    
     // Initialize weapon
-    this.weapon = new Weapon(this.camera, this.scene);
-    this.multiWeapon = new MultiWeapon(this.camera, this.scene);
+    this.weapon = new Weapon(this.camera, this.scene, this.random);
 
     // Setup world
     this.skySystem = new SkySystem(this.scene);
-    this.terrain = new Terrain(this.scene);
+    this.terrain = new Terrain(this.scene, this.random);
     this.particleSystem = new ParticleSystem(this.scene);
     this.combatEffects = new CombatEffects();
     this.ambientSystem = new AmbientSystem();
@@ -119,16 +130,19 @@ export class Game {
     // Initialize enhanced systems
     this.minimap = new Minimap();
     this.killstreakSystem = new KillstreakSystem();
-    this.grenadeSystem = new GrenadeSystem(this.scene, this.particleSystem);
-    this.weatherSystem = new WeatherSystem(this.scene);
 
-    // Add terrain colliders directly to collision manager
-    this.terrain.getColliders().forEach(box => {
-      this.collisionManager.addCollider(box.clone());
+    // Headless match state - this class only renders it and drives the HUD
+    this.simulation = new GameSimulation(this.scene, this.terrain, {
+      camera: this.camera,
+      killstreakSystem: this.killstreakSystem,
+      random: this.random,
+      difficulty
     });
-
-    // Connect player to terrain for ground collision
-    this.player.setTerrainHeightFunction((x: number, z: number) => this.terrain.getHeightAt(x, z));
+    this.simulation.onEvent((event) => this.handleSimulationEvent(event));
+    this.player = this.simulation.getPlayer();
+    this.weatherSystem = new WeatherSystem(this.scene, this.simulation.getWeather());
+    this.multiWeapon = new MultiWeapon(this.camera, this.scene, this.random, this.simulation.getLoadout(), this.player);
+    document.addEventListener('mousemove', (e) => this.player.handleMouseMove(e));
 
     // Spawn drivable vehicles
     this.spawnVehicles();
@@ -142,8 +156,8 @@ export class Game {
     // Setup weapon switching
     this.setupWeaponSwitching();
 
-    // Spawn enemies
-    this.spawnEnemies();
+    // Enemies arrive in waves from the wave table
+    this.simulation.startWaves();
 
     // Handle window resize
     window.addEventListener('resize', () => this.onResize());
@@ -155,9 +169,16 @@ export class Game {
       const angle = (i / 2) * Math.PI * 2;
       const helicopter = new Helicopter(
         this.scene,
-        new THREE.Vector3(Math.cos(angle) * 80, 50, Math.sin(angle) * 80)
+        new THREE.Vector3(Math.cos(angle) * 80, 50, Math.sin(angle) * 80),
+        this.random
       );
-      this.helicopters.push(helicopter);
+      this.simulation.getRegistry().spawn({
+        kind: 'helicopter',
+        owner: helicopter,
+        object: helicopter.getMesh(),
+        team: 'neutral',
+        update: (delta) => helicopter.update(delta)
+      });
     }
   }
 
@@ -169,7 +190,7 @@ export class Game {
       new THREE.Vector3(-15, 0, 10)
     );
     car.setTerrainHeightFunction((x: number, z: number) => this.terrain.getHeightAt(x, z));
-    this.vehicles.push(car);
+    this.addVehicle(car);
 
     // Spawn a helicopter (drivable)
     const heli = new Vehicle(
@@ -178,7 +199,7 @@ export class Game {
       new THREE.Vector3(20, 0, -15)
     );
     heli.setTerrainHeightFunction((x: number, z: number) => this.terrain.getHeightAt(x, z));
-    this.vehicles.push(heli);
+    this.addVehicle(heli);
 
     // Spawn a plane
     const plane = new Vehicle(
@@ -187,7 +208,7 @@ export class Game {
       new THREE.Vector3(-25, 0, -25)
     );
     plane.setTerrainHeightFunction((x: number, z: number) => this.terrain.getHeightAt(x, z));
-    this.vehicles.push(plane);
+    this.addVehicle(plane);
 
     // Spawn boats near the dock/river
     const boat1 = new Vehicle(
@@ -196,7 +217,7 @@ export class Game {
       new THREE.Vector3(80, -0.3, 5)
     );
     boat1.setTerrainHeightFunction((x: number, z: number) => this.terrain.getHeightAt(x, z));
-    this.vehicles.push(boat1);
+    this.addVehicle(boat1);
 
     const boat2 = new Vehicle(
       this.scene,
@@ -204,59 +225,37 @@ export class Game {
       new THREE.Vector3(90, -0.3, -40)
     );
     boat2.setTerrainHeightFunction((x: number, z: number) => this.terrain.getHeightAt(x, z));
-    this.vehicles.push(boat2);
+    this.addVehicle(boat2);
   }
 
-  private spawnEnemies(): void {
-    const enemyTypes: EnemyType[] = ['rifle', 'smg', 'heavy'];
-    const colliders = this.terrain.getColliders();
-    
-    // Spawn initial wave of enemies
-    const enemyCount = 8 + Math.floor(this.waveNumber * 1.5);
-    for (let i = 0; i < enemyCount; i++) {
-      const angle = Math.random() * Math.PI * 2;
-      const distance = 30 + Math.random() * 30;
-      const type = enemyTypes[Math.floor(Math.random() * enemyTypes.length)];
-      const x = Math.cos(angle) * distance;
-      const z = Math.sin(angle) * distance;
-      const y = this.terrain.getHeightAt(x, z);
-      
-      const enemy = new Enemy(
-        this.scene,
-        new THREE.Vector3(x, y, z),
-        type
-      );
-      
-      // Give enemy terrain and collision info
-      enemy.setTerrainHeightFunction((ex: number, ez: number) => this.terrain.getHeightAt(ex, ez));
-      enemy.setColliders(colliders);
-      
-      this.enemies.push(enemy);
-    }
+  private addVehicle(vehicle: Vehicle): void {
+    vehicle.setCollisionManager(this.simulation.getCollisionManager());
+    this.simulation.getRegistry().spawn({
+      kind: 'vehicle',
+      owner: vehicle,
+      object: vehicle.getMesh(),
+      team: 'neutral',
+      health: vehicle.getHealthComponent(),
+      update: (delta) => vehicle.update(delta),
+      onDamage: (_info, result) => vehicle.handleDamage(result)
+    });
   }
-  
+
   private setupWeaponSwitching(): void {
     document.addEventListener('keydown', (e) => {
       if (!this.isRunning) return;
       
-      // Number keys for weapon switching
+      // Number keys pick loadout slots: primary, secondary, sidearm
+      const slot = /^[1-9]$/.test(e.key) ? WEAPON_SLOTS[Number(e.key) - 1] : undefined;
+      if (slot) {
+        if (this.multiWeapon.switchSlot(slot)) {
+          const config = this.multiWeapon.getConfig();
+          this.showWeaponNotification(`${config.icon} ${config.name}`);
+        }
+        return;
+      }
+
       switch (e.key) {
-        case '1':
-          this.multiWeapon.switchWeapon(WeaponType.RIFLE);
-          this.showWeaponNotification('Assault Rifle');
-          break;
-        case '2':
-          this.multiWeapon.switchWeapon(WeaponType.SHOTGUN);
-          this.showWeaponNotification('Shotgun');
-          break;
-        case '3':
-          this.multiWeapon.switchWeapon(WeaponType.SNIPER);
-          this.showWeaponNotification('Sniper Rifle');
-          break;
-        case '4':
-          this.multiWeapon.switchWeapon(WeaponType.SMG);
-          this.showWeaponNotification('SMG');
-          break;
         case 'g':
         case 'G':
           this.throwGrenade();
@@ -300,7 +299,7 @@ export class Game {
       fog: '🌫️ Fog',
       rain: '🌧️ Rain',
       snow: '❄️ Snow',
-      storm: '⛈️ Storm'
+      storm: '⛈️ Storm - wind drifts rounds'
     };
     
     let notification = document.getElementById('weather-notification');
@@ -335,7 +334,7 @@ export class Game {
     direction.y += 0.3; // Arc upward
     direction.normalize();
     
-    if (this.grenadeSystem.throwGrenade(position, direction, 20)) {
+    if (this.simulation.throwGrenade(position, direction, 20)) {
       this.updateGrenadeHUD();
     }
   }
@@ -354,34 +353,32 @@ export class Game {
       document.body.appendChild(grenadeEl);
     }
     
-    grenadeEl.textContent = `🔴 x${this.grenadeSystem.getGrenadeCount()}`;
+    grenadeEl.textContent = `🔴 x${this.simulation.getGrenadeCount()}`;
   }
   
-  private spawnBoss(): void {
-    if (this.bossSpawned) return;
-    
-    this.bossSpawned = true;
-    const angle = Math.random() * Math.PI * 2;
-    const distance = 50;
-    const x = Math.cos(angle) * distance;
-    const z = Math.sin(angle) * distance;
-    const y = this.terrain.getHeightAt(x, z);
-    
-    const boss = new Enemy(
-      this.scene,
-      new THREE.Vector3(x, y, z),
-      'boss'
-    );
-    
-    boss.setTerrainHeightFunction((ex: number, ez: number) => this.terrain.getHeightAt(ex, ez));
-    boss.setColliders(this.terrain.getColliders());
-    
-    this.enemies.push(boss);
-    
-    // Show boss warning
+  // Warning flash, then the boss's name card; the boss holds still meanwhile
+  private playBossIntro(boss: BossDefinition): void {
     this.showBossWarning();
+
+    const card = document.createElement('div');
+    card.style.cssText = `
+      position: fixed; top: 40%; left: 50%;
+      transform: translate(-50%, -50%); text-align: center;
+      font-family: 'Impact', sans-serif; pointer-events: none;
+      text-shadow: 0 0 20px #ff0000; z-index: 200;
+      opacity: 0; transition: opacity 0.4s ease;
+    `;
+    card.innerHTML = `
+      <div style="font-size: 64px; color: #ff3333;">${boss.name.toUpperCase()}</div>
+      <div style="font-size: 26px; color: #ffffff;">${boss.title}</div>
+    `;
+    document.body.appendChild(card);
+
+    const warningTime = Math.min(1500, boss.introDuration * 500);
+    setTimeout(() => { card.style.opacity = '1'; }, warningTime);
+    setTimeout(() => card.remove(), boss.introDuration * 1000);
   }
-  
+
   private showBossWarning(): void {
     const warning = document.createElement('div');
     warning.style.cssText = `
@@ -395,7 +392,99 @@ export class Game {
     warning.textContent = '⚠️ BOSS INCOMING ⚠️';
     document.body.appendChild(warning);
     
-    setTimeout(() => warning.remove(), 3000);
+    setTimeout(() => warning.remove(), 1500);
+  }
+
+  private showWaveBanner(title: string, subtitle: string, color: string): void {
+    let banner = document.getElementById('wave-banner');
+    if (!banner) {
+      banner = document.createElement('div');
+      banner.id = 'wave-banner';
+      banner.style.cssText = `
+        position: fixed; top: 25%; left: 50%;
+        transform: translate(-50%, -50%); text-align: center;
+        font-family: 'Impact', sans-serif; pointer-events: none;
+        text-shadow: 0 0 15px rgba(0, 0, 0, 0.8);
+        z-index: 150; opacity: 0; transition: opacity 0.4s ease;
+      `;
+      document.body.appendChild(banner);
+    }
+
+    banner.innerHTML = `
+      <div style="font-size: 56px; color: ${color};">${title}</div>
+      <div style="font-size: 24px; color: #ffffff;">${subtitle}</div>
+    `;
+    banner.style.opacity = '1';
+
+    setTimeout(() => {
+      if (banner) banner.style.opacity = '0';
+    }, 2500);
+  }
+
+  // Boss health bar across the top of the screen, with its current phase
+  private updateBossBar(): void {
+    let bar = document.getElementById('boss-bar');
+    const boss = this.simulation.getBoss();
+    if (!boss || boss.controller.isIntro()) {
+      if (bar) bar.style.display = 'none';
+      return;
+    }
+
+    if (!bar) {
+      bar = document.createElement('div');
+      bar.id = 'boss-bar';
+      bar.style.cssText = `
+        position: fixed; top: 20px; left: 50%;
+        transform: translateX(-50%); width: 500px;
+        font-family: 'Impact', sans-serif; color: #ffffff;
+        text-shadow: 0 0 6px #000000; text-align: center;
+        pointer-events: none; z-index: 100;
+      `;
+      bar.innerHTML = `
+        <div id="boss-bar-name" style="font-size: 20px;"></div>
+        <div style="height: 14px; background: rgba(0, 0, 0, 0.7); border: 2px solid #ff0000; border-radius: 4px;">
+          <div id="boss-bar-fill" style="height: 100%; width: 100%; background: linear-gradient(90deg, #aa0000, #ff3333);"></div>
+        </div>
+      `;
+      document.body.appendChild(bar);
+    }
+
+    bar.style.display = 'block';
+    const definition = boss.controller.getDefinition();
+    const health = boss.enemy.getHealthComponent();
+    const name = document.getElementById('boss-bar-name');
+    if (name) name.textContent = `${definition.name.toUpperCase()} - ${boss.controller.getPhase().name}`;
+    const fill = document.getElementById('boss-bar-fill');
+    if (fill) fill.style.width = `${Math.max(0, health.getHealth() / health.getMaxHealth()) * 100}%`;
+  }
+
+  private showBossCallout(text: string): void {
+    let callout = document.getElementById('boss-callout');
+    if (!callout) {
+      callout = document.createElement('div');
+      callout.id = 'boss-callout';
+      callout.style.cssText = `
+        position: fixed; top: 140px; left: 50%;
+        transform: translateX(-50%); padding: 8px 25px;
+        background: rgba(100, 0, 0, 0.8); color: #ff6666;
+        font-family: 'Impact', sans-serif; font-size: 24px;
+        border: 1px solid #ff0000; border-radius: 5px;
+        z-index: 100; opacity: 0; transition: opacity 0.3s ease;
+      `;
+      document.body.appendChild(callout);
+    }
+
+    callout.textContent = text;
+    callout.style.opacity = '1';
+
+    setTimeout(() => {
+      if (callout) callout.style.opacity = '0';
+    }, 2000);
+  }
+
+  // Starting weapons and attachments picked before deploying
+  public setLoadout(selection: LoadoutSelection, attachments: AttachmentSelection): void {
+    this.simulation.getLoadout().setSelection(selection, attachments);
   }
 
   public start(): void {
@@ -407,6 +496,8 @@ export class Game {
       document.addEventListener('pointerlockchange', () => {
         if (document.pointerLockElement !== document.body) {
           this.pause();
+        } else {
+          this.resume();
         }
       });
       
@@ -444,11 +535,10 @@ export class Game {
     if (mpEnemyName) mpEnemyName.textContent = manager.getOpponentName();
     
     // Remove AI enemies for 1v1
-    this.enemies.forEach(e => e.destroy());
-    this.enemies = [];
+    this.simulation.clearEnemies();
     
     // Create network player (opponent)
-    this.networkPlayer = new NetworkPlayer(this.scene, manager.getOpponentName());
+    this.spawnNetworkPlayer(manager);
     
     // Spawn at different positions based on host/client
     const spawnPos = manager.getIsHost() 
@@ -466,6 +556,8 @@ export class Game {
       document.addEventListener('pointerlockchange', () => {
         if (document.pointerLockElement !== document.body) {
           this.pause();
+        } else {
+          this.resume();
         }
       });
     }
@@ -474,20 +566,53 @@ export class Game {
     this.gameLoop();
   }
 
+  // The opponent is a registry entity keyed by their peer ID: our projectiles
+  // hit it through normal damage routing, and state updates find it by ID
+  private spawnNetworkPlayer(manager: MultiplayerManager): void {
+    const networkPlayer = new NetworkPlayer(this.scene, manager.getOpponentName());
+
+    this.simulation.getRegistry().spawn({
+      kind: 'remotePlayer',
+      owner: networkPlayer,
+      object: networkPlayer.getMesh(),
+      team: 'enemy',
+      networkId: manager.getOpponentId(),
+      health: networkPlayer.getHealthComponent(),
+      collider: networkPlayer,
+      update: (delta) => networkPlayer.update(delta, this.camera.position),
+      // The opponent applies the damage on their side and reports health back
+      onDamage: (info) => {
+        this.multiplayerManager?.sendHit(info.amount, info.type, info.hitZone, info.weapon, info.hitZoneMultiplier);
+        networkPlayer.updateHealthBar();
+        networkPlayer.getAnimator().play('hitReact');
+        this.particleSystem.createExplosion(info.position ?? networkPlayer.getPosition());
+      },
+      onDestroy: () => networkPlayer.destroy()
+    });
+  }
+
+  private getNetworkPlayer(): NetworkPlayer | undefined {
+    if (!this.multiplayerManager) return undefined;
+    return this.simulation.getRegistry()
+      .getByNetworkId<NetworkPlayer>(this.multiplayerManager.getOpponentId())?.owner;
+  }
+
   private setupMultiplayerCallbacks(): void {
     if (!this.multiplayerManager) return;
     
     // Receive opponent state updates (compact format)
     this.multiplayerManager.onState((state: PlayerState) => {
-      if (this.networkPlayer) {
-        this.networkPlayer.setTargetState(
+      const networkPlayer = this.getNetworkPlayer();
+      if (networkPlayer) {
+        networkPlayer.setTargetState(
           new THREE.Vector3(state.x, state.y, state.z),
           new THREE.Euler(0, state.r, 0)
         );
-        this.networkPlayer.setHealth(state.h);
+        networkPlayer.setHealth(state.h);
+        networkPlayer.setCharacterState({ crouching: state.c === 1, sprinting: state.u === 1, reloading: state.l === 1 });
         
         if (state.s === 1) {
-          this.networkPlayer.shoot();
+          networkPlayer.shoot();
         }
       }
     });
@@ -496,17 +621,22 @@ export class Game {
     this.multiplayerManager.onEvent((event: GameMessage) => {
       switch (event.t) {
         case 'hit':
-          // I got hit by opponent
-          this.player.takeDamage(event.d.damage);
-          // Visual damage feedback
-          
-          if (this.player.getHealth() <= 0) {
-            this.handleMyDeath();
-          }
+          // I got hit by opponent - death is handled via the playerDied event
+          this.simulation.damagePlayer({
+            amount: event.d.damage,
+            type: event.d.type ?? 'bullet',
+            hitZone: event.d.zone,
+            hitZoneMultiplier: event.d.zoneMultiplier,
+            weapon: event.d.weapon,
+            attacker: this.multiplayerManager
+              ? this.simulation.getRegistry().getByNetworkId(this.multiplayerManager.getOpponentId())
+              : undefined
+          });
           break;
           
         case 'death':
           // Opponent died (I killed them)
+          this.getNetworkPlayer()?.getAnimator().play('death');
           this.myKills++;
           this.updateMultiplayerScore();
           this.checkWinCondition();
@@ -514,13 +644,11 @@ export class Game {
           
         case 'respawn':
           // Opponent respawned
-          if (this.networkPlayer) {
-            this.networkPlayer.respawn(new THREE.Vector3(
-              event.d.x,
-              event.d.y,
-              event.d.z
-            ));
-          }
+          this.getNetworkPlayer()?.respawn(new THREE.Vector3(
+            event.d.x,
+            event.d.y,
+            event.d.z
+          ));
           break;
           
         case 'win':
@@ -536,17 +664,18 @@ export class Game {
     this.multiplayerManager?.sendDeath();
     
     // Respawn after delay
-    setTimeout(() => {
+    this.simulation.getScheduler().after(2, () => {
       const spawnPos = this.multiplayerManager?.getIsHost()
-        ? new THREE.Vector3(-20 + Math.random() * 10, 2, -20 + Math.random() * 10)
-        : new THREE.Vector3(20 + Math.random() * 10, 2, 20 + Math.random() * 10);
+        ? new THREE.Vector3(this.random.range(-20, -10), 2, this.random.range(-20, -10))
+        : new THREE.Vector3(this.random.range(20, 30), 2, this.random.range(20, 30));
       
       this.player.setPosition(spawnPos);
-      this.player.heal(100);
+      this.player.resetHealth();
+      this.simulation.getLoadout().reset();
       
       // Notify opponent of respawn
       this.multiplayerManager?.sendRespawn(spawnPos.x, spawnPos.y, spawnPos.z);
-    }, 2000);
+    }, 'player-respawn');
   }
 
   private updateMultiplayerScore(): void {
@@ -603,7 +732,10 @@ export class Game {
       z: Math.round(pos.z * 100) / 100,
       r: Math.round(yaw * 100) / 100,
       h: Math.round(this.player.getHealth()),
-      s: this.inputManager.isMouseDown ? 1 : 0
+      s: this.inputManager.isMouseDown ? 1 : 0,
+      c: this.player.isCrouchingState() ? 1 : 0,
+      u: this.player.isSprintingState() ? 1 : 0,
+      l: (this.useMultiWeapon ? this.multiWeapon.isReloadingState() : this.weapon.isReloadingState()) ? 1 : 0
     };
     
     this.multiplayerManager.sendState(state);
@@ -613,16 +745,23 @@ export class Game {
   private pause(): void {
     // Don't pause on mobile (no pointer lock)
     if (this.inputManager.isMobile) return;
-    this.isRunning = false;
+    this.simulation.pause();
+  }
+
+  private resume(): void {
+    this.simulation.resume();
   }
 
   private gameLoop(): void {
-    if (!this.isRunning) {
+    if (!this.isRunning || this.simulation.isPaused()) {
+      // Drop paused time so resuming doesn't replay it as a burst of steps
+      this.clock.getDelta();
+      this.accumulator = 0;
       requestAnimationFrame(() => this.gameLoop());
       return;
     }
 
-    const delta = Math.min(this.clock.getDelta(), 0.1);
+    const frameDelta = Math.min(this.clock.getDelta(), this.MAX_FRAME_DELTA);
     
     // Update mobile input each frame
     this.inputManager.updateMobileInput();
@@ -633,38 +772,67 @@ export class Game {
       this.player.applyMobileLook(lookDelta.x, lookDelta.y);
     }
 
-    // Check for vehicle interaction
-    this.handleVehicleInteraction();
+    // Advance the simulation in fixed steps
+    this.accumulator += frameDelta;
+    while (this.accumulator >= this.FIXED_DELTA) {
+      this.fixedUpdate(this.FIXED_DELTA);
+      this.accumulator -= this.FIXED_DELTA;
+    }
 
-    // Update player or vehicle
-    if (this.playerVehicle) {
-      // Player is in a vehicle - drive it (camera follows but look is free)
-      this.playerVehicle.drive(delta, this.inputManager, this.camera);
-    } else {
-      // Normal player movement
-      this.player.update(delta, this.inputManager, this.collisionManager);
+    // Render between the last two steps
+    const alpha = this.accumulator / this.FIXED_DELTA;
+    this.simulation.applyInterpolation(alpha);
+
+    // Send our state to the opponent in multiplayer
+    if (this.isMultiplayer) {
+      this.sendPlayerState();
     }
+    
+    // Update presentation-only systems
+    this.minimap.update(this.camera, this.simulation.getRegistry().query({ kind: 'enemy' }));
+    this.weatherSystem.update(frameDelta, this.camera.position);
+    this.particleSystem.update(frameDelta);
+    this.skySystem.update(frameDelta);
+
+    // Update HUD
+    this.updateHUD();
+
+    // Render
+    this.renderer.render(this.scene, this.camera);
+
+    this.simulation.restoreInterpolation();
+
+    requestAnimationFrame(() => this.gameLoop());
+  }
+
+  // One deterministic step of everything that affects the match
+  private fixedUpdate(realDelta: number): void {
+    // Renderer-side systems follow the simulation's slow motion too
+    const delta = realDelta * this.simulation.getTimeScale();
+
+    // Check for vehicle and weapon pickup interaction
+    this.handleInteraction();
 
     // Handle shooting (only when not in vehicle)
-    if (!this.playerVehicle && this.inputManager.isMouseDown) {
-      const canShoot = this.useMultiWeapon ? this.multiWeapon.canShoot() : this.weapon.canShoot();
-      
-      if (canShoot) {
-        if (this.useMultiWeapon) {
-          const projectileArray = this.multiWeapon.shoot();
-          projectileArray.forEach(p => this.projectiles.push(p));
-          if (projectileArray.length > 0) {
-            this.combatEffects.triggerScreenShake(0.3);
-            this.ambientSystem.playShootSound();
-          }
-        } else {
-          const projectile = this.weapon.shoot();
-          if (projectile) {
-            this.projectiles.push(projectile);
-            this.combatEffects.triggerScreenShake(0.3);
-            this.ambientSystem.playShootSound();
-          }
-        }
+    const triggerPulled = this.inputManager.consumeTriggerPull() && !this.playerVehicle;
+    const triggerHeld = this.inputManager.isMouseDown && !this.playerVehicle;
+    if (this.inputManager.consumeFireModeToggle() && this.useMultiWeapon && this.multiWeapon.cycleFireMode()) {
+      this.showWeaponNotification(this.multiWeapon.getFireModeName());
+    }
+    if (this.useMultiWeapon && !this.playerVehicle) {
+      // The weapon's fire mode decides what the trigger does
+      const projectileArray = this.multiWeapon.pullTrigger(triggerHeld, triggerPulled);
+      if (projectileArray.length > 0) {
+        this.simulation.addProjectiles(projectileArray);
+        this.combatEffects.triggerScreenShake(0.3);
+        this.ambientSystem.playShootSound(this.multiWeapon.getConfig().sounds.shoot);
+      }
+    } else if (triggerHeld && this.weapon.canShoot()) {
+      const projectile = this.weapon.shoot();
+      if (projectile) {
+        this.simulation.addProjectiles([projectile]);
+        this.combatEffects.triggerScreenShake(0.3);
+        this.ambientSystem.playShootSound();
       }
     }
 
@@ -676,35 +844,17 @@ export class Game {
         this.weapon.reload();
       }
       this.inputManager.isReloading = false;
-      this.ambientSystem.playReloadSound();
+      this.ambientSystem.playReloadSound(this.useMultiWeapon ? this.multiWeapon.getConfig().sounds.reload : undefined);
     }
 
-    // Update projectiles
-    this.updateProjectiles(delta);
+    // Step the simulation: player movement and every registered entity
+    // (enemies, projectiles, power-ups, vehicles, the remote player)
+    this.simulation.step(realDelta, this.playerVehicle ? undefined : this.inputManager);
 
-    // Update enemies (solo mode only)
-    if (!this.isMultiplayer) {
-      this.updateEnemies(delta);
-    }
-    
-    // Update network player in multiplayer
-    if (this.isMultiplayer && this.networkPlayer) {
-      this.networkPlayer.update(delta, this.camera.position);
-      this.checkMultiplayerHits();
-      this.sendPlayerState();
+    // Player is in a vehicle - drive it (camera follows but look is free)
+    if (this.playerVehicle) {
+      this.playerVehicle.drive(delta, this.inputManager, this.camera);
     }
-    
-    // Update grenades
-    this.grenadeSystem.update(delta, (x, z) => this.terrain.getHeightAt(x, z));
-    this.checkGrenadeExplosions();
-    
-    // Update power-ups
-    this.updatePowerUps();
-    
-    // Update enhanced systems
-    this.killstreakSystem.update(delta);
-    this.minimap.update(this.camera, this.enemies);
-    this.weatherSystem.update(delta, this.camera.position);
 
     // Update weapon (hide when in vehicle)
     if (this.playerVehicle) {
@@ -713,57 +863,18 @@ export class Game {
     } else {
       if (this.useMultiWeapon) {
         this.multiWeapon.show();
-        this.multiWeapon.update(delta, this.inputManager.isAiming);
+        this.multiWeapon.update(delta, this.inputManager.isAiming, this.player.isCrouchingState());
       } else {
         this.weapon.show();
         this.weapon.update(delta, this.inputManager.isAiming);
       }
     }
-
-    // Update world systems
-    this.helicopters.forEach(h => h.update(delta));
-    this.vehicles.forEach(v => v.update(delta));
-    this.particleSystem.update(delta);
-    this.skySystem.update(delta);
-
-    // Update HUD
-    this.updateHUD();
-
-    // Render
-    this.renderer.render(this.scene, this.camera);
-
-    requestAnimationFrame(() => this.gameLoop());
-  }
-
-  private checkMultiplayerHits(): void {
-    if (!this.networkPlayer || !this.isMultiplayer) return;
-    
-    const networkPos = this.networkPlayer.getPosition();
-    
-    // Check projectiles against network player
-    for (let i = this.projectiles.length - 1; i >= 0; i--) {
-      const proj = this.projectiles[i];
-      const projPos = proj.getPosition();
-      
-      // Simple distance check (hit radius)
-      const dist = projPos.distanceTo(networkPos);
-      if (dist < 1.5) { // Hit radius for player
-        // Send hit to opponent
-        this.multiplayerManager?.sendHit(proj.getDamage());
-        
-        // Remove projectile
-        proj.destroy();
-        this.projectiles.splice(i, 1);
-        
-        // Visual feedback
-        this.particleSystem.createExplosion(projPos);
-      }
-    }
   }
 
-  private handleVehicleInteraction(): void {
-    // Check if player pressed E to enter/exit vehicle
-    if (this.inputManager.consumeInteract()) {
+  private handleInteraction(): void {
+    // Check if player pressed E to enter/exit vehicle; a wrecked vehicle throws the player out
+    const interact = this.inputManager.consumeInteract();
+    if (interact || this.playerVehicle?.isWrecked()) {
       if (this.playerVehicle) {
         // Exit vehicle
         const exitPos = this.playerVehicle.exit();
@@ -771,9 +882,13 @@ export class Game {
         this.playerVehicle = null;
         this.nearbyVehicle = null;
       } else if (this.nearbyVehicle) {
-        // Enter vehicle
+        // Enter vehicle; a charge or burst in progress is dropped, not fired
         this.nearbyVehicle.enter();
+        this.multiWeapon.resetTrigger();
         this.playerVehicle = this.nearbyVehicle;
+      } else if (interact) {
+        // Swap for a weapon on the ground
+        this.simulation.pickUpWeapon();
       }
     }
 
@@ -782,7 +897,8 @@ export class Game {
       this.nearbyVehicle = null;
       const playerPos = this.player.getPosition();
       
-      for (const vehicle of this.vehicles) {
+      for (const vehicle of this.simulation.getRegistry().owners<Vehicle>('vehicle')) {
+        if (vehicle.isWrecked()) continue;
         const dist = playerPos.distanceTo(vehicle.getPosition());
         if (dist < 5) {
           this.nearbyVehicle = vehicle;
@@ -791,11 +907,10 @@ export class Game {
       }
     }
 
-    // Update vehicle prompt
-    this.updateVehiclePrompt();
+    this.updateInteractionPrompt();
   }
 
-  private updateVehiclePrompt(): void {
+  private updateInteractionPrompt(): void {
     let promptEl = document.getElementById('vehicle-prompt');
     
     if (!promptEl) {
@@ -819,173 +934,158 @@ export class Game {
       document.body.appendChild(promptEl);
     }
 
+    const pickup = this.simulation.getWeaponPickupInReach();
     if (this.playerVehicle) {
       promptEl.textContent = `Press E to exit ${this.playerVehicle.getTypeName()} | Q/Z: Up/Down | WASD: Move`;
       promptEl.style.display = 'block';
     } else if (this.nearbyVehicle) {
       promptEl.textContent = `Press E to enter ${this.nearbyVehicle.getTypeName()}`;
       promptEl.style.display = 'block';
+    } else if (pickup) {
+      const config = pickup.getConfig();
+      const replaced = this.simulation.getLoadout().getWeapon(config.slot);
+      promptEl.textContent = `Press E to pick up ${config.icon} ${config.name}` + (replaced ? ` (drops ${replaced.config.name})` : '');
+      promptEl.style.display = 'block';
     } else {
       promptEl.style.display = 'none';
     }
   }
 
-  private updateProjectiles(delta: number): void {
-    for (let i = this.projectiles.length - 1; i >= 0; i--) {
-      const projectile = this.projectiles[i];
-      projectile.update(delta);
-
-      if (projectile.isExpired()) {
-        projectile.destroy();
-        this.projectiles.splice(i, 1);
-        continue;
+  private handleSimulationEvent(event: SimulationEvent): void {
+    switch (event.type) {
+      case 'enemyHit': {
+        // Show hit marker and play sound
+        const critical = event.info.hitZone === 'head' || event.info.hitZone === 'weakPoint';
+        this.combatEffects.showHitMarker(critical);
+        this.ambientSystem.playHitSound(critical);
+        break;
       }
 
-      // Check collision with enemies
-      for (let j = this.enemies.length - 1; j >= 0; j--) {
-        const enemy = this.enemies[j];
-        
-        // Check for headshot
-        const projectilePos = projectile.getPosition();
-        const headPos = enemy.getHeadPosition();
-        const isHeadshot = projectilePos.distanceTo(headPos) < 0.4;
-        
-        if (this.collisionManager.checkProjectileHit(projectile, enemy)) {
-          enemy.takeDamage(projectile.damage, isHeadshot);
-          projectile.destroy();
-          this.projectiles.splice(i, 1);
-
-          // Show hit marker and play sound
-          this.combatEffects.showHitMarker(isHeadshot);
-          this.ambientSystem.playHitSound(isHeadshot);
-
-          if (enemy.isDead()) {
-            const points = isHeadshot ? 150 : 100;
-            const multiplier = this.killstreakSystem.getScoreMultiplier();
-            this.score += Math.floor(points * multiplier);
-            this.kills++;
-            
-            // Register kill for killstreak
-            this.killstreakSystem.registerKill();
-            
-            this.combatEffects.showKillPopup(Math.floor(points * multiplier), isHeadshot);
-            this.particleSystem.createExplosion(enemy.getPosition());
-            
-            // Check if boss was killed
-            const wasBoss = enemy.getType() === 'boss';
-            if (wasBoss) {
-              this.bossSpawned = false;
-              this.score += 500;
-              this.waveNumber++;
-            }
-            
-            enemy.destroy();
-            this.enemies.splice(j, 1);
-            
-            // Respawn enemy after delay
-            setTimeout(() => {
-              const angle = Math.random() * Math.PI * 2;
-              const distance = 35 + Math.random() * 25;
-              const types: EnemyType[] = ['rifle', 'smg', 'heavy'];
-              const type = types[Math.floor(Math.random() * types.length)];
-              const x = Math.cos(angle) * distance;
-              const z = Math.sin(angle) * distance;
-              const y = this.terrain.getHeightAt(x, z);
-              
-              const newEnemy = new Enemy(
-                this.scene,
-                new THREE.Vector3(x, y, z),
-                type
-              );
-              
-              // Give new enemy terrain and collision info
-              newEnemy.setTerrainHeightFunction((ex: number, ez: number) => this.terrain.getHeightAt(ex, ez));
-              newEnemy.setColliders(this.terrain.getColliders());
-              
-              this.enemies.push(newEnemy);
-              
-              // Spawn boss every 10 kills
-              if (this.kills > 0 && this.kills % 10 === 0 && !this.bossSpawned) {
-                this.spawnBoss();
-              }
-            }, 2000 + Math.random() * 2000);
+      case 'enemyKilled':
+        this.combatEffects.showKillPopup(event.points, event.info.hitZone);
+        this.particleSystem.createExplosion(event.enemy.getPosition());
+        break;
+
+      case 'bossSpawned':
+        this.playBossIntro(event.boss);
+        break;
+
+      case 'bossPhaseChanged':
+        // The first phase starts as the intro ends, which already announced the boss
+        if (event.index > 0) {
+          this.showWaveBanner(`PHASE ${event.index + 1}`, event.phase.name, '#ff3333');
+        }
+        break;
+
+      case 'bossAttack':
+        if (event.stage === 'telegraph') {
+          this.showBossCallout(BOSS_ATTACK_CALLOUTS[event.attack]);
+          if (event.radius > 0) {
+            this.particleSystem.createWarningRing(event.position, event.radius, event.duration);
           }
-          break;
+        } else if (event.attack === 'groundSlam') {
+          this.particleSystem.createExplosion(event.position);
+          this.combatEffects.triggerScreenShake(1.5);
         }
-      }
-    }
-  }
+        break;
 
-  private updateEnemies(delta: number): void {
-    this.enemies.forEach(enemy => {
-      enemy.update(delta, this.player.getPosition());
+      case 'waveStarted':
+        this.showWaveBanner(`WAVE ${event.wave.number}`, event.wave.name, event.wave.boss ? '#ff3333' : '#ffd166');
+        break;
 
-      const distance = enemy.getPosition().distanceTo(this.player.getPosition());
-      if (distance < 2 && enemy.canAttack()) {
-        this.player.takeDamage(enemy.getDamage());
-        enemy.attack();
-        this.combatEffects.flashDamageOverlay();
-        this.combatEffects.triggerScreenShake(0.5);
-      }
-    });
-  }
-  
-  private updatePowerUps(): void {
-    const playerPos = this.player.getPosition();
-    
-    for (let i = this.powerUps.length - 1; i >= 0; i--) {
-      const powerUp = this.powerUps[i];
-      powerUp.update(0.016);
-      
-      if (powerUp.checkCollision(playerPos)) {
-        this.collectPowerUp(powerUp);
-        powerUp.collect();
-        
-        // Respawn after delay
-        setTimeout(() => {
-          const angle = Math.random() * Math.PI * 2;
-          const distance = 25 + Math.random() * 40;
-          const types: PowerUpType[] = ['health', 'ammo', 'speed', 'shield', 'damage'];
-          const type = types[Math.floor(Math.random() * types.length)];
-          const x = Math.cos(angle) * distance;
-          const z = Math.sin(angle) * distance;
-          const y = this.terrain.getHeightAt(x, z);
-          
-          const newPowerUp = new PowerUp(this.scene, new THREE.Vector3(x, y, z), type);
-          this.powerUps.push(newPowerUp);
-        }, 15000);
-        
-        this.powerUps.splice(i, 1);
-      }
-    }
-  }
-  
-  private collectPowerUp(powerUp: PowerUp): void {
-    const type = powerUp.getType();
-    const value = powerUp.getValue();
-    
-    switch (type) {
-      case 'health':
-        this.player.heal(value);
+      case 'waveCleared':
+        this.showWaveBanner(`WAVE ${event.wave.number} CLEARED`, 'Get ready for the next wave', '#90ee90');
+        break;
+
+      case 'bossCommand':
+        this.showBossCallout(event.order === 'rally'
+          ? `BOSS RALLIES ${event.units.length} TROOPS`
+          : 'BOSS: "TARGET SPOTTED!"');
         break;
-      case 'ammo':
-        if (this.useMultiWeapon) {
-          this.multiWeapon.addAmmo(value);
+
+      case 'playerDamaged':
+        this.combatEffects.flashHitOverlay();
+        if (event.info.type === 'melee') {
+          this.combatEffects.flashDamageOverlay();
+          this.combatEffects.triggerScreenShake(0.5);
+        } else if (event.info.type === 'explosion') {
+          this.combatEffects.flashDamageOverlay();
+          this.combatEffects.triggerScreenShake(1);
         }
         break;
-      case 'speed':
-        this.player.applySpeedBoost(value);
+
+      case 'playerDied':
+        if (this.isMultiplayer) {
+          this.handleMyDeath();
+        } else {
+          this.showGameOver();
+        }
         break;
-      case 'shield':
-        this.player.addShield(value);
+
+      case 'enemyFired':
+        this.particleSystem.createMuzzleFlash(event.origin);
+        this.particleSystem.createTracer(event.origin, event.end);
         break;
-      case 'damage':
-        // Could apply damage boost
+
+      case 'projectileImpact':
+        // Entity hits have their own feedback (hit markers, blood, network)
+        if (!event.entity) {
+          this.particleSystem.createImpact(event.position, event.normal);
+        }
+        break;
+
+      case 'grenadeExploded':
+        this.particleSystem.createExplosion(event.position);
+        this.particleSystem.createExplosionLight(event.position);
+        break;
+
+      case 'powerUpCollected':
+        this.showPowerUpNotification(event.powerUp.getDescription());
+        this.ambientSystem.playPowerUpSound?.();
+        break;
+
+      case 'weaponPickedUp':
+        this.showWeaponNotification(`${event.weapon.icon} ${event.weapon.name}`);
+        this.ambientSystem.playReloadSound(event.weapon.sounds.reload);
+        break;
+
+      case 'ammoCollected':
+        this.showPowerUpNotification(`+${event.amount} ${WEAPONS.getAmmoType(event.weapon.ammoType).name}`);
         break;
     }
-    
-    this.showPowerUpNotification(powerUp.getDescription());
-    this.ambientSystem.playPowerUpSound?.();
+  }
+
+  private showGameOver(): void {
+    document.exitPointerLock();
+    const gameOver = document.createElement('div');
+    gameOver.innerHTML = `
+      <div style="
+        position: fixed;
+        top: 0;
+        left: 0;
+        width: 100%;
+        height: 100%;
+        background: rgba(0, 0, 0, 0.9);
+        display: flex;
+        flex-direction: column;
+        justify-content: center;
+        align-items: center;
+        z-index: 1000;
+        color: #fff;
+        font-family: Arial, sans-serif;
+      ">
+        <h1 style="font-size: 64px; color: #ff4444; margin-bottom: 20px;">GAME OVER</h1>
+        <button onclick="location.reload()" style="
+          padding: 15px 50px;
+          font-size: 24px;
+          background: #ff4444;
+          color: #fff;
+          border: none;
+          cursor: pointer;
+        ">Try Again</button>
+      </div>
+    `;
+    document.body.appendChild(gameOver);
   }
   
   private showPowerUpNotification(description: string): void {
@@ -1004,40 +1104,19 @@ export class Game {
     setTimeout(() => notification.remove(), 1000);
   }
   
-  private checkGrenadeExplosions(): void {
-    // Check if any grenades exploded and apply damage
-    const explodedGrenades = this.grenadeSystem.getActiveGrenades();
-    
-    explodedGrenades.forEach(grenade => {
-      const explosionPos = grenade.getPosition();
-      const radius = grenade.getExplosionRadius();
-      const baseDamage = grenade.getExplosionDamage();
-      
-      // Damage enemies in radius
-      this.enemies.forEach(enemy => {
-        const distance = enemy.getPosition().distanceTo(explosionPos);
-        if (distance < radius) {
-          const damage = baseDamage * (1 - distance / radius);
-          enemy.takeDamage(Math.floor(damage), false);
-          
-          if (enemy.isDead()) {
-            this.score += 75;
-            this.kills++;
-            this.killstreakSystem.registerKill();
-            this.combatEffects.showKillPopup(75, false);
-            this.particleSystem.createExplosion(enemy.getPosition());
-          }
-        }
-      });
-      
-      // Damage player if too close
-      const playerDist = this.player.getPosition().distanceTo(explosionPos);
-      if (playerDist < radius) {
-        const damage = baseDamage * 0.5 * (1 - playerDist / radius);
-        this.player.takeDamage(Math.floor(damage));
-        this.combatEffects.flashDamageOverlay();
-        this.combatEffects.triggerScreenShake(1);
-      }
+  // Opens the crosshair lines out to the weapon's current spread, so it
+  // widens while spraying and tightens when aiming or crouching
+  private updateCrosshair(): void {
+    if (!this.useMultiWeapon) return;
+    // Shots stray up to half the spread off the aim direction
+    const halfFov = THREE.MathUtils.degToRad(this.camera.fov / 2);
+    const target = CROSSHAIR_GAP + this.multiWeapon.getSpread() / 2 / Math.tan(halfFov) * window.innerHeight / 2;
+    this.crosshairGap += (target - this.crosshairGap) * 0.3;
+
+    const gap = `-${this.crosshairGap.toFixed(1)}px`;
+    (['top', 'bottom', 'left', 'right'] as const).forEach(side => {
+      const line = document.querySelector<HTMLElement>(`#crosshair .line.${side}`);
+      if (line) line.style[side] = gap;
     });
   }
 
@@ -1058,7 +1137,8 @@ export class Game {
 
     const healthText = document.getElementById('health-text');
     if (healthText) {
-      healthText.textContent = Math.ceil(this.player.getHealth()).toString();
+      const armor = Math.ceil(this.player.getArmor());
+      healthText.textContent = Math.ceil(this.player.getHealth()).toString() + (armor > 0 ? ` +${armor}` : '');
     }
 
     // Stamina bar
@@ -1089,16 +1169,31 @@ export class Game {
     }
 
     const scoreValue = document.getElementById('score-value');
-    if (scoreValue) scoreValue.textContent = this.score.toString();
+    if (scoreValue) scoreValue.textContent = this.simulation.getScore().toString();
 
     const killsValue = document.getElementById('kills-value');
-    if (killsValue) killsValue.textContent = this.kills.toString();
+    if (killsValue) killsValue.textContent = this.simulation.getKills().toString();
+
+    // Wave number, or the countdown to the next one
+    const waveValue = document.getElementById('wave-value');
+    if (waveValue) {
+      const director = this.simulation.getWaveDirector();
+      const countdown = Math.ceil(director.getIntermissionRemaining());
+      const wave = director.getWaveNumber();
+      waveValue.textContent = director.getPhase() === 'intermission' && countdown > 0
+        ? `${wave + 1} in ${countdown}s`
+        : wave > 0 ? wave.toString() : '-';
+    }
     
     // Update weapon name display
     this.updateWeaponDisplay();
+
+    this.updateCrosshair();
     
     // Update grenade count
     this.updateGrenadeHUD();
+
+    this.updateBossBar();
     
     // Update compass
     this.updateCompass();
@@ -1118,8 +1213,16 @@ export class Game {
       document.body.appendChild(weaponEl);
     }
     
+    // Every loadout slot with its number key; the one in hand is highlighted
     if (this.useMultiWeapon) {
-      weaponEl.textContent = this.multiWeapon.getCurrentWeaponName();
+      const loadout = this.simulation.getLoadout();
+      weaponEl.innerHTML = WEAPON_SLOTS.map((slot, index) => {
+        const weapon = loadout.getWeapon(slot);
+        const active = slot === loadout.getActiveSlot();
+        const mode = active && weapon && weapon.config.fireModes.length > 1 ? ` · ${this.multiWeapon.getFireModeName()}` : '';
+        const label = weapon ? `${weapon.config.icon} ${weapon.config.name}${mode}` : '-';
+        return `<div style="color: ${active ? '#aaddff' : '#667788'}; font-weight: ${active ? 'bold' : 'normal'};">${index + 1} ${label}</div>`;
+      }).join('');
     }
   }
   
@@ -0,0 +1,1028 @@
+import * as THREE from 'three';
+import { Player } from '../entities/Player';
+import { Enemy, EnemyBuff, EnemyScaling, EnemyType } from '../entities/Enemy';
+import { Projectile } from '../entities/Projectile';
+import { PowerUp, PowerUpType } from '../entities/PowerUp';
+import { Ragdoll } from '../entities/Ragdoll';
+import { WeaponPickup } from '../entities/WeaponPickup';
+import { Grenade, GrenadeSystem } from '../weapons/Grenade';
+import { DEFAULT_LOADOUT, Loadout, LoadoutSelection, WeaponDrop } from '../weapons/Loadout';
+import { AttachmentSelection } from '../weapons/Attachments';
+import { WeatherState } from './WeatherState';
+import { WEAPONS, WeaponConfig } from '../weapons/WeaponData';
+import { CollisionManager, SegmentHit } from '../utils/CollisionManager';
+import { KillstreakSystem } from '../utils/KillstreakSystem';
+import { InputManager } from '../utils/InputManager';
+import { Random } from '../utils/Random';
+import { RenderInterpolator } from './RenderInterpolator';
+import { Scheduler } from './Scheduler';
+import { NavGrid } from '../ai/NavGrid';
+import { CoverMap } from '../ai/CoverMap';
+import { Perception, SenseResult } from '../ai/Perception';
+import { SquadManager, SquadOrders } from '../ai/SquadManager';
+import { BOSS_DEFINITIONS, BossAttackType, BossController, BossDefinition, BossEvent, BossPhase } from '../ai/BossController';
+import { SpawnZone, WaveDirector, WaveInfo, WaveSpawn, WaveTable } from './WaveDirector';
+import { DEFAULT_WAVE_TABLE } from './WaveTable';
+import { DifficultyDirector, DifficultyPreset } from './DifficultyDirector';
+import { Entity, EntityRegistry } from '../entities/EntityRegistry';
+import { DamageInfo, DamageResult } from '../entities/Health';
+
+// The parts of the world the simulation needs. Terrain satisfies this,
+// headless runs can pass a flat stub instead.
+export interface SimulationWorld {
+  getHeightAt(x: number, z: number): number;
+  getColliders(): THREE.Box3[];
+  // Water is kept off the navigation grid
+  isWater?(x: number, z: number): boolean;
+  // Low props enemies use as cover
+  getCover?(): THREE.Box3[];
+}
+
+export type SimulationInput = Pick<InputManager, 'keys'>;
+
+export type SimulationEvent =
+  | { type: 'enemyHit'; enemy: Enemy; info: DamageInfo; result: DamageResult }
+  | { type: 'enemyKilled'; enemy: Enemy; points: number; info: DamageInfo }
+  | { type: 'bossSpawned'; enemy: Enemy; boss: BossDefinition }
+  | { type: 'bossPhaseChanged'; enemy: Enemy; phase: BossPhase; index: number }
+  // telegraph warns of the attack for duration seconds around position
+  // (radius 0 when it has no area); impact is when it lands
+  | { type: 'bossAttack'; enemy: Enemy; attack: BossAttackType; stage: 'telegraph' | 'impact'; position: THREE.Vector3; radius: number; duration: number }
+  | { type: 'waveStarted'; wave: WaveInfo }
+  | { type: 'waveCleared'; wave: WaveInfo }
+  | { type: 'playerDamaged'; info: DamageInfo; result: DamageResult }
+  | { type: 'playerDied' }
+  | { type: 'grenadeExploded'; position: THREE.Vector3 }
+  | { type: 'projectileImpact'; position: THREE.Vector3; normal: THREE.Vector3; entity: Entity | null }
+  // Hitscan shot from an enemy weapon; end is where it stopped
+  | { type: 'enemyFired'; enemy: Enemy; origin: THREE.Vector3; end: THREE.Vector3 }
+  // The boss marked the player for (callout) or buffed (rally) the units near it
+  | { type: 'bossCommand'; enemy: Enemy; order: 'callout' | 'rally'; units: Enemy[] }
+  | { type: 'powerUpCollected'; powerUp: PowerUp }
+  // replaced is the weapon left on the ground in its place, if any
+  | { type: 'weaponPickedUp'; weapon: WeaponConfig; replaced: WeaponConfig | null }
+  | { type: 'ammoCollected'; weapon: WeaponConfig; amount: number };
+
+export type SimulationEventCallback = (event: SimulationEvent) => void;
+
+export interface GameSimulationOptions {
+  camera?: THREE.PerspectiveCamera;
+  killstreakSystem?: KillstreakSystem;
+  // Shared RNG; pass the same seeded instance used to build the world
+  random?: Random;
+  // Solo mode waves; defaults to DEFAULT_WAVE_TABLE
+  waveTable?: WaveTable;
+  difficulty?: DifficultyPreset;
+  // Seconds a dead enemy's ragdoll stays before sinking away; defaults to CORPSE_LIFETIME
+  corpseLifetime?: number;
+  // Starting weapons; defaults to DEFAULT_LOADOUT
+  loadout?: LoadoutSelection;
+  // Attachments on the starting weapons; none by default
+  attachments?: AttachmentSelection;
+}
+
+// Audible radius of noises enemies react to
+const GUNSHOT_NOISE_RADIUS = 50;
+const EXPLOSION_NOISE_RADIUS = 80;
+// Enemies within this distance of one that spots the player are told where they are
+const SQUAD_ALERT_RADIUS = 25;
+// Detection level an alerted enemy starts at, so it notices the player quickly
+const ALERT_DETECTION = 0.8;
+// Grenadiers only throw at targets this far away
+const ENEMY_GRENADE_MIN_RANGE = 8;
+const ENEMY_GRENADE_MAX_RANGE = 25;
+// Grenadiers fire high arcs that come down on the target
+const GRENADIER_THROW_ANGLE = Math.PI / 3;
+// The boss commands enemies within this distance
+const BOSS_COMMAND_RADIUS = 30;
+const BOSS_RALLY_INTERVAL = 12;
+const BOSS_RALLY_DURATION = 6;
+const BOSS_RALLY_BUFF: EnemyBuff = { damage: 1.3, fireRate: 1.3, speed: 1.2 };
+const BOSS_DEFINITION = BOSS_DEFINITIONS.warlord;
+// Reinforcements appear within this distance of the boss
+const BOSS_SUMMON_RADIUS = 6;
+// Seconds a dropped power-up stays on the ground
+const POWERUP_DROP_LIFETIME = 20;
+const POWERUP_TYPES: PowerUpType[] = ['health', 'ammo', 'speed', 'shield', 'damage'];
+const CORPSE_LIFETIME = 15;
+// Oldest corpses are cleared first once there are more than this
+const MAX_CORPSES = 12;
+// Corpses sink this far into the ground over the last CORPSE_SINK_TIME seconds
+const CORPSE_SINK_TIME = 1.5;
+const CORPSE_SINK_DEPTH = 1;
+// Launch speed of corpses caught in a later explosion, at its centre
+const CORPSE_BLAST_SPEED = 10;
+// Chance a killed enemy leaves its weapon behind, and how long it stays
+const WEAPON_DROP_CHANCE = 0.3;
+const WEAPON_DROP_LIFETIME = 30;
+// Share of a full magazine a dropped enemy weapon still has loaded
+const WEAPON_DROP_MIN_MAGAZINE = 0.3;
+
+// The boss encounter in progress
+interface BossEncounter {
+  entity: Entity<Enemy>;
+  controller: BossController;
+  // Where the current attack was aimed when it was telegraphed
+  target: THREE.Vector3;
+  // Minigun sweep progress
+  sweepTime: number;
+  sweepShots: number;
+}
+
+// Combat, wave and scoring state of a match, stepped with an explicit delta.
+// Has no renderer or DOM dependencies so it can run under Node. All randomness
+// comes from the injected Random, so a seed plus the input stream fully
+// determines the match when stepped with a fixed delta.
+export class GameSimulation {
+  private scene: THREE.Scene;
+  private world: SimulationWorld;
+  private random: Random;
+  private scheduler = new Scheduler();
+  private registry = new EntityRegistry();
+  private interpolator = new RenderInterpolator();
+  private player: Player;
+  private playerEntity: Entity<Player>;
+  private collisionManager: CollisionManager;
+  private navGrid: NavGrid;
+  private coverMap: CoverMap;
+  private perception: Perception;
+  private squads: SquadManager;
+  private waveDirector: WaveDirector;
+  private difficulty: DifficultyDirector;
+  private killstreakSystem: KillstreakSystem;
+  private grenadeSystem: GrenadeSystem;
+  private listeners: SimulationEventCallback[] = [];
+  // Enemy-thrown grenades and who threw them; the rest are the player's
+  private grenadeThrowers = new Map<Grenade, Entity<Enemy>>();
+  private bossRallyCooldown = 0;
+  private boss: BossEncounter | null = null;
+  private droppedPowerUps = new Set<PowerUp>();
+  private corpseLifetime: number;
+  private loadout: Loadout;
+  private weather: WeatherState;
+
+  private tick = 0;
+  private score = 0;
+  private kills = 0;
+
+  constructor(scene: THREE.Scene, world: SimulationWorld, options: GameSimulationOptions = {}) {
+    this.scene = scene;
+    this.world = world;
+    this.random = options.random ?? new Random();
+    this.corpseLifetime = options.corpseLifetime ?? CORPSE_LIFETIME;
+    this.loadout = new Loadout(options.loadout ?? DEFAULT_LOADOUT, options.attachments);
+    this.weather = new WeatherState(this.random);
+    this.player = new Player(options.camera ?? new THREE.PerspectiveCamera(), this.scheduler);
+    this.killstreakSystem = options.killstreakSystem ?? new KillstreakSystem(false);
+    this.collisionManager = new CollisionManager();
+    world.getColliders().forEach(box => {
+      this.collisionManager.addCollider(box.clone());
+    });
+    this.navGrid = new NavGrid(world, this.collisionManager);
+    this.coverMap = new CoverMap(world.getCover?.() ?? [], this.navGrid);
+    this.perception = new Perception(this.collisionManager);
+    this.squads = new SquadManager(this.random);
+    this.difficulty = new DifficultyDirector(options.difficulty);
+    this.waveDirector = new WaveDirector(options.waveTable ?? DEFAULT_WAVE_TABLE, this.random, {
+      spawn: (spawn) => this.spawnWaveEnemy(spawn),
+      aliveCount: () => this.registry.query({ kind: 'enemy' }).length,
+      onWaveStarted: (wave) => this.emit({ type: 'waveStarted', wave }),
+      onWaveCleared: (wave) => this.emit({ type: 'waveCleared', wave })
+    });
+    this.grenadeSystem = new GrenadeSystem(scene, this.collisionManager);
+
+    // Connect player to terrain for ground collision
+    this.player.setTerrainHeightFunction((x: number, z: number) => this.world.getHeightAt(x, z));
+
+    // The player is stepped with input in step(), so it has no update hook
+    this.playerEntity = this.registry.spawn({
+      kind: 'player',
+      owner: this.player,
+      object: this.player.getCamera(),
+      team: 'player',
+      health: this.player.getHealthComponent(),
+      collider: this.player,
+      onDamage: (info, result) => this.onPlayerDamaged(info, result)
+    });
+  }
+
+  public onEvent(callback: SimulationEventCallback): void {
+    this.listeners.push(callback);
+  }
+
+  private emit(event: SimulationEvent): void {
+    this.listeners.forEach(listener => listener(event));
+  }
+
+  // Advance the match by delta seconds of real time, scaled by the time scale.
+  // Without input the player stands still (e.g. while driving a vehicle, which
+  // the renderer side controls). Does nothing while paused.
+  public step(realDelta: number, input?: SimulationInput): void {
+    if (this.scheduler.isPaused()) return;
+
+    this.interpolator.capture(this.getMovingObjects());
+    const delta = this.scheduler.advance(realDelta);
+    this.tick++;
+    this.perception.beginStep();
+    this.weather.update(delta);
+    // Fog shortens how far enemies can see
+    this.perception.setVisibility(this.weather.getVisibility());
+
+    if (input) {
+      this.player.update(delta, input, this.collisionManager);
+    }
+
+    const health = this.player.getHealthComponent();
+    this.difficulty.update(delta, {
+      healthFraction: health.getHealth() / health.getMaxHealth(),
+      killStreak: this.killstreakSystem.getKillStreak()
+    });
+    this.waveDirector.setSpawnRateMultiplier(this.difficulty.getSpawnRateMultiplier());
+
+    // Enemies, projectiles, power-ups and anything else registered
+    this.waveDirector.update(delta);
+    this.squads.update(delta, this.player.getPosition());
+    this.registry.update(delta);
+
+    this.updateGrenades(delta);
+    this.checkPowerUpPickups();
+    this.checkWeaponPickups();
+    this.killstreakSystem.update(delta);
+  }
+
+  // Solo mode: run the wave table from the first wave
+  public startWaves(): void {
+    this.waveDirector.start();
+  }
+
+  private spawnWaveEnemy(spawn: WaveSpawn): void {
+    const type = this.difficulty.adjustEnemyType(spawn.type, this.random);
+    const entity = this.spawnEnemy(type, this.pickSpawnPoint(spawn.zone), spawn.scaling);
+    if (type === 'boss') {
+      this.bossRallyCooldown = BOSS_RALLY_INTERVAL / 2;
+      this.boss = {
+        entity,
+        controller: new BossController(BOSS_DEFINITION, this.random),
+        target: new THREE.Vector3(),
+        sweepTime: 0,
+        sweepShots: 0
+      };
+      this.emit({ type: 'bossSpawned', enemy: entity.owner, boss: BOSS_DEFINITION });
+    }
+  }
+
+  // Random walkable point in the zone, or its centre if none turns up
+  private pickSpawnPoint(zone: SpawnZone): THREE.Vector3 {
+    let x = zone.x;
+    let z = zone.z;
+    for (let attempt = 0; attempt < 8; attempt++) {
+      const angle = this.random.range(0, Math.PI * 2);
+      const distance = Math.sqrt(this.random.next()) * zone.radius;
+      const px = zone.x + Math.cos(angle) * distance;
+      const pz = zone.z + Math.sin(angle) * distance;
+      if (this.navGrid.isWalkable(px, pz)) {
+        x = px;
+        z = pz;
+        break;
+      }
+    }
+    return new THREE.Vector3(x, this.world.getHeightAt(x, z), z);
+  }
+
+  private spawnEnemy(type: EnemyType, position: THREE.Vector3, scaling?: EnemyScaling): Entity<Enemy> {
+    const enemy = new Enemy(this.scene, position, type, this.random, this.scheduler, scaling);
+
+    // Give enemy terrain and collision info
+    enemy.setTerrainHeightFunction((ex: number, ez: number) => this.world.getHeightAt(ex, ez));
+    enemy.setCollisionManager(this.collisionManager);
+    enemy.setNavigation(this.navGrid, this.coverMap);
+
+    const entity: Entity<Enemy> = this.registry.spawn({
+      kind: 'enemy',
+      owner: enemy,
+      object: enemy.getMesh(),
+      team: 'enemy',
+      health: enemy.getHealthComponent(),
+      collider: enemy,
+      update: (delta) => this.updateEnemy(entity, delta),
+      onDamage: (info, result) => this.onEnemyDamaged(entity, info, result),
+      onDestroy: () => {
+        if (this.boss?.entity === entity) this.boss = null;
+        this.perception.forget(enemy);
+        this.squads.leave(enemy);
+        enemy.destroy();
+      }
+    });
+
+    const role = enemy.getSquadRole();
+    if (role) this.squads.join(enemy, role);
+    return entity;
+  }
+
+  // Remove all AI enemies and stop spawning new ones (1v1 multiplayer)
+  public clearEnemies(): void {
+    this.waveDirector.stop();
+    this.registry.query({ kind: 'enemy' }).forEach(e => this.registry.destroy(e));
+  }
+
+  public spawnPowerUp(type: PowerUpType, position: THREE.Vector3): void {
+    const powerUp = new PowerUp(this.scene, position, type);
+    this.registry.spawn({
+      kind: 'powerUp',
+      owner: powerUp,
+      object: powerUp.getMesh(),
+      update: (delta) => powerUp.update(delta)
+    });
+  }
+
+  // Power-up left by a killed enemy; it vanishes after a while and isn't replaced
+  private dropPowerUp(position: THREE.Vector3): void {
+    const powerUp = new PowerUp(this.scene, position, this.random.pick(POWERUP_TYPES));
+    const expiresAt = this.scheduler.getTime() + POWERUP_DROP_LIFETIME;
+    this.droppedPowerUps.add(powerUp);
+    this.registry.spawn({
+      kind: 'powerUp',
+      owner: powerUp,
+      object: powerUp.getMesh(),
+      update: (delta) => powerUp.update(delta),
+      isExpired: () => this.scheduler.getTime() >= expiresAt,
+      onDestroy: () => {
+        this.droppedPowerUps.delete(powerUp);
+        if (!powerUp.isCollected()) powerUp.destroy();
+      }
+    });
+  }
+
+  // Projectiles fired by the player; they damage anything not on the player's team
+  public addProjectiles(projectiles: Projectile[]): void {
+    if (projectiles.length > 0) this.perception.makeNoise(this.player.getPosition(), GUNSHOT_NOISE_RADIUS);
+    this.difficulty.recordShots(projectiles.length);
+
+    projectiles.forEach(projectile => {
+      const entity: Entity<Projectile> = this.registry.spawn({
+        kind: 'projectile',
+        owner: projectile,
+        object: projectile.getMesh(),
+        team: 'player',
+        update: (delta) => this.updateProjectile(entity, delta),
+        isExpired: () => projectile.isExpired(),
+        onDestroy: () => projectile.destroy()
+      });
+    });
+  }
+
+  public throwGrenade(position: THREE.Vector3, direction: THREE.Vector3, throwForce: number): boolean {
+    return this.grenadeSystem.throwGrenade(position, direction, throwForce);
+  }
+
+  public damagePlayer(info: DamageInfo): void {
+    this.registry.damage(this.playerEntity, info);
+  }
+
+  private onPlayerDamaged(info: DamageInfo, result: DamageResult): void {
+    // Hits on a dead player (or fully resisted ones) change nothing
+    const damage = result.healthDamage + result.armorDamage;
+    if (damage === 0 && !result.killed) return;
+    this.difficulty.recordDamageTaken(damage, this.player.getHealthComponent().getMaxHealth());
+    this.emit({ type: 'playerDamaged', info, result });
+
+    if (result.killed) {
+      this.emit({ type: 'playerDied' });
+    }
+  }
+
+  // Moves a projectile and sweeps the segment it covered against the world
+  // and any entity with health and a collider on another team. The first
+  // thing hit stops it; damage goes to the target's health via the registry.
+  private updateProjectile(entity: Entity<Projectile>, delta: number): void {
+    const projectile = entity.owner;
+    projectile.update(delta, this.weather.getWind());
+
+    const start = projectile.getPreviousPosition();
+    const end = projectile.getPosition();
+    const targets = this.registry.query({ notTeam: entity.team, with: ['health', 'collider'] });
+    const hit = this.collisionManager.sweepSegment(start, end, targets) ?? this.sweepGround(start, end);
+    if (!hit) return;
+
+    this.registry.destroy(entity);
+    // A shield hit sparks like a wall hit
+    this.emit({ type: 'projectileImpact', position: hit.point, normal: hit.normal, entity: hit.blocked ? null : hit.entity });
+
+    const target = hit.entity;
+    if (!target) return;
+    if (hit.blocked) {
+      // No damage, but the bearer knows where it came from
+      const bearer = this.registry.get<Enemy>(target.id, 'enemy');
+      if (bearer) this.alertEnemy(bearer.owner, this.player.getPosition());
+      return;
+    }
+    if (target.kind === 'enemy') this.difficulty.recordHit();
+
+    this.registry.damage(target, {
+      amount: projectile.getDamageAt(hit.point),
+      type: 'bullet',
+      attacker: this.playerEntity,
+      weapon: projectile.weapon,
+      hitZone: hit.hitZone,
+      hitZoneMultiplier: hit.hitZone ? projectile.hitZoneMultipliers[hit.hitZone] : undefined,
+      position: hit.point
+    });
+  }
+
+  // Where the segment dips below the terrain surface, if it does
+  private sweepGround(start: THREE.Vector3, end: THREE.Vector3): SegmentHit | null {
+    const endClearance = end.y - this.world.getHeightAt(end.x, end.z);
+    if (endClearance >= 0) return null;
+
+    const startClearance = start.y - this.world.getHeightAt(start.x, start.z);
+    const t = startClearance > 0 ? startClearance / (startClearance - endClearance) : 0;
+    const point = start.clone().lerp(end, t);
+    point.y = this.world.getHeightAt(point.x, point.z);
+
+    return {
+      point,
+      normal: new THREE.Vector3(0, 1, 0),
+      distance: start.distanceTo(point),
+      entity: null
+    };
+  }
+
+  private onEnemyDamaged(entity: Entity<Enemy>, info: DamageInfo, result: DamageResult): void {
+    const enemy = entity.owner;
+    enemy.handleDamage(result);
+    // Getting shot gives away where the shooter is
+    if (info.attacker) this.alertEnemy(enemy, info.attacker.object.position);
+
+    if (info.type === 'bullet') {
+      this.emit({ type: 'enemyHit', enemy, info, result });
+    }
+
+    if (result.killed) {
+      // Kill credit only goes to the player
+      if (info.attacker === this.playerEntity) {
+        const critical = info.hitZone === 'head' || info.hitZone === 'weakPoint';
+        const points = info.type === 'explosion' ? 75 : critical ? 150 : 100;
+        this.registerKill(enemy, points, info);
+      }
+      this.spawnCorpse(enemy, info);
+      this.dropEnemyWeapon(enemy);
+      this.registry.destroy(entity);
+    }
+  }
+
+  // Leaves the enemy's body as a ragdoll, knocked about by the killing blow
+  private spawnCorpse(enemy: Enemy, info: DamageInfo): void {
+    const corpses = this.registry.query({ kind: 'corpse' });
+    if (corpses.length >= MAX_CORPSES) {
+      corpses.slice(0, corpses.length - MAX_CORPSES + 1).forEach(corpse => this.registry.destroy(corpse));
+    }
+
+    const ragdoll = enemy.createRagdoll((x, z) => this.world.getHeightAt(x, z));
+    ragdoll.applyHit(info);
+    const expiresAt = this.scheduler.getTime() + this.corpseLifetime;
+    this.registry.spawn({
+      kind: 'corpse',
+      owner: ragdoll,
+      object: ragdoll.getObject(),
+      update: (delta) => {
+        ragdoll.update(delta);
+        const remaining = expiresAt - this.scheduler.getTime();
+        if (remaining < CORPSE_SINK_TIME) ragdoll.sink((1 - remaining / CORPSE_SINK_TIME) * CORPSE_SINK_DEPTH);
+      },
+      isExpired: () => this.scheduler.getTime() >= expiresAt,
+      onDestroy: () => ragdoll.dispose()
+    });
+  }
+
+  private dropEnemyWeapon(enemy: Enemy): void {
+    const id = enemy.getWeaponDrop();
+    if (!id || !this.random.chance(WEAPON_DROP_CHANCE)) return;
+    const config = WEAPONS.get(id);
+    const magazine = Math.ceil(config.maxAmmo * this.random.range(WEAPON_DROP_MIN_MAGAZINE, 1));
+    // Comes with one spare magazine
+    this.spawnWeaponPickup({ weapon: id, magazine, reserve: config.maxAmmo }, enemy.getPosition());
+  }
+
+  private spawnWeaponPickup(drop: WeaponDrop, position: THREE.Vector3): void {
+    const pickup = new WeaponPickup(this.scene, new THREE.Vector3(position.x, this.world.getHeightAt(position.x, position.z), position.z), drop);
+    const expiresAt = this.scheduler.getTime() + WEAPON_DROP_LIFETIME;
+    this.registry.spawn({
+      kind: 'weaponPickup',
+      owner: pickup,
+      object: pickup.getMesh(),
+      update: (delta) => pickup.update(delta),
+      isExpired: () => this.scheduler.getTime() >= expiresAt,
+      onDestroy: () => pickup.destroy()
+    });
+  }
+
+  private registerKill(enemy: Enemy, basePoints: number, info: DamageInfo): void {
+    const points = Math.floor(basePoints * this.killstreakSystem.getScoreMultiplier());
+    this.score += points;
+    this.kills++;
+
+    // Register kill for killstreak
+    this.killstreakSystem.registerKill();
+    this.difficulty.recordKill();
+    if (this.random.chance(this.difficulty.getDropChance())) {
+      this.dropPowerUp(enemy.getPosition());
+    }
+    this.emit({ type: 'enemyKilled', enemy, points, info });
+
+    // Bonus for killing the boss
+    if (enemy.getType() === 'boss') {
+      this.score += 500;
+    }
+  }
+
+  private updateEnemy(entity: Entity<Enemy>, delta: number): void {
+    const enemy = entity.owner;
+    const playerPos = this.player.getPosition();
+    // A dead player can't be sensed or attacked; enemies just go on moving
+    if (this.player.getHealthComponent().isDead()) {
+      this.moveEnemy(enemy, delta, false);
+      return;
+    }
+
+    const sense = this.perception.sense(
+      enemy,
+      delta,
+      { eye: enemy.getEyePosition(), forward: enemy.getForward(), senses: enemy.getSenses() },
+      { position: playerPos, crouching: this.player.isCrouchingState() }
+    );
+    if (sense.heard) enemy.alert(sense.heard);
+    if (sense.suspicious) enemy.alert(playerPos);
+    if (sense.spotted) this.alertSquad(enemy, playerPos);
+    if (this.boss?.entity === entity) this.updateBoss(this.boss, sense, delta);
+
+    const orders = this.moveEnemy(enemy, delta, sense.canSee);
+
+    const distance = enemy.getPosition().distanceTo(playerPos);
+    const grenadeRange = distance >= ENEMY_GRENADE_MIN_RANGE && distance <= ENEMY_GRENADE_MAX_RANGE;
+    if (orders?.mayThrowGrenade && sense.canSee && grenadeRange && enemy.canAttack()) {
+      this.throwEnemyGrenade(entity, playerPos);
+    } else if (distance < 2 && enemy.canAttack()) {
+      this.damagePlayer({
+        amount: enemy.getMeleeDamage(),
+        type: 'melee',
+        attacker: entity,
+        position: enemy.getPosition()
+      });
+      enemy.attack();
+    } else if (enemy.canFire()) {
+      if (enemy.getAttackMode() === 'grenade') {
+        if (distance >= ENEMY_GRENADE_MIN_RANGE) this.fireGrenadeLauncher(entity, distance);
+      } else {
+        this.fireEnemyWeapon(entity, distance);
+      }
+    }
+  }
+
+  // Runs the enemy's own movement AI and returns its squad orders, if any.
+  // Squad members regroup with their squad, loners with anyone.
+  private moveEnemy(enemy: Enemy, delta: number, canSeeTarget: boolean): SquadOrders | null {
+    const orders = this.squads.getOrders(enemy);
+    const allies = (orders ? this.squads.getSquadmates(enemy) : this.registry.owners<Enemy>('enemy'))
+      .filter(other => other !== enemy)
+      .map(other => other.getPosition());
+    enemy.update(delta, { targetPosition: this.player.getPosition(), canSeeTarget, allies, orders });
+    return orders;
+  }
+
+  // Points an enemy at a position and primes it to spot the player there
+  private alertEnemy(enemy: Enemy, position: THREE.Vector3): void {
+    enemy.alert(position);
+    this.perception.raiseDetection(enemy, ALERT_DETECTION);
+  }
+
+  // Passes a sighting on to the spotter's squad and any other enemies nearby
+  private alertSquad(spotter: Enemy, position: THREE.Vector3): void {
+    const squadmates = this.squads.getSquadmates(spotter);
+    this.registry.owners<Enemy>('enemy').forEach(other => {
+      if (other === spotter) return;
+      const nearby = other.getPosition().distanceTo(spotter.getPosition()) <= SQUAD_ALERT_RADIUS;
+      if (nearby || squadmates.includes(other)) this.alertEnemy(other, position);
+    });
+  }
+
+  // Runs the boss's phases and special attacks alongside its normal AI
+  private updateBoss(boss: BossEncounter, sense: SenseResult, delta: number): void {
+    const enemy = boss.entity.owner;
+    const health = enemy.getHealthComponent();
+    const events = boss.controller.update(delta, {
+      healthFraction: health.getHealth() / health.getMaxHealth(),
+      targetDistance: enemy.getPosition().distanceTo(this.player.getPosition()),
+      canSeeTarget: sense.canSee
+    });
+    events.forEach(event => this.handleBossEvent(boss, event));
+
+    enemy.setBusy(boss.controller.isBusy());
+    const attack = boss.controller.getAttack();
+    if (attack?.type === 'minigunSweep') this.updateSweep(boss, attack.stage === 'active' ? delta : 0);
+
+    // Troops only take orders once the intro is over
+    if (!boss.controller.isIntro()) this.commandTroops(boss.entity, sense, delta);
+  }
+
+  private handleBossEvent(boss: BossEncounter, event: BossEvent): void {
+    const enemy = boss.entity.owner;
+    const definition = boss.controller.getDefinition();
+
+    switch (event.type) {
+      case 'phase':
+        enemy.setSpeedMultiplier(event.phase.speedMultiplier);
+        this.emit({ type: 'bossPhaseChanged', enemy, phase: event.phase, index: event.index });
+        break;
+
+      case 'telegraph': {
+        boss.target = this.player.getPosition();
+        boss.sweepTime = 0;
+        boss.sweepShots = 0;
+        // Barrages land around where the player was standing, the rest are centred on the boss
+        const position = event.attack === 'grenadeBarrage' ? boss.target.clone() : enemy.getPosition();
+        const radius = event.attack === 'groundSlam' ? definition.groundSlam.radius
+          : event.attack === 'grenadeBarrage' ? definition.grenadeBarrage.scatter
+          : event.attack === 'summonAdds' ? BOSS_SUMMON_RADIUS
+          : 0;
+        if (event.attack === 'minigunSweep') this.updateSweep(boss, 0);
+        this.emit({ type: 'bossAttack', enemy, attack: event.attack, stage: 'telegraph', position, radius, duration: event.duration });
+        break;
+      }
+
+      case 'attack':
+        this.performBossAttack(boss, event.attack);
+        break;
+
+      case 'attackEnd':
+        enemy.setAimOverride(null);
+        break;
+    }
+  }
+
+  private performBossAttack(boss: BossEncounter, attack: BossAttackType): void {
+    const entity = boss.entity;
+    const enemy = entity.owner;
+    const definition = boss.controller.getDefinition();
+    const duration = definition.timing[attack].duration;
+    let position = enemy.getPosition();
+    let radius = 0;
+
+    switch (attack) {
+      case 'groundSlam': {
+        // Radial damage with falloff to everything nearby not on the boss's team
+        const { radius: slamRadius, damage } = definition.groundSlam;
+        radius = slamRadius;
+        this.perception.makeNoise(position, EXPLOSION_NOISE_RADIUS);
+        this.registry.query({ notTeam: entity.team, with: ['health'] }).forEach(target => {
+          const distance = target.object.position.distanceTo(position);
+          if (distance >= slamRadius) return;
+          this.registry.damage(target, {
+            amount: Math.floor(damage * (1 - 0.5 * distance / slamRadius)),
+            type: 'explosion',
+            attacker: entity,
+            weapon: 'Ground Slam',
+            position
+          });
+        });
+        break;
+      }
+
+      case 'minigunSweep':
+        radius = enemy.getAttackRange() * 1.5;
+        break;
+
+      case 'summonAdds': {
+        radius = BOSS_SUMMON_RADIUS;
+        const { count, types } = definition.summonAdds;
+        for (let i = 0; i < count; i++) {
+          const spawnPoint = this.pickSpawnPoint({ x: position.x, z: position.z, radius: BOSS_SUMMON_RADIUS });
+          const add = this.spawnEnemy(this.random.pick(types), spawnPoint);
+          this.alertEnemy(add.owner, this.player.getPosition());
+        }
+        break;
+      }
+
+      case 'grenadeBarrage': {
+        const { count, scatter } = definition.grenadeBarrage;
+        position = boss.target.clone();
+        radius = scatter;
+        // Spread the throws over the attack so they land one after another
+        for (let i = 0; i < count; i++) {
+          const angle = this.random.range(0, Math.PI * 2);
+          const distance = Math.sqrt(this.random.next()) * scatter;
+          const landing = position.clone().add(new THREE.Vector3(Math.cos(angle) * distance, 0, Math.sin(angle) * distance));
+          this.scheduler.after((i / count) * duration, () => {
+            if (entity.alive) this.lobGrenade(entity, landing);
+          }, 'boss-barrage');
+        }
+        break;
+      }
+    }
+
+    this.emit({ type: 'bossAttack', enemy, attack, stage: 'impact', position, radius, duration });
+  }
+
+  // Swings the minigun across an arc centred on where the player was when
+  // the sweep was telegraphed, firing at the sweep's own rate
+  private updateSweep(boss: BossEncounter, delta: number): void {
+    const enemy = boss.entity.owner;
+    const { arc, fireRate } = boss.controller.getDefinition().minigunSweep;
+    const duration = boss.controller.getDefinition().timing.minigunSweep.duration;
+    boss.sweepTime += delta;
+
+    const origin = enemy.getPosition();
+    const bearing = Math.atan2(boss.target.x - origin.x, boss.target.z - origin.z);
+    const angle = bearing - arc / 2 + arc * Math.min(1, boss.sweepTime / duration);
+    enemy.setAimOverride(new THREE.Vector3(Math.sin(angle), -0.05, Math.cos(angle)));
+
+    const distance = origin.distanceTo(boss.target);
+    const due = Math.floor(boss.sweepTime * fireRate);
+    while (boss.sweepShots < due) {
+      boss.sweepShots++;
+      this.fireEnemyWeapon(boss.entity, distance);
+    }
+  }
+
+  // The boss calls out the player's position when it spots them and
+  // periodically rallies nearby troops while it can see the player
+  private commandTroops(entity: Entity<Enemy>, sense: SenseResult, delta: number): void {
+    const boss = entity.owner;
+    const playerPos = this.player.getPosition();
+    const units = this.registry.owners<Enemy>('enemy').filter(other =>
+      other !== boss && other.getPosition().distanceTo(boss.getPosition()) <= BOSS_COMMAND_RADIUS
+    );
+
+    if (sense.spotted && units.length > 0) {
+      units.forEach(unit => this.alertEnemy(unit, playerPos));
+      this.emit({ type: 'bossCommand', enemy: boss, order: 'callout', units });
+    }
+
+    this.bossRallyCooldown = Math.max(0, this.bossRallyCooldown - delta);
+    if (sense.canSee && this.bossRallyCooldown <= 0 && units.length > 0) {
+      this.bossRallyCooldown = BOSS_RALLY_INTERVAL;
+      units.forEach(unit => unit.applyBuff(BOSS_RALLY_BUFF, BOSS_RALLY_DURATION));
+      this.emit({ type: 'bossCommand', enemy: boss, order: 'rally', units });
+    }
+  }
+
+  private throwEnemyGrenade(entity: Entity<Enemy>, target: THREE.Vector3): void {
+    const enemy = entity.owner;
+    enemy.attack();
+    this.squads.grenadeThrown(enemy);
+    this.lobGrenade(entity, target);
+  }
+
+  // Grenadier archetype: a high arc onto the player, scattered by the
+  // launcher's spread
+  private fireGrenadeLauncher(entity: Entity<Enemy>, distance: number): void {
+    const enemy = entity.owner;
+    enemy.attack();
+
+    const scatter = enemy.getSpread(distance) * this.difficulty.getEnemySpreadMultiplier() * distance;
+    const target = this.player.getPosition();
+    target.x += this.random.range(-scatter, scatter);
+    target.z += this.random.range(-scatter, scatter);
+    this.lobGrenade(entity, target, GRENADIER_THROW_ANGLE, 0.9);
+  }
+
+  // Lobs a grenade at angle (radians above horizontal) so it first lands
+  // reach of the way to the target and bounces the rest
+  private lobGrenade(entity: Entity<Enemy>, target: THREE.Vector3, angle = Math.PI / 4, reach = 0.6): void {
+    const origin = entity.owner.getEyePosition();
+    const flat = new THREE.Vector3(target.x - origin.x, 0, target.z - origin.z);
+    const range = flat.length() * reach;
+    // range = v^2 sin(2 angle) / g, with the grenade's gravity of 20
+    const direction = flat.normalize().multiplyScalar(Math.cos(angle)).setY(Math.sin(angle));
+    const force = Math.sqrt((range * 20) / Math.sin(2 * angle));
+    this.grenadeThrowers.set(this.grenadeSystem.launch(origin, direction, force), entity);
+  }
+
+  // Hitscan trace along the enemy's aim, with spread that widens with
+  // distance. It can hit the world or anything with health not on its team.
+  private fireEnemyWeapon(entity: Entity<Enemy>, distance: number): void {
+    const enemy = entity.owner;
+    enemy.attack();
+
+    const spread = enemy.getSpread(distance) * this.difficulty.getEnemySpreadMultiplier();
+    const direction = enemy.getAimDirection();
+    direction.x += this.random.range(-spread, spread);
+    direction.y += this.random.range(-spread, spread);
+    direction.z += this.random.range(-spread, spread);
+    direction.normalize();
+
+    const origin = enemy.getMuzzlePosition();
+    const end = origin.clone().addScaledVector(direction, enemy.getAttackRange() * 1.5);
+    const targets = this.registry.query({ notTeam: entity.team, with: ['health', 'collider'] });
+    const hit = this.collisionManager.sweepSegment(origin, end, targets) ?? this.sweepGround(origin, end);
+
+    this.emit({ type: 'enemyFired', enemy, origin, end: hit ? hit.point : end });
+    if (!hit) return;
+
+    if (!hit.entity || hit.blocked) {
+      this.emit({ type: 'projectileImpact', position: hit.point, normal: hit.normal, entity: null });
+      return;
+    }
+
+    this.registry.damage(hit.entity, {
+      amount: enemy.getDamage(),
+      type: 'bullet',
+      attacker: entity,
+      weapon: enemy.getWeaponName(),
+      hitZone: hit.hitZone,
+      position: hit.point
+    });
+  }
+
+  private updateGrenades(delta: number): void {
+    const exploded = this.grenadeSystem.update(delta, (x, z) => this.world.getHeightAt(x, z));
+
+    exploded.forEach(grenade => {
+      const explosionPos = grenade.getPosition();
+      const radius = grenade.getExplosionRadius();
+      const baseDamage = grenade.getExplosionDamage();
+      this.emit({ type: 'grenadeExploded', position: explosionPos.clone() });
+      this.perception.makeNoise(explosionPos, EXPLOSION_NOISE_RADIUS);
+      const thrower: Entity = this.grenadeThrowers.get(grenade) ?? this.playerEntity;
+      this.grenadeThrowers.delete(grenade);
+
+      // Before the damage below, so bodies it creates aren't thrown twice
+      this.registry.owners<Ragdoll>('corpse').forEach(ragdoll => ragdoll.applyBlast(explosionPos, radius, CORPSE_BLAST_SPEED));
+
+      // Damage everything with health in radius; the thrower takes half.
+      // Enemy grenades spare the rest of the enemy team.
+      this.registry.query({ with: ['health'] }).forEach(target => {
+        if (!target.alive) return;
+        if (thrower !== this.playerEntity && target !== thrower && target.team === thrower.team) return;
+        const distance = target.object.position.distanceTo(explosionPos);
+        if (distance >= radius) return;
+
+        const scale = target === thrower ? 0.5 : 1;
+        this.registry.damage(target, {
+          amount: Math.floor(baseDamage * scale * (1 - distance / radius)),
+          type: 'explosion',
+          attacker: thrower,
+          weapon: 'Grenade',
+          position: explosionPos
+        });
+      });
+    });
+  }
+
+  private checkPowerUpPickups(): void {
+    const playerPos = this.player.getPosition();
+
+    this.registry.query<PowerUp>({ kind: 'powerUp' }).forEach(entity => {
+      const powerUp = entity.owner;
+
+      if (powerUp.checkCollision(playerPos)) {
+        const dropped = this.droppedPowerUps.has(powerUp);
+        this.collectPowerUp(powerUp);
+        powerUp.collect();
+        this.registry.destroy(entity);
+        if (dropped) return;
+
+        // Respawn after delay
+        this.scheduler.after(15, () => {
+          const angle = this.random.range(0, Math.PI * 2);
+          const distance = this.random.range(25, 65);
+          const type = this.random.pick(POWERUP_TYPES);
+          const x = Math.cos(angle) * distance;
+          const z = Math.sin(angle) * distance;
+          this.spawnPowerUp(type, new THREE.Vector3(x, this.world.getHeightAt(x, z), z));
+        }, 'powerup-respawn');
+      }
+    });
+  }
+
+  private collectPowerUp(powerUp: PowerUp): void {
+    const value = powerUp.getValue();
+
+    switch (powerUp.getType()) {
+      case 'ammo':
+        this.loadout.resupply(value);
+        break;
+      case 'health':
+        this.player.heal(value);
+        break;
+      case 'speed':
+        this.player.applySpeedBoost(value);
+        break;
+      case 'shield':
+        this.player.addShield(value);
+        break;
+    }
+
+    this.emit({ type: 'powerUpCollected', powerUp });
+  }
+
+  // Walking over a weapon already carried takes its ammo; one for an empty
+  // slot is picked up. Anything else waits for pickUpWeapon().
+  private checkWeaponPickups(): void {
+    const playerPos = this.player.getPosition();
+
+    this.registry.query<WeaponPickup>({ kind: 'weaponPickup' }).forEach(entity => {
+      const pickup = entity.owner;
+      if (!pickup.checkCollision(playerPos)) return;
+
+      const config = pickup.getConfig();
+      if (this.loadout.carries(config.id)) {
+        const amount = this.loadout.collectAmmo(pickup.getDrop());
+        if (amount > 0) this.emit({ type: 'ammoCollected', weapon: config, amount });
+        if (pickup.isEmpty()) this.registry.destroy(entity);
+      } else if (!this.loadout.getWeapon(config.slot)) {
+        this.takeWeapon(entity);
+      }
+    });
+  }
+
+  // The weapon on the ground the player could swap for, if any
+  public getWeaponPickupInReach(): WeaponPickup | null {
+    return this.findSwappablePickup()?.owner ?? null;
+  }
+
+  // Swaps the weapon in reach for the one in its slot, which is left on the
+  // ground. False when there's nothing in reach.
+  public pickUpWeapon(): boolean {
+    const entity = this.findSwappablePickup();
+    if (!entity) return false;
+    this.takeWeapon(entity);
+    return true;
+  }
+
+  private findSwappablePickup(): Entity<WeaponPickup> | undefined {
+    const playerPos = this.player.getPosition();
+    return this.registry.query<WeaponPickup>({ kind: 'weaponPickup' })
+      .find(e => e.owner.checkCollision(playerPos) && !this.loadout.carries(e.owner.getConfig().id));
+  }
+
+  private takeWeapon(entity: Entity<WeaponPickup>): void {
+    const config = entity.owner.getConfig();
+    this.registry.destroy(entity);
+    const replaced = this.loadout.pickUp(entity.owner.getDrop());
+    if (replaced) this.spawnWeaponPickup(replaced, this.player.getPosition());
+    this.emit({ type: 'weaponPickedUp', weapon: config, replaced: replaced ? WEAPONS.get(replaced.weapon) : null });
+  }
+
+  private getMovingObjects(): THREE.Object3D[] {
+    const objects = this.registry.query().map(entity => entity.object);
+    this.grenadeSystem.getAllGrenades().forEach(g => objects.push(g.getMesh()));
+    this.registry.query<Ragdoll>({ kind: 'corpse' }).forEach(c => objects.push(...c.owner.getParts()));
+    return objects;
+  }
+
+  // Blend moving objects between the last two steps for rendering; alpha is the
+  // fraction of a step the render clock is ahead of the simulation clock
+  public applyInterpolation(alpha: number): void {
+    this.interpolator.apply(alpha);
+  }
+
+  public restoreInterpolation(): void {
+    this.interpolator.restore();
+  }
+
+  // Freezes the whole match: entities, projectiles and all scheduled timers
+  public pause(): void {
+    this.scheduler.pause();
+  }
+
+  public resume(): void {
+    this.scheduler.resume();
+  }
+
+  public isPaused(): boolean {
+    return this.scheduler.isPaused();
+  }
+
+  // Slow motion (< 1) or fast forward (> 1); applies to movement and timers
+  public setTimeScale(scale: number): void {
+    this.scheduler.setTimeScale(scale);
+  }
+
+  public getTimeScale(): number {
+    return this.scheduler.getTimeScale();
+  }
+
+  public getPlayer(): Player { return this.player; }
+  public getLoadout(): Loadout { return this.loadout; }
+  public getWeather(): WeatherState { return this.weather; }
+  public getRandom(): Random { return this.random; }
+  public getScheduler(): Scheduler { return this.scheduler; }
+  public getTime(): number { return this.scheduler.getTime(); }
+  public getTick(): number { return this.tick; }
+  public getRegistry(): EntityRegistry { return this.registry; }
+  public getEnemies(): Enemy[] { return this.registry.owners<Enemy>('enemy'); }
+  public getProjectiles(): Projectile[] { return this.registry.owners<Projectile>('projectile'); }
+  public getCollisionManager(): CollisionManager { return this.collisionManager; }
+  public getNavGrid(): NavGrid { return this.navGrid; }
+  public getPerception(): Perception { return this.perception; }
+  public getGrenadeCount(): number { return this.grenadeSystem.getGrenadeCount(); }
+  public getScore(): number { return this.score; }
+  public getKills(): number { return this.kills; }
+  public getWaveNumber(): number { return this.waveDirector.getWaveNumber(); }
+  public getWaveDirector(): WaveDirector { return this.waveDirector; }
+  public getDifficulty(): DifficultyDirector { return this.difficulty; }
+  public isBossActive(): boolean { return this.boss !== null; }
+  public getBoss(): { enemy: Enemy; controller: BossController } | null {
+    return this.boss ? { enemy: this.boss.entity.owner, controller: this.boss.controller } : null;
+  }
+}
@@ -0,0 +1,56 @@
+import * as THREE from 'three';
+
+interface TrackedTransform {
+  previous: THREE.Vector3;
+  current: THREE.Vector3;
+}
+
+// Smooths rendering between fixed simulation steps. The simulation captures
+// object positions before each step; before a frame is drawn the renderer
+// blends each object between its previous and current position by alpha, and
+// puts the simulated position back afterwards so the next step is unaffected.
+export class RenderInterpolator {
+  private tracked = new Map<THREE.Object3D, TrackedTransform>();
+  private applied = false;
+
+  public capture(objects: THREE.Object3D[]): void {
+    const seen = new Set<THREE.Object3D>();
+
+    objects.forEach(object => {
+      seen.add(object);
+      const entry = this.tracked.get(object);
+      if (entry) {
+        entry.previous.copy(object.position);
+      } else {
+        this.tracked.set(object, {
+          previous: object.position.clone(),
+          current: object.position.clone()
+        });
+      }
+    });
+
+    // Forget objects that left the simulation
+    this.tracked.forEach((_entry, object) => {
+      if (!seen.has(object)) this.tracked.delete(object);
+    });
+  }
+
+  public apply(alpha: number): void {
+    if (this.applied) return;
+    this.applied = true;
+
+    this.tracked.forEach((entry, object) => {
+      entry.current.copy(object.position);
+      object.position.lerpVectors(entry.previous, entry.current, alpha);
+    });
+  }
+
+  public restore(): void {
+    if (!this.applied) return;
+    this.applied = false;
+
+    this.tracked.forEach((entry, object) => {
+      object.position.copy(entry.current);
+    });
+  }
+}
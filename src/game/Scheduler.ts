@@ -0,0 +1,140 @@
+export type TimerHandle = number;
+
+export interface ScheduledTimerInfo {
+  id: TimerHandle;
+  label: string;
+  remaining: number;
+  interval: number | null;
+}
+
+interface ScheduledTimer {
+  id: TimerHandle;
+  label: string;
+  dueAt: number;
+  interval: number | null;
+  callback: () => void;
+}
+
+// Game-time replacement for setTimeout/setInterval. Time only advances when the
+// simulation steps, so timers freeze while paused and follow the time scale.
+// Delays are in seconds of game time. Timers due on the same step fire in
+// due-time order (ties in scheduling order) to keep replays deterministic.
+export class Scheduler {
+  private timers: ScheduledTimer[] = [];
+  private nextId = 1;
+  private time = 0;
+  private timeScale = 1;
+  private paused = false;
+
+  public after(delay: number, callback: () => void, label = 'timer'): TimerHandle {
+    return this.add(delay, null, callback, label);
+  }
+
+  public every(interval: number, callback: () => void, label = 'interval'): TimerHandle {
+    return this.add(interval, interval, callback, label);
+  }
+
+  private add(delay: number, interval: number | null, callback: () => void, label: string): TimerHandle {
+    const timer: ScheduledTimer = {
+      id: this.nextId++,
+      label,
+      dueAt: this.time + Math.max(0, delay),
+      interval,
+      callback
+    };
+    this.timers.push(timer);
+    return timer.id;
+  }
+
+  public cancel(handle: TimerHandle | null): boolean {
+    if (handle === null) return false;
+    const index = this.timers.findIndex(t => t.id === handle);
+    if (index === -1) return false;
+    this.timers.splice(index, 1);
+    return true;
+  }
+
+  public cancelByLabel(label: string): number {
+    const before = this.timers.length;
+    this.timers = this.timers.filter(t => t.label !== label);
+    return before - this.timers.length;
+  }
+
+  public cancelAll(): void {
+    this.timers = [];
+  }
+
+  public isPending(handle: TimerHandle | null): boolean {
+    return handle !== null && this.timers.some(t => t.id === handle);
+  }
+
+  // Advances game time by delta scaled by the time scale and fires due timers.
+  // Returns the game time that elapsed (0 while paused).
+  public advance(delta: number): number {
+    if (this.paused) return 0;
+
+    const elapsed = delta * this.timeScale;
+    this.time += elapsed;
+
+    let due = this.nextDue();
+    while (due) {
+      if (due.interval !== null && due.interval > 0) {
+        due.dueAt += due.interval;
+      } else {
+        this.timers.splice(this.timers.indexOf(due), 1);
+      }
+      due.callback();
+      due = this.nextDue();
+    }
+
+    return elapsed;
+  }
+
+  private nextDue(): ScheduledTimer | null {
+    let next: ScheduledTimer | null = null;
+    for (const timer of this.timers) {
+      if (timer.dueAt > this.time) continue;
+      if (!next || timer.dueAt < next.dueAt || (timer.dueAt === next.dueAt && timer.id < next.id)) {
+        next = timer;
+      }
+    }
+    return next;
+  }
+
+  public pause(): void {
+    this.paused = true;
+  }
+
+  public resume(): void {
+    this.paused = false;
+  }
+
+  public isPaused(): boolean {
+    return this.paused;
+  }
+
+  public setTimeScale(scale: number): void {
+    this.timeScale = Math.max(0, scale);
+  }
+
+  public getTimeScale(): number {
+    return this.timeScale;
+  }
+
+  public getTime(): number {
+    return this.time;
+  }
+
+  // Snapshot of pending timers, soonest first (debug overlays, tests)
+  public getPending(): ScheduledTimerInfo[] {
+    return this.timers
+      .slice()
+      .sort((a, b) => a.dueAt - b.dueAt || a.id - b.id)
+      .map(t => ({
+        id: t.id,
+        label: t.label,
+        remaining: t.dueAt - this.time,
+        interval: t.interval
+      }));
+  }
+}
@@ -0,0 +1,230 @@
+import { EnemyScaling, EnemyType } from '../entities/Enemy';
+import { Random } from '../utils/Random';
+
+// Circle on the map that enemies spawn in
+export interface SpawnZone {
+  x: number;
+  z: number;
+  radius: number;
+}
+
+export interface WaveGroup {
+  type: EnemyType;
+  count: number;
+  // Zone name from the table; a random zone when unset
+  zone?: string;
+}
+
+export interface WaveDefinition {
+  // Shown on the wave banner
+  name: string;
+  groups: WaveGroup[];
+  // Rest before this wave starts; defaults to the table's intermission
+  intermission?: number;
+  // Seconds between spawns
+  spawnInterval?: number;
+  // Most enemies alive at once; the rest arrive as others die
+  maxAlive?: number;
+}
+
+export interface WaveScaling {
+  // Added to the enemy health / damage multiplier per wave after the first
+  healthPerWave: number;
+  damagePerWave: number;
+  // Added to the group count multiplier (bosses excepted) each time the table loops
+  countPerLoop: number;
+}
+
+export interface WaveTable {
+  zones: Record<string, SpawnZone>;
+  waves: WaveDefinition[];
+  // Seconds before the first wave
+  startDelay: number;
+  intermission: number;
+  spawnInterval: number;
+  maxAlive: number;
+  // After the last wave, play continues from this wave index with more enemies
+  loopFrom: number;
+  scaling: WaveScaling;
+}
+
+export interface WaveInfo {
+  // 1-based, keeps counting through loops
+  number: number;
+  name: string;
+  boss: boolean;
+  enemyCount: number;
+}
+
+export interface WaveSpawn {
+  type: EnemyType;
+  zone: SpawnZone;
+  scaling: EnemyScaling;
+}
+
+// How the director reaches the rest of the game
+export interface WaveDirectorHooks {
+  spawn(spawn: WaveSpawn): void;
+  aliveCount(): number;
+  onWaveStarted(wave: WaveInfo): void;
+  onWaveCleared(wave: WaveInfo): void;
+}
+
+export type WavePhase = 'idle' | 'intermission' | 'active';
+
+// Throws if a table refers to zones it doesn't define or has nothing to play
+export function validateWaveTable(table: WaveTable): void {
+  if (table.waves.length === 0) throw new Error('Wave table has no waves');
+  if (table.loopFrom < 0 || table.loopFrom >= table.waves.length) {
+    throw new Error(`Wave table loopFrom ${table.loopFrom} is out of range`);
+  }
+  if (Object.keys(table.zones).length === 0) throw new Error('Wave table has no spawn zones');
+
+  table.waves.forEach((wave, index) => {
+    if (wave.groups.length === 0) throw new Error(`Wave ${index + 1} (${wave.name}) has no groups`);
+    wave.groups.forEach(group => {
+      if (group.zone !== undefined && !table.zones[group.zone]) {
+        throw new Error(`Wave ${index + 1} (${wave.name}) uses unknown zone '${group.zone}'`);
+      }
+      if (group.count <= 0) throw new Error(`Wave ${index + 1} (${wave.name}) has an empty ${group.type} group`);
+    });
+  });
+}
+
+// Runs solo mode as a series of waves from a WaveTable: rest, spawn the
+// wave's groups a few at a time, and once they're all dead, rest again.
+// Past the end of the table it loops with more and tougher enemies.
+export class WaveDirector {
+  private table: WaveTable;
+  private random: Random;
+  private hooks: WaveDirectorHooks;
+  private zoneNames: string[];
+
+  private phase: WavePhase = 'idle';
+  private timer = 0;
+  private waveCount = 0;
+  private wave: WaveInfo | null = null;
+  private definition: WaveDefinition | null = null;
+  private queue: WaveSpawn[] = [];
+  private spawnRate = 1;
+
+  constructor(table: WaveTable, random: Random, hooks: WaveDirectorHooks) {
+    validateWaveTable(table);
+    this.table = table;
+    this.random = random;
+    this.hooks = hooks;
+    this.zoneNames = Object.keys(table.zones);
+  }
+
+  public start(): void {
+    this.phase = 'intermission';
+    this.timer = this.table.startDelay;
+  }
+
+  // Stops spawning; enemies already out are left alone
+  public stop(): void {
+    this.phase = 'idle';
+    this.queue = [];
+  }
+
+  // Above 1 spawns faster than the table says (adaptive difficulty)
+  public setSpawnRateMultiplier(rate: number): void {
+    this.spawnRate = rate;
+  }
+
+  public update(delta: number): void {
+    if (this.phase === 'idle') return;
+
+    this.timer -= delta;
+    if (this.phase === 'intermission') {
+      if (this.timer <= 0) this.startWave();
+      return;
+    }
+
+    const interval = (this.definition?.spawnInterval ?? this.table.spawnInterval) / this.spawnRate;
+    const maxAlive = this.definition?.maxAlive ?? this.table.maxAlive;
+    while (this.queue.length > 0 && this.timer <= 0 && this.hooks.aliveCount() < maxAlive) {
+      this.hooks.spawn(this.queue.shift()!);
+      this.timer += interval;
+    }
+    this.timer = Math.max(this.timer, 0);
+
+    if (this.queue.length === 0 && this.hooks.aliveCount() === 0) {
+      this.clearWave();
+    }
+  }
+
+  private startWave(): void {
+    const { index, loop } = this.slot(this.waveCount);
+    const definition = this.table.waves[index];
+    const scaling = this.table.scaling;
+    const health = 1 + scaling.healthPerWave * this.waveCount;
+    const damage = 1 + scaling.damagePerWave * this.waveCount;
+    const countMultiplier = 1 + scaling.countPerLoop * loop;
+
+    this.waveCount++;
+    this.definition = definition;
+    this.queue = [];
+    definition.groups.forEach(group => {
+      const zone = this.table.zones[group.zone ?? this.random.pick(this.zoneNames)];
+      // Bosses stay one-offs however many times the table has looped
+      const count = group.type === 'boss' ? group.count : Math.round(group.count * countMultiplier);
+      for (let i = 0; i < count; i++) {
+        this.queue.push({ type: group.type, zone, scaling: { health, damage } });
+      }
+    });
+
+    this.wave = {
+      number: this.waveCount,
+      name: definition.name,
+      boss: definition.groups.some(group => group.type === 'boss'),
+      enemyCount: this.queue.length
+    };
+    this.phase = 'active';
+    this.timer = 0;
+    this.hooks.onWaveStarted(this.wave);
+  }
+
+  private clearWave(): void {
+    const cleared = this.wave!;
+    const next = this.table.waves[this.slot(this.waveCount).index];
+    this.phase = 'intermission';
+    this.timer = next.intermission ?? this.table.intermission;
+    this.hooks.onWaveCleared(cleared);
+  }
+
+  // Table index for the nth wave (0-based) and how many times the table has looped by then
+  private slot(n: number): { index: number; loop: number } {
+    const length = this.table.waves.length;
+    if (n < length) return { index: n, loop: 0 };
+
+    const looped = length - this.table.loopFrom;
+    return {
+      index: this.table.loopFrom + (n - length) % looped,
+      loop: 1 + Math.floor((n - length) / looped)
+    };
+  }
+
+  public getPhase(): WavePhase {
+    return this.phase;
+  }
+
+  // Current wave, or the last one during an intermission; 0 before the first
+  public getWaveNumber(): number {
+    return this.waveCount;
+  }
+
+  public getWave(): WaveInfo | null {
+    return this.wave;
+  }
+
+  // Seconds until the next wave starts (0 while a wave is on)
+  public getIntermissionRemaining(): number {
+    return this.phase === 'intermission' ? Math.max(0, this.timer) : 0;
+  }
+
+  // Enemies still to spawn this wave
+  public getPendingSpawns(): number {
+    return this.queue.length;
+  }
+}
@@ -0,0 +1,78 @@
+import { WaveTable } from './WaveDirector';
+
+// Solo mode waves. Edit this table to change wave composition, spawn zones
+// and pacing; WaveDirector validates it on startup.
+export const DEFAULT_WAVE_TABLE: WaveTable = {
+  zones: {
+    north: { x: 0, z: -50, radius: 10 },
+    south: { x: 0, z: 50, radius: 10 },
+    east: { x: 50, z: 0, radius: 10 },
+    west: { x: -50, z: 0, radius: 10 }
+  },
+  startDelay: 2,
+  intermission: 10,
+  spawnInterval: 0.75,
+  maxAlive: 12,
+  waves: [
+    {
+      name: 'Scouts',
+      groups: [
+        { type: 'rifle', count: 4, zone: 'north' },
+        { type: 'smg', count: 3, zone: 'east' }
+      ]
+    },
+    {
+      name: 'Pincer',
+      groups: [
+        { type: 'rifle', count: 3, zone: 'west' },
+        { type: 'smg', count: 3, zone: 'east' },
+        { type: 'heavy', count: 1, zone: 'north' },
+        { type: 'rifle', count: 2, zone: 'north' },
+        { type: 'sniper', count: 1, zone: 'south' }
+      ]
+    },
+    {
+      name: 'Heavy Support',
+      groups: [
+        { type: 'shieldBearer', count: 2, zone: 'south' },
+        { type: 'heavy', count: 2, zone: 'south' },
+        { type: 'grenadier', count: 1, zone: 'south' },
+        { type: 'rifle', count: 2, zone: 'south' },
+        { type: 'smg', count: 3, zone: 'west' },
+        { type: 'rifle', count: 2 }
+      ]
+    },
+    {
+      name: 'Encirclement',
+      groups: [
+        { type: 'rifle', count: 3, zone: 'north' },
+        { type: 'smg', count: 3, zone: 'south' },
+        { type: 'heavy', count: 2, zone: 'east' },
+        { type: 'drone', count: 3, zone: 'east' },
+        { type: 'rifle', count: 2, zone: 'west' },
+        { type: 'grenadier', count: 1, zone: 'west' },
+        { type: 'smg', count: 2, zone: 'west' },
+        { type: 'sniper', count: 1 }
+      ]
+    },
+    {
+      name: 'The Warlord',
+      intermission: 15,
+      groups: [
+        { type: 'boss', count: 1, zone: 'north' },
+        { type: 'rifle', count: 3, zone: 'north' },
+        { type: 'smg', count: 3 },
+        { type: 'shieldBearer', count: 2 },
+        { type: 'drone', count: 2 },
+        { type: 'heavy', count: 1 }
+      ]
+    }
+  ],
+  // Endless play repeats waves 2-5 with more enemies each time round
+  loopFrom: 1,
+  scaling: {
+    healthPerWave: 0.08,
+    damagePerWave: 0.05,
+    countPerLoop: 0.5
+  }
+};
@@ -0,0 +1,70 @@
+import * as THREE from 'three';
+import { Random } from '../utils/Random';
+
+export enum WeatherType {
+  CLEAR = 'clear',
+  RAIN = 'rain',
+  SNOW = 'snow',
+  FOG = 'fog',
+  STORM = 'storm'
+}
+
+// FogExp2 density each weather settles at
+const FOG_DENSITY: Record<WeatherType, number> = {
+  [WeatherType.CLEAR]: 0,
+  [WeatherType.RAIN]: 0.003,
+  [WeatherType.SNOW]: 0.002,
+  [WeatherType.FOG]: 0.015,
+  [WeatherType.STORM]: 0.008
+};
+// Fraction of the way to the new density covered per second
+const FOG_RATE = 2;
+
+// Storm wind in metres per second, and how much gusts add or take off it
+const STORM_WIND_SPEED = 8;
+const STORM_GUST = 0.3;
+
+// The part of the weather that affects play (fog and wind), stepped with
+// the simulation so a seed reproduces it. WeatherSystem draws it.
+export class WeatherState {
+  private random: Random;
+  private type: WeatherType = WeatherType.CLEAR;
+  private fogDensity = 0;
+  // Radians; picked afresh for each storm
+  private windDirection = 0;
+  private windTime = 0;
+
+  constructor(random: Random) {
+    this.random = random;
+  }
+
+  public setWeather(type: WeatherType): void {
+    this.type = type;
+    if (type === WeatherType.STORM) this.windDirection = this.random.range(0, Math.PI * 2);
+  }
+
+  public update(delta: number): void {
+    this.windTime += delta;
+    this.fogDensity += (FOG_DENSITY[this.type] - this.fogDensity) * Math.min(1, delta * FOG_RATE);
+  }
+
+  public getWeather(): WeatherType {
+    return this.type;
+  }
+
+  public getFogDensity(): number {
+    return this.fogDensity;
+  }
+
+  // How far one can see relative to clear weather (1 = clear, lower in fog)
+  public getVisibility(): number {
+    return 1 / (1 + this.fogDensity * 150);
+  }
+
+  // Horizontal wind in metres per second; only storms blow
+  public getWind(): THREE.Vector3 {
+    if (this.type !== WeatherType.STORM) return new THREE.Vector3();
+    const speed = STORM_WIND_SPEED * (1 + Math.sin(this.windTime * 0.7) * STORM_GUST);
+    return new THREE.Vector3(Math.cos(this.windDirection), 0, Math.sin(this.windDirection)).multiplyScalar(speed);
+  }
+}
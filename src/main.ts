@@ -1,12 +1,20 @@
 import { Game } from './game/Game';
 import { MobileControls } from './utils/MobileControls';
 import { MultiplayerManager } from './multiplayer/MultiplayerManager';
+import { LoadoutScreen } from './utils/LoadoutScreen';
 
 // Initialize the game when DOM is ready
 document.addEventListener('DOMContentLoaded', () => {
-  const game = new Game();
+  // ?seed=1234 replays the same match layout and enemy behaviour
+  const params = new URLSearchParams(window.location.search);
+  const seedParam = params.get('seed');
+  // ?difficulty=easy|normal|hard picks the adaptive difficulty preset
+  const difficultyParam = params.get('difficulty');
+  const difficulty = difficultyParam === 'easy' || difficultyParam === 'hard' ? difficultyParam : 'normal';
+  const game = new Game(seedParam !== null ? Number(seedParam) : undefined, difficulty);
   const isMobile = MobileControls.isMobile();
   const multiplayer = new MultiplayerManager();
+  const loadoutScreen = new LoadoutScreen();
   
   // New landing page
   const landingPage = document.getElementById('landing-page');
@@ -40,6 +48,7 @@ document.addEventListener('DOMContentLoaded', () => {
   
   // Start game function
   const startGame = (isMultiplayer: boolean = false) => {
+    game.setLoadout(loadoutScreen.getSelection(), loadoutScreen.getAttachments());
     if (landingPage) {
       // Request pointer lock immediately on click (before setTimeout)
       if (!isMobile) {
@@ -68,8 +77,9 @@ document.addEventListener('DOMContentLoaded', () => {
     }
   };
   
-  // Solo mode button
-  deployBtn?.addEventListener('click', () => startGame(false));
+  // Solo mode button - pick weapons and attachments, then deploy
+  deployBtn?.addEventListener('click', () => loadoutScreen.show());
+  loadoutScreen.onDeploy(() => startGame(false));
   
   // Multiplayer button - show lobby
   multiplayerBtn?.addEventListener('click', () => {
@@ -169,6 +179,7 @@ document.addEventListener('DOMContentLoaded', () => {
   startBtn?.addEventListener('click', () => {
     startScreen?.remove();
     landingPage?.remove();
+    game.setLoadout(loadoutScreen.getSelection(), loadoutScreen.getAttachments());
     game.start();
   });
 });
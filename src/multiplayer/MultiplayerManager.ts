@@ -7,6 +7,10 @@ export interface PlayerState {
   r: number; // yaw rotation only
   h: number; // health
   s: number; // shooting (0 or 1)
+  // Stance flags (0 or 1) for the remote player's animation
+  c?: number; // crouching
+  u?: number; // sprinting
+  l?: number; // reloading
 }
 
 export interface GameMessage {
@@ -221,12 +225,23 @@ export class MultiplayerManager {
     
     const healthChanged = !this.lastSentState || state.h !== this.lastSentState.h;
     const shootingChanged = !this.lastSentState || state.s !== this.lastSentState.s;
+    const stanceChanged = !this.lastSentState ||
+      state.c !== this.lastSentState.c ||
+      state.u !== this.lastSentState.u ||
+      state.l !== this.lastSentState.l;
 
-    return posChanged || rotChanged || healthChanged || shootingChanged;
+    return posChanged || rotChanged || healthChanged || shootingChanged || stanceChanged;
   }
 
-  public sendHit(damage: number): void {
-    this.sendMessage({ t: 'hit', d: { damage } });
+  // Raw damage and context; the receiver applies their own armor and multipliers
+  public sendHit(
+    damage: number,
+    type: string = 'bullet',
+    zone?: string,
+    weapon?: string,
+    zoneMultiplier?: number
+  ): void {
+    this.sendMessage({ t: 'hit', d: { damage, type, zone, weapon, zoneMultiplier } });
   }
 
   public sendDeath(): void {
@@ -298,6 +313,11 @@ export class MultiplayerManager {
     return this.opponentName;
   }
 
+  // Peer ID of the remote player, used as its network ID
+  public getOpponentId(): string {
+    return this.connection?.peer ?? 'opponent';
+  }
+
   public setPlayerName(name: string): void {
     this.playerName = name;
   }
@@ -1,11 +1,22 @@
 import * as THREE from 'three';
+import { Health } from '../entities/Health';
+import { Hitbox, HitboxDefinition, HitboxSet, mirrored } from '../entities/Hitboxes';
+import { CharacterAnimator, CharacterState } from '../entities/CharacterAnimator';
+
+const PLAYER_HITBOXES: HitboxDefinition[] = [
+  { zone: 'head', center: new THREE.Vector3(0, 1.88, 0), size: new THREE.Vector3(0.56, 0.5, 0.56) },
+  { zone: 'torso', center: new THREE.Vector3(0, 1.2, 0), size: new THREE.Vector3(0.8, 0.9, 0.6) },
+  ...mirrored('arm', new THREE.Vector3(0.5, 1.2, 0), new THREE.Vector3(0.3, 0.75, 0.3)),
+  ...mirrored('leg', new THREE.Vector3(0.15, 0.38, 0), new THREE.Vector3(0.3, 0.76, 0.3))
+];
 
 export class NetworkPlayer {
   private scene: THREE.Scene;
   private mesh: THREE.Group;
   private nameTag: THREE.Sprite;
-  private health = 100;
-  private maxHealth = 100;
+  // Predicted locally from our hits, corrected by the opponent's own state
+  private health = new Health(100);
+  private hitboxes: HitboxSet;
   private targetPosition = new THREE.Vector3();
   private targetRotation = new THREE.Euler();
   private previousPosition = new THREE.Vector3();
@@ -13,14 +24,19 @@ export class NetworkPlayer {
   private isShooting = false;
   private lastShootTime = 0;
   private muzzleFlash: THREE.PointLight;
+  private animator: CharacterAnimator;
+  // Crouch, sprint and reload as last synced
+  private characterState: CharacterState = {};
   private lastUpdateTime = 0;
   private updateInterval = 0;
 
   constructor(scene: THREE.Scene, name: string = 'Enemy') {
     this.scene = scene;
     this.mesh = this.createPlayerMesh();
+    this.hitboxes = new HitboxSet(this.mesh, PLAYER_HITBOXES);
     this.nameTag = this.createNameTag(name);
     this.muzzleFlash = this.createMuzzleFlash();
+    this.animator = new CharacterAnimator(this.mesh, { walkSpeed: 4, runSpeed: 14, stride: 4 });
     
     this.mesh.add(this.nameTag);
     this.mesh.add(this.muzzleFlash);
@@ -35,6 +51,7 @@ export class NetworkPlayer {
     const body = new THREE.Mesh(new THREE.CapsuleGeometry(0.4, 1, 8, 16), bodyMaterial);
     body.position.y = 1;
     body.castShadow = true;
+    body.name = 'torso';
     group.add(body);
 
     // Head - glossy peachy skin
@@ -42,14 +59,15 @@ export class NetworkPlayer {
     const head = new THREE.Mesh(new THREE.SphereGeometry(0.25, 16, 16), headMaterial);
     head.position.y = 1.85;
     head.castShadow = true;
+    head.name = 'head';
     group.add(head);
 
-    // Helmet - glossy candy
+    // Helmet - glossy candy; rides on the head
     const helmetMaterial = new THREE.MeshStandardMaterial({ color: 0x77DD88, roughness: 0.35, metalness: 0.1 });
     const helmet = new THREE.Mesh(new THREE.SphereGeometry(0.28, 16, 16, 0, Math.PI * 2, 0, Math.PI / 2), helmetMaterial);
-    helmet.position.y = 1.9;
+    helmet.position.y = 0.05;
     helmet.castShadow = true;
-    group.add(helmet);
+    head.add(helmet);
 
     // Arms - glossy
     const armMaterial = new THREE.MeshStandardMaterial({ color: 0x88EE99, roughness: 0.35, metalness: 0.1 });
@@ -58,6 +76,7 @@ export class NetworkPlayer {
       arm.position.set(x, 1.2, 0);
       arm.rotation.z = x > 0 ? -0.3 : 0.3;
       arm.castShadow = true;
+      arm.name = x < 0 ? 'leftArm' : 'rightArm';
       group.add(arm);
     });
 
@@ -86,6 +105,7 @@ export class NetworkPlayer {
       const leg = new THREE.Mesh(new THREE.CapsuleGeometry(0.12, 0.5, 4, 8), legMaterial);
       leg.position.set(x, 0.35, 0);
       leg.castShadow = true;
+      leg.name = x < 0 ? 'leftLeg' : 'rightLeg';
       group.add(leg);
     });
 
@@ -178,6 +198,8 @@ export class NetworkPlayer {
       healthBarBg.rotation.y = angle - this.mesh.rotation.y;
     }
 
+    this.animator.update(delta, this.characterState);
+
     // Muzzle flash effect
     if (this.isShooting && Date.now() - this.lastShootTime < 100) {
       this.muzzleFlash.intensity = 3;
@@ -204,6 +226,10 @@ export class NetworkPlayer {
     this.targetRotation.copy(rotation);
   }
 
+  public setCharacterState(state: CharacterState): void {
+    this.characterState = state;
+  }
+
   public setPosition(position: THREE.Vector3): void {
     this.mesh.position.copy(position);
     this.targetPosition.copy(position);
@@ -213,22 +239,18 @@ export class NetworkPlayer {
   public shoot(): void {
     this.isShooting = true;
     this.lastShootTime = Date.now();
-  }
-
-  public takeDamage(amount: number): void {
-    this.health = Math.max(0, this.health - amount);
-    this.updateHealthBar();
+    this.animator.play('shoot');
   }
 
   public setHealth(health: number): void {
-    this.health = health;
+    this.health.setHealth(health);
     this.updateHealthBar();
   }
 
-  private updateHealthBar(): void {
+  public updateHealthBar(): void {
     const healthBar = this.mesh.getObjectByName('healthBar') as THREE.Mesh;
     if (healthBar) {
-      const healthPercent = this.health / this.maxHealth;
+      const healthPercent = this.health.getHealth() / this.health.getMaxHealth();
       healthBar.scale.x = Math.max(0.01, healthPercent);
       healthBar.position.x = (1 - healthPercent) * -0.39;
       
@@ -245,6 +267,10 @@ export class NetworkPlayer {
   }
 
   public getHealth(): number {
+    return this.health.getHealth();
+  }
+
+  public getHealthComponent(): Health {
     return this.health;
   }
 
@@ -252,13 +278,31 @@ export class NetworkPlayer {
     return this.mesh.position.clone();
   }
 
+  public getMesh(): THREE.Object3D {
+    return this.mesh;
+  }
+
+  public getAnimator(): CharacterAnimator {
+    return this.animator;
+  }
+
+  // Body volume only, so the name tag and health bar don't catch bullets
+  public getBoundingBox(): THREE.Box3 {
+    return this.hitboxes.getBounds();
+  }
+
+  public getHitboxes(): Hitbox[] {
+    return this.hitboxes.getHitboxes();
+  }
+
   public isDead(): boolean {
-    return this.health <= 0;
+    return this.health.isDead();
   }
 
   public respawn(position: THREE.Vector3): void {
-    this.health = this.maxHealth;
+    this.health.reset();
     this.setPosition(position);
+    this.animator.reset();
     this.updateHealthBar();
   }
 
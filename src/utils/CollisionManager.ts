@@ -1,21 +1,76 @@
 import * as THREE from 'three';
-import { Enemy } from '../entities/Enemy';
-import { Projectile } from '../entities/Projectile';
+import { Entity } from '../entities/EntityRegistry';
+import { HitZone } from '../entities/Health';
+import { Hitbox } from '../entities/Hitboxes';
+import { SpatialGrid } from './SpatialGrid';
 
+export interface SurfaceHit {
+  point: THREE.Vector3;
+  normal: THREE.Vector3;
+  // Distance from the segment start
+  distance: number;
+}
+
+export interface SegmentHit extends SurfaceHit {
+  // The entity that was hit, or null for world geometry
+  entity: Entity | null;
+  // Body part that was hit, for entities with hitboxes
+  hitZone?: HitZone;
+  // Stopped by a shield; the entity takes no damage
+  blocked?: boolean;
+}
+
+// Static world colliders behind a uniform grid broadphase. Player, enemies,
+// vehicles, grenades and projectiles all query through here instead of
+// walking the full collider list.
 export class CollisionManager {
   private colliders: THREE.Box3[] = [];
+  private grid = new SpatialGrid<THREE.Box3>(10);
   private playerRadius = 0.5;
 
   // Add a Box3 collider directly
   public addCollider(box: THREE.Box3): void {
     this.colliders.push(box);
+    this.grid.insert(box, box);
   }
   
   // Add collider from mesh (legacy support)
   public addStaticObject(mesh: THREE.Mesh, type: string): void {
     if (type === 'ground') return;
-    const boundingBox = new THREE.Box3().setFromObject(mesh);
-    this.colliders.push(boundingBox);
+    this.addCollider(new THREE.Box3().setFromObject(mesh));
+  }
+
+  // Colliders overlapping a box
+  public overlapBox(box: THREE.Box3): THREE.Box3[] {
+    return this.grid.queryBox(box);
+  }
+
+  public intersectsAny(box: THREE.Box3): boolean {
+    return this.grid.queryBox(box).length > 0;
+  }
+
+  // Colliders within radius of a point
+  public overlapSphere(center: THREE.Vector3, radius: number): THREE.Box3[] {
+    const bounds = new THREE.Box3(
+      center.clone().subScalar(radius),
+      center.clone().addScalar(radius)
+    );
+    const sphere = new THREE.Sphere(center, radius);
+    return this.grid.queryBox(bounds).filter(box => box.intersectsSphere(sphere));
+  }
+
+  // First world collider along start -> end
+  public castSegment(start: THREE.Vector3, end: THREE.Vector3): SurfaceHit | null {
+    let closest: SurfaceHit | null = null;
+
+    for (const collider of this.grid.querySegment(start, end)) {
+      const hit = CollisionManager.intersectSegmentBox(start, end, collider);
+      if (hit && (!closest || hit.distance < closest.distance)) {
+        closest = hit;
+      }
+    }
+
+    return closest;
   }
 
   public checkPlayerCollision(
@@ -30,13 +85,7 @@ export class CollisionManager {
       new THREE.Vector3(this.playerRadius * 2, 1.6, this.playerRadius * 2)
     );
 
-    for (const collider of this.colliders) {
-      if (playerBox.intersectsBox(collider)) {
-        return true;
-      }
-    }
-
-    return false;
+    return this.intersectsAny(playerBox);
   }
   
   // Check X and Z movement separately for sliding along walls
@@ -53,12 +102,7 @@ export class CollisionManager {
       new THREE.Vector3(this.playerRadius * 2, 1.6, this.playerRadius * 2)
     );
     
-    for (const collider of this.colliders) {
-      if (testBoxX.intersectsBox(collider)) {
-        result.canMoveX = false;
-        break;
-      }
-    }
+    result.canMoveX = !this.intersectsAny(testBoxX);
     
     // Check Z movement
     const testBoxZ = new THREE.Box3().setFromCenterAndSize(
@@ -66,50 +110,127 @@ export class CollisionManager {
       new THREE.Vector3(this.playerRadius * 2, 1.6, this.playerRadius * 2)
     );
     
-    for (const collider of this.colliders) {
-      if (testBoxZ.intersectsBox(collider)) {
-        result.canMoveZ = false;
-        break;
-      }
-    }
+    result.canMoveZ = !this.intersectsAny(testBoxZ);
     
     return result;
   }
 
-  public checkProjectileHit(projectile: Projectile, enemy: Enemy): boolean {
-    const projectilePos = projectile.getPosition();
-    const enemyBox = enemy.getBoundingBox();
-    
+  // First hit along start -> end against world colliders and the given
+  // entities' colliders. Sweeping the whole segment a projectile covered this
+  // step means fast bullets can't tunnel through thin targets or walls.
+  public sweepSegment(start: THREE.Vector3, end: THREE.Vector3, targets: Entity[] = []): SegmentHit | null {
+    const worldHit = this.castSegment(start, end);
+    let closest: SegmentHit | null = worldHit ? { ...worldHit, entity: null } : null;
+
+    for (const entity of targets) {
+      const hit = this.intersectEntity(start, end, entity);
+      if (hit && (!closest || hit.distance < closest.distance)) {
+        closest = hit;
+      }
+    }
+
+    return closest;
+  }
+
+  // Nearest hitbox the segment enters, or the bounding box for entities
+  // without hitboxes. The bounds reject most misses before the per-part tests.
+  private intersectEntity(start: THREE.Vector3, end: THREE.Vector3, entity: Entity): SegmentHit | null {
+    const collider = entity.collider;
+    if (!collider) return null;
+
     // Expand bounding box slightly for better hit detection
-    enemyBox.expandByScalar(0.1);
-    
-    return enemyBox.containsPoint(projectilePos);
+    const bounds = collider.getBoundingBox().expandByScalar(0.1);
+    const boundsHit = CollisionManager.intersectSegmentBox(start, end, bounds);
+    if (!boundsHit || !collider.getHitboxes) {
+      return boundsHit ? { ...boundsHit, entity } : null;
+    }
+
+    let closest: SegmentHit | null = null;
+    for (const hitbox of collider.getHitboxes()) {
+      const hit = CollisionManager.intersectSegmentHitbox(start, end, hitbox);
+      if (hit && (!closest || hit.distance < closest.distance)) {
+        closest = hitbox.zone === 'shield'
+          ? { ...hit, entity, blocked: true }
+          : { ...hit, entity, hitZone: hitbox.zone };
+      }
+    }
+    return closest;
+  }
+
+  // Hitboxes turn with their model, so the segment is moved into the model's
+  // space and tested against the unturned box. Testing the world bounds
+  // instead would make a turned shield block shots from the side.
+  private static intersectSegmentHitbox(start: THREE.Vector3, end: THREE.Vector3, hitbox: Hitbox): SurfaceHit | null {
+    const toLocal = hitbox.matrix.clone().invert();
+    const hit = CollisionManager.intersectSegmentBox(
+      start.clone().applyMatrix4(toLocal),
+      end.clone().applyMatrix4(toLocal),
+      hitbox.localBox
+    );
+    if (!hit) return null;
+
+    const point = hit.point.applyMatrix4(hitbox.matrix);
+    const normal = hit.normal.applyNormalMatrix(new THREE.Matrix3().getNormalMatrix(hitbox.matrix));
+    return { point, normal, distance: start.distanceTo(point) };
+  }
+
+  // Slab test; the normal is the face of the box the segment enters through
+  public static intersectSegmentBox(
+    start: THREE.Vector3,
+    end: THREE.Vector3,
+    box: THREE.Box3
+  ): SurfaceHit | null {
+    const direction = new THREE.Vector3().subVectors(end, start);
+    const normal = new THREE.Vector3();
+    let tMin = 0;
+    let tMax = 1;
+
+    for (const axis of ['x', 'y', 'z'] as const) {
+      const origin = start[axis];
+      const d = direction[axis];
+
+      if (Math.abs(d) < 1e-9) {
+        // Parallel to this slab: must already be inside it
+        if (origin < box.min[axis] || origin > box.max[axis]) return null;
+        continue;
+      }
+
+      let tNear = (box.min[axis] - origin) / d;
+      let tFar = (box.max[axis] - origin) / d;
+      let side = -1;
+      if (tNear > tFar) {
+        [tNear, tFar] = [tFar, tNear];
+        side = 1;
+      }
+
+      if (tNear > tMin) {
+        tMin = tNear;
+        normal.set(0, 0, 0);
+        normal[axis] = side;
+      }
+      tMax = Math.min(tMax, tFar);
+      if (tMin > tMax) return null;
+    }
+
+    // Started inside the box: report the hit at the start, facing back along the path
+    if (normal.lengthSq() === 0) {
+      normal.copy(direction).negate().normalize();
+    }
+
+    return {
+      point: start.clone().addScaledVector(direction, tMin),
+      normal,
+      distance: direction.length() * tMin
+    };
   }
 
   public raycast(
     origin: THREE.Vector3, 
     direction: THREE.Vector3, 
     maxDistance: number = 100
-  ): { point: THREE.Vector3; distance: number } | null {
-    const ray = new THREE.Ray(origin, direction.normalize());
-    let closestHit: { point: THREE.Vector3; distance: number } | null = null;
-
-    for (const collider of this.colliders) {
-      const intersection = ray.intersectBox(collider, new THREE.Vector3());
-      
-      if (intersection) {
-        const distance = origin.distanceTo(intersection);
-        
-        if (distance <= maxDistance && (!closestHit || distance < closestHit.distance)) {
-          closestHit = {
-            point: intersection,
-            distance: distance
-          };
-        }
-      }
-    }
-
-    return closestHit;
+  ): SurfaceHit | null {
+    const end = origin.clone().addScaledVector(direction.clone().normalize(), maxDistance);
+    return this.castSegment(origin, end);
   }
   
   public getColliders(): THREE.Box3[] {
@@ -18,6 +18,10 @@ export class InputManager {
   public isAiming = false; // Right-click scope/ADS
   public isReloading = false;
   public interactPressed = false; // Single press detection
+  // Fire button went down since the last consumeTriggerPull(); catches taps
+  // that start and end between two simulation steps
+  public triggerPulled = false;
+  public fireModePressed = false;
   
   // Mobile controls
   public mobileControls: MobileControls | null = null;
@@ -69,6 +73,16 @@ export class InputManager {
       this.interactPressed = true;
       mc.interactPressed = false;
     }
+    
+    if (mc.shootTapped) {
+      this.triggerPulled = true;
+      mc.shootTapped = false;
+    }
+    
+    if (mc.fireModePressed) {
+      this.fireModePressed = true;
+      mc.fireModePressed = false;
+    }
   }
   
   // Get mobile look delta (for camera rotation)
@@ -113,6 +127,9 @@ export class InputManager {
       case 'KeyQ':
         this.keys.up = true;
         break;
+      case 'KeyV':
+        if (!event.repeat) this.fireModePressed = true;
+        break;
       case 'KeyZ':
         this.keys.down = true;
         break;
@@ -169,6 +186,7 @@ export class InputManager {
   private onMouseDown(event: MouseEvent): void {
     if (event.button === 0) {
       this.isMouseDown = true;
+      this.triggerPulled = true;
     }
     if (event.button === 2) {
       this.isAiming = true;
@@ -191,4 +209,16 @@ export class InputManager {
     }
     return false;
   }
+
+  public consumeTriggerPull(): boolean {
+    const pulled = this.triggerPulled;
+    this.triggerPulled = false;
+    return pulled;
+  }
+
+  public consumeFireModeToggle(): boolean {
+    const pressed = this.fireModePressed;
+    this.fireModePressed = false;
+    return pressed;
+  }
 }
@@ -4,7 +4,8 @@ export class KillstreakSystem {
   private comboTimer = 0;
   private comboTimeout = 3.0; // seconds
   private maxCombo = 0;
-  private lastKillTime = 0;
+  private time = 0; // Game time, advanced by update()
+  private lastKillTime = -Infinity;
   private streakNotification: HTMLDivElement | null = null;
   private comboDisplay: HTMLDivElement | null = null;
 
@@ -18,8 +19,9 @@ export class KillstreakSystem {
     25: { name: 'Godlike!', color: '#00ffff' }
   };
 
-  constructor() {
-    this.createUI();
+  // Pass showUI = false to track streaks without touching the DOM (headless simulation)
+  constructor(showUI: boolean = true) {
+    if (showUI) this.createUI();
   }
 
   private createUI(): void {
@@ -62,7 +64,7 @@ export class KillstreakSystem {
   }
 
   public registerKill(): void {
-    const now = performance.now() / 1000;
+    const now = this.time;
     this.totalKills++;
     
     // Check if within combo timeout
@@ -154,6 +156,8 @@ export class KillstreakSystem {
   }
 
   public update(delta: number): void {
+    this.time += delta;
+
     if (this.comboTimer > 0) {
       this.comboTimer -= delta;
       
@@ -213,7 +217,7 @@ export class KillstreakSystem {
     this.totalKills = 0;
     this.comboTimer = 0;
     this.maxCombo = 0;
-    this.lastKillTime = 0;
+    this.lastKillTime = -Infinity;
   }
 
   public destroy(): void {
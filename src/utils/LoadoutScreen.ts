@@ -0,0 +1,218 @@
+import { ATTACHMENT_SLOTS, AttachmentSlot, AttachmentStat, WEAPONS, WEAPON_SLOTS, WeaponConfig, WeaponId, WeaponSlot } from '../weapons/WeaponData';
+import { AttachmentSelection, applyAttachments } from '../weapons/Attachments';
+import { DEFAULT_LOADOUT, LoadoutSelection } from '../weapons/Loadout';
+
+const STORAGE_KEY = 'cuteBlaster.loadout';
+
+const SLOT_LABELS: Record<WeaponSlot, string> = {
+  primary: 'Primary',
+  secondary: 'Secondary',
+  sidearm: 'Sidearm'
+};
+
+const ATTACHMENT_SLOT_LABELS: Record<AttachmentSlot, string> = {
+  optic: 'Optic',
+  barrel: 'Barrel',
+  magazine: 'Magazine',
+  underbarrel: 'Underbarrel',
+  stock: 'Stock'
+};
+
+const STAT_LABELS: Record<AttachmentStat, string> = {
+  spread: 'Hip spread',
+  aimSpread: 'Aim spread',
+  aimFOV: 'Aim FOV',
+  maxAmmo: 'Magazine',
+  reloadTime: 'Reload time',
+  recoil: 'Recoil',
+  muzzleVelocity: 'Bullet speed'
+};
+
+interface SavedLoadout {
+  selection: LoadoutSelection;
+  attachments: AttachmentSelection;
+}
+
+export type DeployCallback = () => void;
+
+// Pre-deploy screen for picking a weapon per slot and its attachments.
+// The choice is saved in localStorage and comes back next visit.
+export class LoadoutScreen {
+  private container: HTMLElement | null;
+  private slotsEl: HTMLElement | null;
+  private selection: LoadoutSelection;
+  // Kept for every weapon tried, so switching back restores its attachments
+  private attachments: AttachmentSelection;
+  private deployListeners: DeployCallback[] = [];
+
+  constructor() {
+    this.container = document.getElementById('loadout-screen');
+    this.slotsEl = document.getElementById('loadout-slots');
+    const saved = this.load();
+    this.selection = saved.selection;
+    this.attachments = saved.attachments;
+
+    document.getElementById('loadout-close')?.addEventListener('click', () => this.hide());
+    document.getElementById('loadout-deploy-btn')?.addEventListener('click', () => {
+      this.save();
+      this.hide();
+      this.deployListeners.forEach(listener => listener());
+    });
+  }
+
+  public onDeploy(callback: DeployCallback): void {
+    this.deployListeners.push(callback);
+  }
+
+  public show(): void {
+    this.render();
+    if (this.container) this.container.style.display = 'flex';
+  }
+
+  public hide(): void {
+    if (this.container) this.container.style.display = 'none';
+  }
+
+  public getSelection(): LoadoutSelection {
+    return { ...this.selection };
+  }
+
+  // Only the weapons in the selection
+  public getAttachments(): AttachmentSelection {
+    const attachments: AttachmentSelection = {};
+    WEAPON_SLOTS.forEach(slot => {
+      const id = this.selection[slot];
+      if (id && this.attachments[id]) attachments[id] = [...this.attachments[id]!];
+    });
+    return attachments;
+  }
+
+  private render(): void {
+    if (!this.slotsEl) return;
+    this.slotsEl.innerHTML = '';
+    WEAPON_SLOTS.forEach(slot => this.slotsEl!.appendChild(this.renderSlot(slot)));
+  }
+
+  private renderSlot(slot: WeaponSlot): HTMLElement {
+    const el = document.createElement('div');
+    el.className = 'loadout-slot';
+    const id = this.selection[slot]!;
+    const config = applyAttachments(WEAPONS.get(id), this.attachments[id] ?? []);
+
+    const label = document.createElement('div');
+    label.className = 'loadout-slot-label';
+    label.textContent = SLOT_LABELS[slot];
+    el.appendChild(label);
+
+    const weapons = WEAPONS.getAll().filter(weapon => weapon.slot === slot);
+    const weaponSelect = this.createSelect(
+      weapons.map(weapon => ({ value: weapon.id, text: `${weapon.icon} ${weapon.name}` })),
+      id,
+      value => {
+        this.selection[slot] = value;
+        this.render();
+      }
+    );
+    weaponSelect.classList.add('loadout-weapon');
+    el.appendChild(weaponSelect);
+
+    ATTACHMENT_SLOTS.filter(attachmentSlot => config.mounts[attachmentSlot]).forEach(attachmentSlot => {
+      el.appendChild(this.renderAttachmentSlot(id, attachmentSlot));
+    });
+
+    const stats = document.createElement('div');
+    stats.className = 'loadout-stats';
+    stats.textContent = this.describe(config);
+    el.appendChild(stats);
+    return el;
+  }
+
+  private renderAttachmentSlot(weapon: WeaponId, slot: AttachmentSlot): HTMLElement {
+    const row = document.createElement('label');
+    row.className = 'loadout-attachment';
+    row.textContent = ATTACHMENT_SLOT_LABELS[slot];
+
+    const fitting = WEAPONS.getAttachmentsFor(weapon).filter(attachment => attachment.slot === slot);
+    const current = (this.attachments[weapon] ?? []).find(id => WEAPONS.getAttachment(id).slot === slot) ?? '';
+    const options = [{ value: '', text: 'None' }, ...fitting.map(attachment => ({
+      value: attachment.id,
+      text: `${attachment.name} (${this.describeModifiers(attachment.modifiers)})`
+    }))];
+    row.appendChild(this.createSelect(options, current, value => {
+      const others = (this.attachments[weapon] ?? []).filter(id => WEAPONS.getAttachment(id).slot !== slot);
+      this.attachments[weapon] = value ? [...others, value] : others;
+      this.render();
+    }));
+    return row;
+  }
+
+  private createSelect(
+    options: { value: string; text: string }[],
+    selected: string,
+    onChange: (value: string) => void
+  ): HTMLSelectElement {
+    const select = document.createElement('select');
+    options.forEach(({ value, text }) => {
+      const option = document.createElement('option');
+      option.value = value;
+      option.textContent = text;
+      option.selected = value === selected;
+      select.appendChild(option);
+    });
+    select.addEventListener('change', () => onChange(select.value));
+    return select;
+  }
+
+  private describeModifiers(modifiers: Partial<Record<AttachmentStat, number>>): string {
+    return (Object.keys(modifiers) as AttachmentStat[]).map(stat => {
+      const percent = Math.round((modifiers[stat]! - 1) * 100);
+      return `${STAT_LABELS[stat]} ${percent > 0 ? '+' : ''}${percent}%`;
+    }).join(', ');
+  }
+
+  private describe(config: WeaponConfig): string {
+    return `Damage ${config.damage} · Mag ${config.maxAmmo} · Reload ${config.reloadTime.toFixed(1)}s · ` +
+      `${Math.round(config.ballistics.muzzleVelocity)} m/s`;
+  }
+
+  // The saved loadout, with anything no longer in weapons.json dropped;
+  // the default loadout when nothing usable was saved
+  private load(): SavedLoadout {
+    const fallback = { selection: { ...DEFAULT_LOADOUT }, attachments: {} };
+    let saved: Partial<SavedLoadout>;
+    try {
+      saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null') ?? {};
+    } catch (e) {
+      return fallback;
+    }
+
+    const selection: LoadoutSelection = {};
+    WEAPON_SLOTS.forEach(slot => {
+      const id = saved.selection?.[slot];
+      const valid = typeof id === 'string' && WEAPONS.has(id) && WEAPONS.get(id).slot === slot;
+      selection[slot] = valid ? id : DEFAULT_LOADOUT[slot];
+    });
+
+    const attachments: AttachmentSelection = {};
+    Object.entries(saved.attachments ?? {}).forEach(([weapon, ids]) => {
+      if (!WEAPONS.has(weapon) || !Array.isArray(ids)) return;
+      const fitting = WEAPONS.getAttachmentsFor(weapon);
+      const filled = new Set<AttachmentSlot>();
+      attachments[weapon] = ids.filter(id => {
+        const attachment = fitting.find(candidate => candidate.id === id);
+        if (!attachment || filled.has(attachment.slot)) return false;
+        filled.add(attachment.slot);
+        return true;
+      });
+    });
+    return { selection, attachments };
+  }
+
+  private save(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify({ selection: this.selection, attachments: this.attachments }));
+    } catch (e) {
+      // Storage disabled; the choice just won't be remembered
+    }
+  }
+}
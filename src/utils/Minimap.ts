@@ -1,5 +1,5 @@
 import * as THREE from 'three';
-import { Enemy } from '../entities/Enemy';
+import { Entity } from '../entities/EntityRegistry';
 
 export class Minimap {
   private canvas: HTMLCanvasElement;
@@ -27,7 +27,8 @@ export class Minimap {
     this.ctx = this.canvas.getContext('2d')!;
   }
 
-  public update(camera: THREE.Camera, enemies: Enemy[]): void {
+  // Draws the given registry entities as hostile contacts
+  public update(camera: THREE.Camera, contacts: Entity[]): void {
     // Clear canvas
     this.ctx.clearRect(0, 0, this.size, this.size);
     
@@ -66,10 +67,10 @@ export class Minimap {
     const playerAngle = Math.atan2(playerDir.x, playerDir.z);
     
     // Draw enemies
-    enemies.forEach(enemy => {
-      if (enemy.isDead()) return;
+    contacts.forEach(contact => {
+      if (!contact.alive || (contact.health && contact.health.getHealth() <= 0)) return;
       
-      const enemyPos = enemy.getPosition();
+      const enemyPos = contact.object.position;
       const relativePos = new THREE.Vector3()
         .subVectors(enemyPos, playerPos);
       
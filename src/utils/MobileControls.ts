@@ -16,10 +16,13 @@ export class MobileControls {
   
   // Action buttons
   public shootPressed = false;
+  // Set on every touch of the shoot button, even one released within a frame
+  public shootTapped = false;
   public aimPressed = false;
   public jumpPressed = false;
   public reloadPressed = false;
   public interactPressed = false;
+  public fireModePressed = false;
   
   private lookTouchId: number | null = null;
   private lastLookX = 0;
@@ -81,6 +84,9 @@ export class MobileControls {
         <button id="btn-interact" class="action-btn interact-btn">
           <span class="btn-icon">E</span>
         </button>
+        <button id="btn-firemode" class="action-btn firemode-btn">
+          <span class="btn-icon">🔁</span>
+        </button>
       </div>
     `;
   }
@@ -217,6 +223,15 @@ export class MobileControls {
         font-weight: bold;
       }
       
+      .firemode-btn {
+        position: absolute;
+        bottom: 250px;
+        right: 30px;
+        width: 50px;
+        height: 50px;
+        font-size: 18px;
+      }
+      
       .btn-icon {
         pointer-events: none;
       }
@@ -388,11 +403,14 @@ export class MobileControls {
     const jumpBtn = document.getElementById('btn-jump')!;
     const reloadBtn = document.getElementById('btn-reload')!;
     const interactBtn = document.getElementById('btn-interact')!;
+    const fireModeBtn = document.getElementById('btn-firemode')!;
     
-    // Shoot button (hold to shoot)
+    // Shoot button: held for automatic fire and charging, tapped for single
+    // shots and bursts
     shootBtn.addEventListener('touchstart', (e) => {
       e.preventDefault();
       this.shootPressed = true;
+      this.shootTapped = true;
       shootBtn.classList.add('pressed');
     });
     shootBtn.addEventListener('touchend', () => {
@@ -443,6 +461,16 @@ export class MobileControls {
       this.interactPressed = false;
       interactBtn.classList.remove('pressed');
     });
+    
+    // Fire mode button
+    fireModeBtn.addEventListener('touchstart', (e) => {
+      e.preventDefault();
+      this.fireModePressed = true;
+      fireModeBtn.classList.add('pressed');
+    });
+    fireModeBtn.addEventListener('touchend', () => {
+      fireModeBtn.classList.remove('pressed');
+    });
   }
   
   public resetLookDelta(): void {
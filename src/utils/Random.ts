@@ -0,0 +1,58 @@
+// Seedable pseudo-random generator (mulberry32). Every system that affects the
+// outcome of a match draws from one shared instance so that the same seed and
+// input stream always replay the same match. Purely cosmetic effects (dust,
+// weather particles, audio) may keep using Math.random.
+export class Random {
+  private seed: number;
+  private state: number;
+
+  constructor(seed: number = Random.randomSeed()) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  public static randomSeed(): number {
+    return Math.floor(Math.random() * 0xffffffff);
+  }
+
+  // Uniform float in [0, 1)
+  public next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  // Uniform float in [min, max)
+  public range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  // Uniform integer in [0, max)
+  public int(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+
+  // Centered offset in [-amount / 2, amount / 2)
+  public spread(amount: number): number {
+    return (this.next() - 0.5) * amount;
+  }
+
+  public chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  public pick<T>(items: readonly T[]): T {
+    return items[this.int(items.length)];
+  }
+
+  public getSeed(): number {
+    return this.seed;
+  }
+
+  public reset(seed: number = this.seed): void {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+}
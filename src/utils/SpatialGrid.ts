@@ -0,0 +1,126 @@
+import * as THREE from 'three';
+
+// Uniform grid over the XZ plane for static boxes. Each box is stored in
+// every cell its footprint covers; queries only look at the cells they touch
+// and return each box once. The map is flat enough that Y isn't partitioned.
+export class SpatialGrid<T> {
+  private cellSize: number;
+  private cells = new Map<string, { box: THREE.Box3; item: T; stamp: number }[]>();
+  private queryStamp = 0;
+  private count = 0;
+
+  constructor(cellSize: number = 10) {
+    this.cellSize = cellSize;
+  }
+
+  public insert(box: THREE.Box3, item: T): void {
+    const entry = { box, item, stamp: 0 };
+    this.forEachCellInBounds(box.min.x, box.min.z, box.max.x, box.max.z, (key) => {
+      let cell = this.cells.get(key);
+      if (!cell) {
+        cell = [];
+        this.cells.set(key, cell);
+      }
+      cell.push(entry);
+    });
+    this.count++;
+  }
+
+  public clear(): void {
+    this.cells.clear();
+    this.count = 0;
+  }
+
+  public size(): number {
+    return this.count;
+  }
+
+  // Items whose boxes intersect the given box
+  public queryBox(box: THREE.Box3): T[] {
+    const result: T[] = [];
+    const stamp = ++this.queryStamp;
+
+    this.forEachCellInBounds(box.min.x, box.min.z, box.max.x, box.max.z, (key) => {
+      this.cells.get(key)?.forEach(entry => {
+        if (entry.stamp === stamp) return;
+        entry.stamp = stamp;
+        if (entry.box.intersectsBox(box)) result.push(entry.item);
+      });
+    });
+
+    return result;
+  }
+
+  // Candidate items along a segment, walking only the cells it crosses.
+  // Callers still do the exact segment/box test.
+  public querySegment(start: THREE.Vector3, end: THREE.Vector3): T[] {
+    const result: T[] = [];
+    const stamp = ++this.queryStamp;
+    const minY = Math.min(start.y, end.y);
+    const maxY = Math.max(start.y, end.y);
+
+    const visit = (key: string) => {
+      this.cells.get(key)?.forEach(entry => {
+        if (entry.stamp === stamp) return;
+        entry.stamp = stamp;
+        if (entry.box.max.y < minY || entry.box.min.y > maxY) return;
+        result.push(entry.item);
+      });
+    };
+
+    // 2D DDA (Amanatides & Woo) across the grid
+    let cellX = this.toCell(start.x);
+    let cellZ = this.toCell(start.z);
+    const endX = this.toCell(end.x);
+    const endZ = this.toCell(end.z);
+    const dx = end.x - start.x;
+    const dz = end.z - start.z;
+    const stepX = Math.sign(dx);
+    const stepZ = Math.sign(dz);
+    const tDeltaX = stepX !== 0 ? this.cellSize / Math.abs(dx) : Infinity;
+    const tDeltaZ = stepZ !== 0 ? this.cellSize / Math.abs(dz) : Infinity;
+    let tMaxX = stepX !== 0
+      ? ((stepX > 0 ? (cellX + 1) * this.cellSize : cellX * this.cellSize) - start.x) / dx
+      : Infinity;
+    let tMaxZ = stepZ !== 0
+      ? ((stepZ > 0 ? (cellZ + 1) * this.cellSize : cellZ * this.cellSize) - start.z) / dz
+      : Infinity;
+
+    visit(this.key(cellX, cellZ));
+    while (cellX !== endX || cellZ !== endZ) {
+      if (tMaxX < tMaxZ) {
+        if (tMaxX > 1) break;
+        cellX += stepX;
+        tMaxX += tDeltaX;
+      } else {
+        if (tMaxZ > 1) break;
+        cellZ += stepZ;
+        tMaxZ += tDeltaZ;
+      }
+      visit(this.key(cellX, cellZ));
+    }
+
+    return result;
+  }
+
+  private forEachCellInBounds(minX: number, minZ: number, maxX: number, maxZ: number, callback: (key: string) => void): void {
+    const x0 = this.toCell(minX);
+    const x1 = this.toCell(maxX);
+    const z0 = this.toCell(minZ);
+    const z1 = this.toCell(maxZ);
+
+    for (let x = x0; x <= x1; x++) {
+      for (let z = z0; z <= z1; z++) {
+        callback(this.key(x, z));
+      }
+    }
+  }
+
+  private toCell(value: number): number {
+    return Math.floor(value / this.cellSize);
+  }
+
+  private key(x: number, z: number): string {
+    return x + ',' + z;
+  }
+}
@@ -1,7 +1,9 @@
 import * as THREE from 'three';
+import { Random } from '../utils/Random';
 
 export class Helicopter {
   private scene: THREE.Scene;
+  private random: Random;
   private mesh: THREE.Group;
   private rotor!: THREE.Mesh;
   private tailRotor!: THREE.Mesh;
@@ -12,11 +14,12 @@ export class Helicopter {
   private rotorSpeed = 20;
   private time = 0;
 
-  constructor(scene: THREE.Scene, startPosition: THREE.Vector3) {
+  constructor(scene: THREE.Scene, startPosition: THREE.Vector3, random: Random) {
     this.scene = scene;
+    this.random = random;
     this.mesh = this.createHelicopter();
     this.mesh.position.copy(startPosition);
-    this.mesh.position.y = 40 + Math.random() * 20;
+    this.mesh.position.y = this.random.range(40, 60);
     
     // Create flight path
     this.path = this.generatePath();
@@ -156,14 +159,14 @@ export class Helicopter {
   private generatePath(): THREE.Vector3[] {
     const points: THREE.Vector3[] = [];
     const numPoints = 8;
-    const radius = 80 + Math.random() * 40;
+    const radius = this.random.range(80, 120);
 
     for (let i = 0; i < numPoints; i++) {
       const angle = (i / numPoints) * Math.PI * 2;
       points.push(new THREE.Vector3(
-        Math.cos(angle) * radius + (Math.random() - 0.5) * 30,
-        40 + Math.random() * 20,
-        Math.sin(angle) * radius + (Math.random() - 0.5) * 30
+        Math.cos(angle) * radius + this.random.spread(30),
+        this.random.range(40, 60),
+        Math.sin(angle) * radius + this.random.spread(30)
       ));
     }
 
@@ -213,6 +216,10 @@ export class Helicopter {
     this.shadow.scale.setScalar(Math.max(0.5, heightScale));
   }
 
+  public getMesh(): THREE.Object3D {
+    return this.mesh;
+  }
+
   public getPosition(): THREE.Vector3 {
     return this.mesh.position.clone();
   }
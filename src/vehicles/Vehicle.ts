@@ -1,5 +1,7 @@
 import * as THREE from 'three';
+import { DamageResult, Health } from '../entities/Health';
 import { InputManager } from '../utils/InputManager';
+import { CollisionManager } from '../utils/CollisionManager';
 
 export enum VehicleType {
   CAR = 'car',
@@ -13,7 +15,8 @@ export class Vehicle {
   protected mesh: THREE.Group;
   protected type: VehicleType;
   protected isOccupied = false;
-  protected health = 100;
+  // Armored: bullets barely scratch it, explosions wreck it
+  protected health = new Health(200, { resistances: { bullet: 0.8, melee: 1 } });
   
   // Physics
   protected velocity = new THREE.Vector3();
@@ -29,6 +32,7 @@ export class Vehicle {
   
   // Terrain
   protected getTerrainHeight: ((x: number, z: number) => number) | null = null;
+  protected collision: CollisionManager | null = null;
 
   constructor(scene: THREE.Scene, type: VehicleType, position: THREE.Vector3) {
     this.scene = scene;
@@ -73,6 +77,18 @@ export class Vehicle {
     scene.add(this.mesh);
   }
 
+  public setCollisionManager(collision: CollisionManager): void {
+    this.collision = collision;
+  }
+
+  // Footprint box around the vehicle at a given position
+  private getFootprint(position: THREE.Vector3): THREE.Box3 {
+    return new THREE.Box3().setFromCenterAndSize(
+      new THREE.Vector3(position.x, position.y + 0.75, position.z),
+      new THREE.Vector3(2, 1.5, 2)
+    );
+  }
+
   public setTerrainHeightFunction(fn: (x: number, z: number) => number): void {
     this.getTerrainHeight = fn;
     // Set initial height
@@ -578,9 +594,19 @@ export class Vehicle {
     const direction = new THREE.Vector3(0, 0, 1);
     direction.applyQuaternion(this.mesh.quaternion);
 
-    // Move vehicle
-    this.mesh.position.x += direction.x * this.speed * delta;
-    this.mesh.position.z += direction.z * this.speed * delta;
+    // Move vehicle; crash to a stop against buildings (unless already wedged in one)
+    const next = this.mesh.position.clone();
+    next.x += direction.x * this.speed * delta;
+    next.z += direction.z * this.speed * delta;
+    const blocked = this.collision !== null &&
+      this.collision.intersectsAny(this.getFootprint(next)) &&
+      !this.collision.intersectsAny(this.getFootprint(this.mesh.position));
+    if (blocked) {
+      this.speed = 0;
+    } else {
+      this.mesh.position.x = next.x;
+      this.mesh.position.z = next.z;
+    }
 
     // Get terrain height at vehicle position
     let terrainY = 0;
@@ -673,7 +699,29 @@ export class Vehicle {
     }
   }
 
+  // Wrecked vehicles go dark and can no longer be driven
+  public handleDamage(result: DamageResult): void {
+    if (!result.killed) return;
+
+    this.speed = 0;
+    this.velocity.set(0, 0, 0);
+    this.mesh.traverse((child) => {
+      if (child instanceof THREE.Mesh && child.material instanceof THREE.MeshStandardMaterial) {
+        child.material.color.multiplyScalar(0.3);
+      }
+    });
+  }
+
+  public isWrecked(): boolean {
+    return this.health.isDead();
+  }
+
+  public getHealthComponent(): Health {
+    return this.health;
+  }
+
   public isNear(position: THREE.Vector3): boolean {
+    if (this.isWrecked()) return false;
     return position.distanceTo(this.mesh.position) < this.interactionRadius;
   }
 
@@ -685,6 +733,10 @@ export class Vehicle {
     return this.mesh.position.clone();
   }
 
+  public getMesh(): THREE.Object3D {
+    return this.mesh;
+  }
+
   public getRotation(): THREE.Euler {
     return this.mesh.rotation.clone();
   }
@@ -0,0 +1,58 @@
+import { AttachmentId, AttachmentStat, WEAPONS, WeaponConfig, WeaponId, WeaponPart, WeaponRegistry } from './WeaponData';
+
+// Attachments picked for each weapon; weapons not listed go in bare
+export type AttachmentSelection = Partial<Record<WeaponId, AttachmentId[]>>;
+
+// The weapon's config with the attachments' stat multipliers applied and
+// their parts added to the model at the weapon's mounts. Throws if an
+// attachment doesn't fit the weapon or two share a slot.
+export function applyAttachments(
+  base: WeaponConfig,
+  ids: AttachmentId[],
+  registry: WeaponRegistry = WEAPONS
+): WeaponConfig {
+  if (ids.length === 0) return base;
+
+  const config: WeaponConfig = {
+    ...base,
+    recoil: { ...base.recoil },
+    ballistics: { ...base.ballistics },
+    parts: [...base.parts]
+  };
+  const filled = new Set<string>();
+  ids.forEach(id => {
+    const attachment = registry.getAttachment(id);
+    const mount = base.mounts[attachment.slot];
+    if (!mount) throw new Error(`${base.name} has no ${attachment.slot} mount for '${id}'`);
+    if (filled.has(attachment.slot)) throw new Error(`${base.name} can only take one ${attachment.slot} attachment`);
+    filled.add(attachment.slot);
+
+    (Object.keys(attachment.modifiers) as AttachmentStat[]).forEach(stat => {
+      scaleStat(config, stat, attachment.modifiers[stat]!);
+    });
+    config.parts.push(...attachment.parts.map(part => mountPart(part, mount)));
+  });
+  return config;
+}
+
+function scaleStat(config: WeaponConfig, stat: AttachmentStat, multiplier: number): void {
+  switch (stat) {
+    case 'recoil':
+      config.recoil.kick *= multiplier;
+      config.recoil.pattern = config.recoil.pattern.map(([right, up]) => [right * multiplier, up * multiplier]);
+      break;
+    case 'muzzleVelocity':
+      config.ballistics.muzzleVelocity *= multiplier;
+      break;
+    case 'maxAmmo':
+      config.maxAmmo = Math.max(1, Math.round(config.maxAmmo * multiplier));
+      break;
+    default:
+      config[stat] *= multiplier;
+  }
+}
+
+function mountPart(part: WeaponPart, mount: [number, number, number]): WeaponPart {
+  const offset = part.position ?? [0, 0, 0];
+  return { ...part, position: [mount[0] + offset[0], mount[1] + offset[1], mount[2] + offset[2]] };
+}
@@ -1,5 +1,5 @@
 import * as THREE from 'three';
-import { ParticleSystem } from '../effects/ParticleSystem';
+import { CollisionManager } from '../utils/CollisionManager';
 
 export class Grenade {
   private mesh: THREE.Mesh;
@@ -14,19 +14,16 @@ export class Grenade {
   private bounceCount = 0;
   private maxBounces = 3;
   private bounceDamping = 0.6;
-  private particleSystem: ParticleSystem;
 
   constructor(
     scene: THREE.Scene,
     position: THREE.Vector3,
     direction: THREE.Vector3,
-    throwForce: number,
-    particleSystem: ParticleSystem
+    throwForce: number
   ) {
     this.scene = scene;
     this.position = position.clone();
     this.velocity = direction.clone().multiplyScalar(throwForce);
-    this.particleSystem = particleSystem;
 
     // Create grenade mesh
     this.mesh = this.createGrenadeMesh();
@@ -73,7 +70,11 @@ export class Grenade {
     return grenade;
   }
 
-  public update(delta: number, getTerrainHeight: (x: number, z: number) => number): boolean {
+  public update(
+    delta: number,
+    getTerrainHeight: (x: number, z: number) => number,
+    collision: CollisionManager
+  ): boolean {
     if (this.exploded) return true;
 
     this.timer += delta;
@@ -88,8 +89,16 @@ export class Grenade {
     this.velocity.y -= this.gravity * delta;
 
     // Update position
+    const previous = this.position.clone();
     this.position.add(this.velocity.clone().multiplyScalar(delta));
 
+    // Bounce off walls: reflect velocity about the surface normal
+    const wallHit = collision.castSegment(previous, this.position);
+    if (wallHit) {
+      this.position.copy(wallHit.point).addScaledVector(wallHit.normal, 0.15);
+      this.velocity.reflect(wallHit.normal).multiplyScalar(this.bounceDamping);
+    }
+
     // Check ground collision
     const terrainHeight = getTerrainHeight(this.position.x, this.position.z);
     if (this.position.y <= terrainHeight + 0.15) {
@@ -128,29 +137,9 @@ export class Grenade {
     return false;
   }
 
+  // Explosion visuals are left to the renderer - this only ends the grenade's life
   private explode(): void {
     this.exploded = true;
-
-    // Create explosion effect
-    this.particleSystem.createExplosion(this.position);
-
-    // Create explosion light
-    const explosionLight = new THREE.PointLight(0xff6600, 10, 30);
-    explosionLight.position.copy(this.position);
-    this.scene.add(explosionLight);
-
-    // Fade out light
-    let lightIntensity = 10;
-    const fadeInterval = setInterval(() => {
-      lightIntensity -= 0.5;
-      explosionLight.intensity = lightIntensity;
-      if (lightIntensity <= 0) {
-        this.scene.remove(explosionLight);
-        clearInterval(fadeInterval);
-      }
-    }, 50);
-
-    // Remove grenade mesh
     this.scene.remove(this.mesh);
   }
 
@@ -158,6 +147,10 @@ export class Grenade {
     return this.position;
   }
 
+  public getMesh(): THREE.Object3D {
+    return this.mesh;
+  }
+
   public hasExploded(): boolean {
     return this.exploded;
   }
@@ -180,13 +173,13 @@ export class Grenade {
 export class GrenadeSystem {
   private grenades: Grenade[] = [];
   private scene: THREE.Scene;
-  private particleSystem: ParticleSystem;
+  private collision: CollisionManager;
   private grenadeCount = 3;
   private maxGrenades = 5;
 
-  constructor(scene: THREE.Scene, particleSystem: ParticleSystem) {
+  constructor(scene: THREE.Scene, collision: CollisionManager) {
     this.scene = scene;
-    this.particleSystem = particleSystem;
+    this.collision = collision;
   }
 
   public throwGrenade(
@@ -196,32 +189,35 @@ export class GrenadeSystem {
   ): boolean {
     if (this.grenadeCount <= 0) return false;
 
+    this.launch(position, direction, throwForce);
+    this.grenadeCount--;
+    return true;
+  }
+
+  // Throws a grenade without using up the carried supply (enemy throws)
+  public launch(position: THREE.Vector3, direction: THREE.Vector3, throwForce: number): Grenade {
     const grenade = new Grenade(
       this.scene,
       position,
       direction,
-      throwForce,
-      this.particleSystem
+      throwForce
     );
 
     this.grenades.push(grenade);
-    this.grenadeCount--;
-    return true;
+    return grenade;
   }
 
-  public update(delta: number, getTerrainHeight: (x: number, z: number) => number): void {
-    // Update all grenades
+  // Returns the grenades that exploded this update so callers can apply damage
+  public update(delta: number, getTerrainHeight: (x: number, z: number) => number): Grenade[] {
+    const exploded: Grenade[] = [];
     for (let i = this.grenades.length - 1; i >= 0; i--) {
-      const exploded = this.grenades[i].update(delta, getTerrainHeight);
-      if (exploded) {
+      if (this.grenades[i].update(delta, getTerrainHeight, this.collision)) {
+        exploded.push(this.grenades[i]);
         this.grenades[i].destroy();
         this.grenades.splice(i, 1);
       }
     }
-  }
-
-  public getActiveGrenades(): Grenade[] {
-    return this.grenades.filter(g => g.hasExploded());
+    return exploded;
   }
 
   public getAllGrenades(): Grenade[] {
@@ -0,0 +1,175 @@
+import { AmmoTypeId, AttachmentId, WEAPONS, WEAPON_SLOTS, WeaponConfig, WeaponId, WeaponRegistry, WeaponSlot } from './WeaponData';
+import { AttachmentSelection, applyAttachments } from './Attachments';
+
+// Weapon picked for each slot at the start of a match; slots can be left empty
+export type LoadoutSelection = Partial<Record<WeaponSlot, WeaponId>>;
+
+export const DEFAULT_LOADOUT: LoadoutSelection = {
+  primary: 'rifle',
+  secondary: 'shotgun',
+  sidearm: 'pistol'
+};
+
+// A weapon in a slot and the rounds in its magazine. config already has
+// the attachments applied.
+export interface CarriedWeapon {
+  config: WeaponConfig;
+  attachments: AttachmentId[];
+  magazine: number;
+}
+
+// A weapon lying on the ground and the rounds that come with it
+export interface WeaponDrop {
+  weapon: WeaponId;
+  magazine: number;
+  reserve: number;
+  // Left on by whoever dropped it; enemy weapons come bare
+  attachments?: AttachmentId[];
+}
+
+export type LoadoutChangeCallback = (weapon: CarriedWeapon) => void;
+
+// The weapons the player carries, one per slot, and their ammo. Magazines
+// belong to each weapon, reserve rounds to the ammo type, so weapons that
+// fire the same rounds draw on the same reserve.
+export class Loadout {
+  private registry: WeaponRegistry;
+  private selection: LoadoutSelection = {};
+  private attachments: AttachmentSelection = {};
+  private slots = new Map<WeaponSlot, CarriedWeapon>();
+  private ammo = new Map<AmmoTypeId, number>();
+  private activeSlot: WeaponSlot = 'primary';
+  private listeners: LoadoutChangeCallback[] = [];
+
+  constructor(
+    selection: LoadoutSelection = DEFAULT_LOADOUT,
+    attachments: AttachmentSelection = {},
+    registry: WeaponRegistry = WEAPONS
+  ) {
+    this.registry = registry;
+    this.setSelection(selection, attachments);
+  }
+
+  // Changes the starting weapons and their attachments, then resets to them.
+  // Throws, leaving the loadout as it was, if a weapon is in the wrong slot
+  // or an attachment doesn't fit.
+  public setSelection(selection: LoadoutSelection, attachments: AttachmentSelection = {}): void {
+    WEAPON_SLOTS.forEach(slot => {
+      const id = selection[slot];
+      if (!id) return;
+      const config = this.registry.get(id);
+      if (config.slot !== slot) throw new Error(`Weapon '${id}' goes in the ${config.slot} slot, not ${slot}`);
+      applyAttachments(config, attachments[id] ?? [], this.registry);
+    });
+    if (!WEAPON_SLOTS.some(slot => selection[slot])) throw new Error('Loadout needs at least one weapon');
+    this.selection = { ...selection };
+    this.attachments = { ...attachments };
+    this.reset();
+  }
+
+  // Back to the starting weapons with full magazines and their reserve rounds
+  public reset(): void {
+    this.slots.clear();
+    this.ammo.clear();
+    WEAPON_SLOTS.forEach(slot => {
+      const id = this.selection[slot];
+      if (!id) return;
+      const weapon = this.createWeapon(id, this.attachments[id] ?? []);
+      this.slots.set(slot, { ...weapon, magazine: weapon.config.maxAmmo });
+      this.addAmmo(weapon.config.ammoType, weapon.config.reserveAmmo);
+    });
+    this.activeSlot = WEAPON_SLOTS.find(slot => this.slots.has(slot))!;
+    this.notify();
+  }
+
+  // Called whenever the weapon in hand changes: a slot switch or a pickup
+  public onChange(callback: LoadoutChangeCallback): void {
+    this.listeners.push(callback);
+  }
+
+  private notify(): void {
+    const active = this.getActive();
+    this.listeners.forEach(listener => listener(active));
+  }
+
+  // False when the slot is empty or already in hand
+  public selectSlot(slot: WeaponSlot): boolean {
+    if (slot === this.activeSlot || !this.slots.has(slot)) return false;
+    this.activeSlot = slot;
+    this.notify();
+    return true;
+  }
+
+  // Takes one round from the magazine in hand; false when it's empty
+  public consumeRound(): boolean {
+    const active = this.getActive();
+    if (active.magazine === 0) return false;
+    active.magazine--;
+    return true;
+  }
+
+  // Refills the magazine in hand from its reserve; returns the rounds moved
+  public reload(): number {
+    const active = this.getActive();
+    const type = active.config.ammoType;
+    const rounds = Math.min(active.config.maxAmmo - active.magazine, this.getReserve(type));
+    active.magazine += rounds;
+    this.ammo.set(type, this.getReserve(type) - rounds);
+    return rounds;
+  }
+
+  // Adds reserve rounds up to the type's carry limit; returns how many fit
+  public addAmmo(type: AmmoTypeId, amount: number): number {
+    const current = this.getReserve(type);
+    const added = Math.max(0, Math.min(amount, this.registry.getAmmoType(type).maxCarry - current));
+    this.ammo.set(type, current + added);
+    return added;
+  }
+
+  // Tops up every ammo type a carried weapon fires by a fraction of its carry limit
+  public resupply(fraction: number): void {
+    const types = new Set([...this.slots.values()].map(weapon => weapon.config.ammoType));
+    types.forEach(type => this.addAmmo(type, Math.ceil(this.registry.getAmmoType(type).maxCarry * fraction)));
+  }
+
+  // Moves rounds from a drop of a weapon already carried into the reserve,
+  // taking them out of the drop; returns how many were taken
+  public collectAmmo(drop: WeaponDrop): number {
+    if (!this.carries(drop.weapon)) return 0;
+    const taken = this.addAmmo(this.registry.get(drop.weapon).ammoType, drop.reserve + drop.magazine);
+    const fromReserve = Math.min(taken, drop.reserve);
+    drop.reserve -= fromReserve;
+    drop.magazine -= taken - fromReserve;
+    return taken;
+  }
+
+  // Puts a dropped weapon in its slot and takes it in hand. Returns the weapon
+  // it replaced, magazine and attachments and all, to be left on the ground.
+  public pickUp(drop: WeaponDrop): WeaponDrop | null {
+    const weapon = this.createWeapon(drop.weapon, drop.attachments ?? []);
+    const slot = weapon.config.slot;
+    const replaced = this.slots.get(slot);
+    this.slots.set(slot, { ...weapon, magazine: drop.magazine });
+    this.addAmmo(weapon.config.ammoType, drop.reserve);
+    this.activeSlot = slot;
+    this.notify();
+    return replaced
+      ? { weapon: replaced.config.id, magazine: replaced.magazine, reserve: 0, attachments: replaced.attachments }
+      : null;
+  }
+
+  private createWeapon(id: WeaponId, attachments: AttachmentId[]): Omit<CarriedWeapon, 'magazine'> {
+    return { config: applyAttachments(this.registry.get(id), attachments, this.registry), attachments: [...attachments] };
+  }
+
+  public carries(id: WeaponId): boolean {
+    return [...this.slots.values()].some(weapon => weapon.config.id === id);
+  }
+
+  public getSelection(): LoadoutSelection { return { ...this.selection }; }
+  public getAttachmentSelection(): AttachmentSelection { return { ...this.attachments }; }
+  public getActiveSlot(): WeaponSlot { return this.activeSlot; }
+  public getActive(): CarriedWeapon { return this.slots.get(this.activeSlot)!; }
+  public getWeapon(slot: WeaponSlot): CarriedWeapon | null { return this.slots.get(slot) ?? null; }
+  public getReserve(type: AmmoTypeId = this.getActive().config.ammoType): number { return this.ammo.get(type) ?? 0; }
+}
@@ -1,16 +1,19 @@
 import * as THREE from 'three';
 import { Projectile } from '../entities/Projectile';
+import { Random } from '../utils/Random';
 
 export class Weapon {
   private camera: THREE.PerspectiveCamera;
   private scene: THREE.Scene;
+  private random: Random;
   private mesh: THREE.Group;
   private scopeOverlay: HTMLDivElement | null = null;
   private currentAmmo = 30;
   private reserveAmmo = 90;
   private maxAmmo = 30;
   private fireRate = 10; // shots per second
-  private lastShotTime = 0;
+  private time = 0; // Game time, advanced by update()
+  private lastShotTime = -Infinity;
   private isReloading = false;
   private reloadTime = 1.5;
   private reloadTimer = 0;
@@ -27,9 +30,10 @@ export class Weapon {
   private aimPosition = new THREE.Vector3(0, -0.12, -0.35);
   private aimTransition = 0; // 0 = hip fire, 1 = fully aimed
 
-  constructor(camera: THREE.PerspectiveCamera, scene: THREE.Scene) {
+  constructor(camera: THREE.PerspectiveCamera, scene: THREE.Scene, random: Random) {
     this.camera = camera;
     this.scene = scene;
+    this.random = random;
     this.mesh = this.createWeaponMesh();
     camera.add(this.mesh);
     this.createScopeOverlay();
@@ -185,6 +189,8 @@ export class Weapon {
   }
 
   public update(delta: number, aiming: boolean = false): void {
+    this.time += delta;
+
     // Update aiming state
     this.isAiming = aiming && !this.isReloading;
     
@@ -246,9 +252,8 @@ export class Weapon {
   }
 
   public canShoot(): boolean {
-    const now = performance.now();
-    const timeSinceLastShot = now - this.lastShotTime;
-    const minTimeBetweenShots = 1000 / this.fireRate;
+    const timeSinceLastShot = this.time - this.lastShotTime;
+    const minTimeBetweenShots = 1 / this.fireRate;
     
     return !this.isReloading && 
            this.currentAmmo > 0 && 
@@ -258,7 +263,7 @@ export class Weapon {
   public shoot(): Projectile | null {
     if (!this.canShoot()) return null;
 
-    this.lastShotTime = performance.now();
+    this.lastShotTime = this.time;
     this.currentAmmo--;
     this.recoilAmount = this.isAiming ? 0.5 : 1; // Less recoil when aiming
 
@@ -271,9 +276,9 @@ export class Weapon {
 
     // Add spread (much less when aiming)
     const spread = this.isAiming ? 0.005 : 0.02;
-    direction.x += (Math.random() - 0.5) * spread;
-    direction.y += (Math.random() - 0.5) * spread;
-    direction.z += (Math.random() - 0.5) * spread;
+    direction.x += this.random.spread(spread);
+    direction.y += this.random.spread(spread);
+    direction.z += this.random.spread(spread);
 
     // Create muzzle flash effect
     this.createMuzzleFlash();
@@ -325,6 +330,10 @@ export class Weapon {
     return this.reserveAmmo;
   }
 
+  public isReloadingState(): boolean {
+    return this.isReloading;
+  }
+
   public hide(): void {
     this.mesh.visible = false;
   }
@@ -0,0 +1,494 @@
+import { HIT_ZONE_MULTIPLIERS, HitZone } from '../entities/Health';
+import weaponData from './weapons.json';
+
+export type WeaponId = string;
+export type AmmoTypeId = string;
+export type AttachmentId = string;
+
+// A loadout carries at most one weapon per slot
+export type WeaponSlot = 'primary' | 'secondary' | 'sidearm';
+export const WEAPON_SLOTS: WeaponSlot[] = ['primary', 'secondary', 'sidearm'];
+
+// Rounds shared by every weapon that fires them
+export interface AmmoType {
+  id: AmmoTypeId;
+  name: string;
+  // Most reserve rounds the player can carry
+  maxCarry: number;
+}
+
+// auto fires while the trigger is held, semi once per pull, burst burstCount
+// rounds per pull, charge builds up while held and fires on release, bolt
+// fires once per pull and then spends boltTime chambering the next round
+export type FireMode = 'auto' | 'semi' | 'burst' | 'charge' | 'bolt';
+const FIRE_MODES: FireMode[] = ['auto', 'semi', 'burst', 'charge', 'bolt'];
+
+export const FIRE_MODE_NAMES: Record<FireMode, string> = {
+  auto: 'Full Auto',
+  semi: 'Semi-Auto',
+  burst: 'Burst',
+  charge: 'Charge',
+  bolt: 'Bolt-Action'
+};
+
+// Extra field each fire mode needs
+const FIRE_MODE_FIELDS: Partial<Record<FireMode, 'burstCount' | 'chargeTime' | 'boltTime'>> = {
+  burst: 'burstCount',
+  charge: 'chargeTime',
+  bolt: 'boltTime'
+};
+
+export type WeaponPartShape = 'box' | 'cylinder';
+const PART_SHAPES: WeaponPartShape[] = ['box', 'cylinder'];
+
+// One piece of the first-person model, relative to the weapon's origin
+export interface WeaponPart {
+  shape: WeaponPartShape;
+  // box: width, height, depth; cylinder: radius, length
+  size: number[];
+  position?: [number, number, number];
+  // Degrees
+  rotation?: [number, number, number];
+  // CSS hex colour, e.g. "#5A5A68"
+  color: string;
+}
+
+// Where an attachment goes on a weapon; each weapon takes one per slot it
+// has a mount for
+export type AttachmentSlot = 'optic' | 'barrel' | 'magazine' | 'underbarrel' | 'stock';
+export const ATTACHMENT_SLOTS: AttachmentSlot[] = ['optic', 'barrel', 'magazine', 'underbarrel', 'stock'];
+
+// Weapon stats an attachment can scale. recoil scales the kick and the
+// pattern, muzzleVelocity the ballistics.
+export type AttachmentStat = 'spread' | 'aimSpread' | 'aimFOV' | 'maxAmmo' | 'reloadTime' | 'recoil' | 'muzzleVelocity';
+export const ATTACHMENT_STATS: AttachmentStat[] = ['spread', 'aimSpread', 'aimFOV', 'maxAmmo', 'reloadTime', 'recoil', 'muzzleVelocity'];
+
+export interface AttachmentConfig {
+  id: AttachmentId;
+  name: string;
+  slot: AttachmentSlot;
+  // Multipliers on the weapon's stats, e.g. 0.8 for 20% less
+  modifiers: Partial<Record<AttachmentStat, number>>;
+  // Added to the weapon model, relative to the weapon's mount for the slot
+  parts: WeaponPart[];
+}
+
+export type ToneWave = 'sine' | 'square' | 'sawtooth' | 'triangle';
+const TONE_WAVES: ToneWave[] = ['sine', 'square', 'sawtooth', 'triangle'];
+
+// Synthesised sound effect: a tone that decays over duration seconds
+export interface WeaponSound {
+  wave: ToneWave;
+  frequency: number;
+  duration: number;
+  volume: number;
+}
+
+// How the weapon kicks when fired. Deterministic, so a spray always climbs
+// the same way and can be learned.
+export interface WeaponRecoil {
+  // Viewmodel kick per shot
+  kick: number;
+  // Camera kick in degrees as [right, up] for each consecutive shot of a
+  // spray; the last entry repeats
+  pattern: [number, number][];
+  // Degrees per second the view settles back once the spray stops
+  recovery: number;
+}
+
+// Damage multiplier by distance as [metres, multiplier] points in order of
+// distance; flat before the first point and after the last, linear between
+export type FalloffCurve = [number, number][];
+
+// How rounds fly once they leave the barrel
+export interface WeaponBallistics {
+  // Metres per second; slower rounds drop more and need more lead
+  muzzleVelocity: number;
+  falloff: FalloffCurve;
+  // Colour of the streak each round leaves
+  tracer: string;
+}
+
+export interface WeaponConfig {
+  id: WeaponId;
+  name: string;
+  // Shown next to the name in the HUD
+  icon: string;
+  slot: WeaponSlot;
+  ammoType: AmmoTypeId;
+  damage: number;
+  fireRate: number;
+  // The first is the default; the fire mode key cycles through the rest
+  fireModes: FireMode[];
+  // Rounds per trigger pull in burst mode
+  burstCount?: number;
+  // Seconds of holding the trigger for a full-power charge shot
+  chargeTime?: number;
+  // Seconds to chamber the next round after a bolt-action shot; aiming
+  // down sights isn't possible meanwhile
+  boltTime?: number;
+  maxAmmo: number;
+  // Reserve rounds it comes with
+  reserveAmmo: number;
+  reloadTime: number;
+  spread: number;
+  aimSpread: number;
+  // Multiplier on spread for the first shot after the weapon has settled
+  firstShotSpread: number;
+  recoil: WeaponRecoil;
+  aimFOV: number;
+  // Aiming shows the scope overlay and hides the model
+  scope?: boolean;
+  ballistics: WeaponBallistics;
+  pelletCount: number; // For shotgun
+  hitZoneMultipliers: Record<HitZone, number>;
+  parts: WeaponPart[];
+  // Attachment slots the weapon takes, and where on the model they go
+  mounts: Partial<Record<AttachmentSlot, [number, number, number]>>;
+  sounds: { shoot: WeaponSound; reload: WeaponSound };
+}
+
+export interface WeaponData {
+  ammoTypes: AmmoType[];
+  weapons: WeaponConfig[];
+  attachments: AttachmentConfig[];
+}
+
+type RawObject = Record<string, unknown>;
+
+const WEAPON_FIELDS = [
+  'id', 'name', 'icon', 'slot', 'ammoType', 'damage', 'fireRate', 'fireModes', 'burstCount',
+  'chargeTime', 'boltTime', 'maxAmmo', 'reserveAmmo', 'reloadTime',
+  'spread', 'aimSpread', 'firstShotSpread', 'recoil', 'aimFOV', 'scope', 'ballistics', 'pelletCount',
+  'hitZoneMultipliers', 'parts', 'mounts', 'sounds'
+];
+const ATTACHMENT_FIELDS = ['id', 'name', 'slot', 'modifiers', 'parts'];
+const AMMO_TYPE_FIELDS = ['name', 'maxCarry'];
+const RECOIL_FIELDS = ['kick', 'pattern', 'recovery'];
+const BALLISTICS_FIELDS = ['muzzleVelocity', 'falloff', 'tracer'];
+const PART_FIELDS = ['shape', 'size', 'position', 'rotation', 'color'];
+const SOUND_FIELDS = ['wave', 'frequency', 'duration', 'volume'];
+const PART_SIZE_LENGTH: Record<WeaponPartShape, number> = { box: 3, cylinder: 2 };
+
+// Damage multiplier at a distance along a falloff curve
+export function falloffAt(curve: FalloffCurve, distance: number): number {
+  const next = curve.findIndex(([pointDistance]) => pointDistance > distance);
+  if (next === 0) return curve[0][1];
+  if (next === -1) return curve[curve.length - 1][1];
+  const [fromDistance, from] = curve[next - 1];
+  const [toDistance, to] = curve[next];
+  return from + (to - from) * (distance - fromDistance) / (toDistance - fromDistance);
+}
+
+// Checks raw weapon data (a parsed weapons.json) and returns it typed.
+// Throws on the first problem, naming the source, weapon and field.
+export function validateWeaponData(data: unknown, source: string): WeaponData {
+  const root = readObject(data, source);
+  checkFields(root, ['ammoTypes', 'weapons', 'attachments'], source);
+  const ammoTypes = readAmmoTypes(root, source);
+  const list = root.weapons;
+  if (!Array.isArray(list) || list.length === 0) fail(source, 'weapons', 'must be a non-empty array');
+
+  const ids = new Set<string>();
+  const weapons = list.map((raw, index) => {
+    const at = `${source} weapon ${index + 1}`;
+    const weapon = readObject(raw, at);
+    const id = readString(weapon, 'id', at);
+    const path = `${source} weapon '${id}'`;
+    if (ids.has(id)) fail(path, 'id', 'is used by more than one weapon');
+    ids.add(id);
+    checkFields(weapon, WEAPON_FIELDS, path);
+    const sounds = readObject(weapon.sounds, `${path} sounds`);
+    checkFields(sounds, ['shoot', 'reload'], `${path} sounds`);
+
+    const config: WeaponConfig = {
+      id,
+      name: readString(weapon, 'name', path),
+      icon: readString(weapon, 'icon', path),
+      slot: readEnum(weapon.slot, `${path} slot`, WEAPON_SLOTS),
+      ammoType: readString(weapon, 'ammoType', path),
+      damage: readNumber(weapon, 'damage', path, { min: 0 }),
+      fireRate: readNumber(weapon, 'fireRate', path, { min: 0, exclusive: true }),
+      fireModes: readList(weapon, 'fireModes', path, (value, at) => readEnum(value, at, FIRE_MODES)),
+      maxAmmo: readNumber(weapon, 'maxAmmo', path, { min: 1, integer: true }),
+      reserveAmmo: readNumber(weapon, 'reserveAmmo', path, { min: 0, integer: true }),
+      reloadTime: readNumber(weapon, 'reloadTime', path, { min: 0 }),
+      spread: readNumber(weapon, 'spread', path, { min: 0 }),
+      aimSpread: readNumber(weapon, 'aimSpread', path, { min: 0 }),
+      firstShotSpread: readNumber(weapon, 'firstShotSpread', path, { min: 0 }),
+      recoil: readRecoil(weapon.recoil, `${path} recoil`),
+      aimFOV: readNumber(weapon, 'aimFOV', path, { min: 1, max: 179 }),
+      ballistics: readBallistics(weapon.ballistics, `${path} ballistics`),
+      pelletCount: readNumber(weapon, 'pelletCount', path, { min: 1, integer: true }),
+      hitZoneMultipliers: readHitZones(weapon, path),
+      parts: readList(weapon, 'parts', path, readPart),
+      mounts: readMounts(weapon.mounts, `${path} mounts`),
+      sounds: {
+        shoot: readSound(sounds.shoot, `${path} sounds.shoot`),
+        reload: readSound(sounds.reload, `${path} sounds.reload`)
+      }
+    };
+    readFireModeFields(weapon, config, path);
+    if (!ammoTypes.some(type => type.id === config.ammoType)) {
+      fail(path, 'ammoType', `'${config.ammoType}' isn't listed in ammoTypes`);
+    }
+    if (weapon.scope !== undefined) {
+      if (typeof weapon.scope !== 'boolean') fail(path, 'scope', 'must be true or false');
+      config.scope = weapon.scope;
+    }
+    return config;
+  });
+  return { ammoTypes, weapons, attachments: readAttachments(root, source) };
+}
+
+// Each of burstCount, chargeTime and boltTime is required by its fire mode and
+// not allowed without it
+function readFireModeFields(weapon: RawObject, config: WeaponConfig, path: string): void {
+  if (new Set(config.fireModes).size !== config.fireModes.length) fail(path, 'fireModes', 'lists a mode twice');
+  (Object.keys(FIRE_MODE_FIELDS) as FireMode[]).forEach(mode => {
+    const key = FIRE_MODE_FIELDS[mode]!;
+    if (!config.fireModes.includes(mode)) {
+      if (weapon[key] !== undefined) fail(path, key, `is only used by the ${mode} fire mode`);
+      return;
+    }
+    config[key] = key === 'burstCount'
+      ? readNumber(weapon, key, path, { min: 2, integer: true })
+      : readNumber(weapon, key, path, { min: 0, exclusive: true });
+  });
+}
+
+function readMounts(value: unknown, path: string): WeaponConfig['mounts'] {
+  const raw = readObject(value, path);
+  checkFields(raw, ATTACHMENT_SLOTS, path);
+  const mounts: WeaponConfig['mounts'] = {};
+  (Object.keys(raw) as AttachmentSlot[]).forEach(slot => {
+    mounts[slot] = readTuple(raw[slot], `${path} ${slot}`, 3) as [number, number, number];
+  });
+  return mounts;
+}
+
+function readAttachments(root: RawObject, source: string): AttachmentConfig[] {
+  const list = root.attachments;
+  if (!Array.isArray(list)) fail(source, 'attachments', 'must be an array');
+
+  const ids = new Set<string>();
+  return list.map((raw, index) => {
+    const attachment = readObject(raw, `${source} attachment ${index + 1}`);
+    const id = readString(attachment, 'id', `${source} attachment ${index + 1}`);
+    const path = `${source} attachment '${id}'`;
+    if (ids.has(id)) fail(path, 'id', 'is used by more than one attachment');
+    ids.add(id);
+    checkFields(attachment, ATTACHMENT_FIELDS, path);
+
+    const modifiers = readObject(attachment.modifiers, `${path} modifiers`);
+    checkFields(modifiers, ATTACHMENT_STATS, `${path} modifiers`);
+    if (Object.keys(modifiers).length === 0) fail(path, 'modifiers', 'must change at least one stat');
+    Object.keys(modifiers).forEach(stat => readNumber(modifiers, stat, `${path} modifiers`, { min: 0, exclusive: true }));
+
+    return {
+      id,
+      name: readString(attachment, 'name', path),
+      slot: readEnum(attachment.slot, `${path} slot`, ATTACHMENT_SLOTS),
+      modifiers: modifiers as AttachmentConfig['modifiers'],
+      parts: readList(attachment, 'parts', path, readPart)
+    };
+  });
+}
+
+function readAmmoTypes(root: RawObject, source: string): AmmoType[] {
+  const raw = readObject(root.ammoTypes, `${source} ammoTypes`);
+  const ids = Object.keys(raw);
+  if (ids.length === 0) fail(source, 'ammoTypes', 'must list at least one ammo type');
+  return ids.map(id => {
+    const path = `${source} ammo type '${id}'`;
+    const type = readObject(raw[id], path);
+    checkFields(type, AMMO_TYPE_FIELDS, path);
+    return {
+      id,
+      name: readString(type, 'name', path),
+      maxCarry: readNumber(type, 'maxCarry', path, { min: 0, integer: true })
+    };
+  });
+}
+
+
+function readPart(value: unknown, path: string): WeaponPart {
+  const raw = readObject(value, path);
+  checkFields(raw, PART_FIELDS, path);
+  const shape = readEnum(raw.shape, `${path} shape`, PART_SHAPES);
+  const part: WeaponPart = {
+    shape,
+    size: readTuple(raw.size, `${path} size`, PART_SIZE_LENGTH[shape]),
+    color: readColor(raw, 'color', path)
+  };
+  if (part.size.some(n => n <= 0)) fail(path, 'size', 'must be positive');
+  if (raw.position !== undefined) part.position = readTuple(raw.position, `${path} position`, 3) as [number, number, number];
+  if (raw.rotation !== undefined) part.rotation = readTuple(raw.rotation, `${path} rotation`, 3) as [number, number, number];
+  return part;
+}
+
+function readRecoil(value: unknown, path: string): WeaponRecoil {
+  const raw = readObject(value, path);
+  checkFields(raw, RECOIL_FIELDS, path);
+  return {
+    kick: readNumber(raw, 'kick', path, { min: 0 }),
+    pattern: readList(raw, 'pattern', path, (entry, at) => readTuple(entry, at, 2) as [number, number]),
+    recovery: readNumber(raw, 'recovery', path, { min: 0 })
+  };
+}
+
+function readBallistics(value: unknown, path: string): WeaponBallistics {
+  const raw = readObject(value, path);
+  checkFields(raw, BALLISTICS_FIELDS, path);
+  const ballistics: WeaponBallistics = {
+    muzzleVelocity: readNumber(raw, 'muzzleVelocity', path, { min: 0, exclusive: true }),
+    falloff: readList(raw, 'falloff', path, (entry, at) => readTuple(entry, at, 2) as [number, number]),
+    tracer: readColor(raw, 'tracer', path)
+  };
+  ballistics.falloff.forEach(([distance, multiplier], index) => {
+    if (distance < 0 || multiplier < 0) fail(path, `falloff[${index}]`, 'must not be negative');
+    if (index > 0 && distance <= ballistics.falloff[index - 1][0]) fail(path, `falloff[${index}]`, 'must be further than the point before it');
+  });
+  return ballistics;
+}
+
+function readSound(value: unknown, path: string): WeaponSound {
+  const raw = readObject(value, path);
+  checkFields(raw, SOUND_FIELDS, path);
+  return {
+    wave: readEnum(raw.wave, `${path} wave`, TONE_WAVES),
+    frequency: readNumber(raw, 'frequency', path, { min: 0, exclusive: true }),
+    duration: readNumber(raw, 'duration', path, { min: 0, exclusive: true }),
+    volume: readNumber(raw, 'volume', path, { min: 0, max: 1 })
+  };
+}
+
+// Every hit zone needs a multiplier so no hit falls back silently
+function readHitZones(weapon: RawObject, path: string): Record<HitZone, number> {
+  const at = `${path} hitZoneMultipliers`;
+  const raw = readObject(weapon.hitZoneMultipliers, at);
+  const zones = Object.keys(HIT_ZONE_MULTIPLIERS) as HitZone[];
+  checkFields(raw, zones, at);
+  const multipliers = {} as Record<HitZone, number>;
+  zones.forEach(zone => {
+    multipliers[zone] = readNumber(raw, zone, at, { min: 0 });
+  });
+  return multipliers;
+}
+
+function readObject(value: unknown, path: string): RawObject {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error(`${path}: must be an object`);
+  }
+  return value as RawObject;
+}
+
+function readString(raw: RawObject, key: string, path: string): string {
+  const value = raw[key];
+  if (typeof value !== 'string' || value.length === 0) fail(path, key, 'must be a non-empty string');
+  return value;
+}
+
+function readColor(raw: RawObject, key: string, path: string): string {
+  const value = readString(raw, key, path);
+  if (!/^#[0-9a-fA-F]{6}$/.test(value)) fail(path, key, `must be a hex colour like "#5A5A68", got "${value}"`);
+  return value;
+}
+
+interface NumberRange {
+  min?: number;
+  max?: number;
+  // min itself isn't allowed
+  exclusive?: boolean;
+  integer?: boolean;
+}
+
+function readNumber(raw: RawObject, key: string, path: string, range: NumberRange = {}): number {
+  const value = raw[key];
+  if (typeof value !== 'number' || !Number.isFinite(value)) fail(path, key, 'must be a number');
+  if (range.integer && !Number.isInteger(value)) fail(path, key, `must be a whole number, got ${value}`);
+  if (range.min !== undefined && (range.exclusive ? value <= range.min : value < range.min)) {
+    fail(path, key, `must be ${range.exclusive ? 'above' : 'at least'} ${range.min}, got ${value}`);
+  }
+  if (range.max !== undefined && value > range.max) fail(path, key, `must be at most ${range.max}, got ${value}`);
+  return value;
+}
+
+function readTuple(value: unknown, path: string, length: number): number[] {
+  if (!Array.isArray(value) || value.length !== length || value.some(n => typeof n !== 'number' || !Number.isFinite(n))) {
+    throw new Error(`${path}: must be ${length} numbers`);
+  }
+  return value;
+}
+
+function readEnum<T extends string>(value: unknown, path: string, allowed: T[]): T {
+  if (!allowed.includes(value as T)) {
+    throw new Error(`${path}: must be one of ${allowed.join(', ')}, got ${JSON.stringify(value)}`);
+  }
+  return value as T;
+}
+
+function readList<T>(raw: RawObject, key: string, path: string, read: (value: unknown, path: string) => T): T[] {
+  const value = raw[key];
+  if (!Array.isArray(value) || value.length === 0) fail(path, key, 'must be a non-empty array');
+  return value.map((item, index) => read(item, `${path} ${key}[${index}]`));
+}
+
+// Typos in field names would otherwise just be ignored
+function checkFields(raw: RawObject, allowed: string[], path: string): void {
+  Object.keys(raw).forEach(key => {
+    if (!allowed.includes(key)) throw new Error(`${path}: unknown field '${key}'`);
+  });
+}
+
+function fail(path: string, key: string, message: string): never {
+  throw new Error(`${path}: ${key} ${message}`);
+}
+
+// Weapons, ammo types and attachments by id; weapons and attachments keep
+// the order they were defined in
+export class WeaponRegistry {
+  private weapons = new Map<WeaponId, WeaponConfig>();
+  private ammoTypes = new Map<AmmoTypeId, AmmoType>();
+  private attachments = new Map<AttachmentId, AttachmentConfig>();
+
+  constructor(data: WeaponData) {
+    data.ammoTypes.forEach(type => this.ammoTypes.set(type.id, type));
+    data.weapons.forEach(config => this.weapons.set(config.id, config));
+    data.attachments.forEach(attachment => this.attachments.set(attachment.id, attachment));
+  }
+
+  public get(id: WeaponId): WeaponConfig {
+    const config = this.weapons.get(id);
+    if (!config) throw new Error(`Unknown weapon '${id}'`);
+    return config;
+  }
+
+  public has(id: WeaponId): boolean {
+    return this.weapons.has(id);
+  }
+
+  public getAll(): WeaponConfig[] {
+    return [...this.weapons.values()];
+  }
+
+  public getAmmoType(id: AmmoTypeId): AmmoType {
+    const type = this.ammoTypes.get(id);
+    if (!type) throw new Error(`Unknown ammo type '${id}'`);
+    return type;
+  }
+
+  public getAttachment(id: AttachmentId): AttachmentConfig {
+    const attachment = this.attachments.get(id);
+    if (!attachment) throw new Error(`Unknown attachment '${id}'`);
+    return attachment;
+  }
+
+  // Attachments the weapon has a mount for
+  public getAttachmentsFor(id: WeaponId): AttachmentConfig[] {
+    const mounts = this.get(id).mounts;
+    return [...this.attachments.values()].filter(attachment => mounts[attachment.slot]);
+  }
+}
+
+export const WEAPONS = new WeaponRegistry(validateWeaponData(weaponData, 'weapons.json'));
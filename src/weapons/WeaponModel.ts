@@ -0,0 +1,26 @@
+import * as THREE from 'three';
+import { WeaponPart } from './WeaponData';
+
+// Builds a weapon model from its part list, centred on the weapon's origin.
+// Used for the first-person view and for weapons lying on the ground.
+export function createWeaponModel(parts: WeaponPart[]): THREE.Group {
+  const group = new THREE.Group();
+  const materials = new Map<string, THREE.MeshStandardMaterial>();
+
+  parts.forEach(part => {
+    let material = materials.get(part.color);
+    if (!material) {
+      material = new THREE.MeshStandardMaterial({ color: part.color, metalness: 0, roughness: 0.9 });
+      materials.set(part.color, material);
+    }
+    const geometry = part.shape === 'box'
+      ? new THREE.BoxGeometry(part.size[0], part.size[1], part.size[2])
+      : new THREE.CylinderGeometry(part.size[0], part.size[0], part.size[1]);
+    const mesh = new THREE.Mesh(geometry, material);
+    if (part.position) mesh.position.fromArray(part.position);
+    if (part.rotation) mesh.rotation.fromArray(part.rotation.map(degrees => THREE.MathUtils.degToRad(degrees)) as [number, number, number]);
+    group.add(mesh);
+  });
+
+  return group;
+}
@@ -1,103 +1,67 @@
 import * as THREE from 'three';
 import { Projectile } from '../entities/Projectile';
-
-export enum WeaponType {
-  RIFLE = 'rifle',
-  SHOTGUN = 'shotgun',
-  SNIPER = 'sniper',
-  SMG = 'smg'
-}
-
-export interface WeaponConfig {
-  name: string;
-  damage: number;
-  fireRate: number;
-  maxAmmo: number;
-  reserveAmmo: number;
-  reloadTime: number;
-  spread: number;
-  aimSpread: number;
-  recoil: number;
-  aimFOV: number;
-  projectileSpeed: number;
-  pelletCount: number; // For shotgun
+import { Random } from '../utils/Random';
+import { FIRE_MODE_NAMES, FireMode, WeaponConfig, WeaponId, WeaponSlot } from './WeaponData';
+import { CarriedWeapon, Loadout } from './Loadout';
+import { createWeaponModel } from './WeaponModel';
+
+// Share of full damage a charge weapon deals when released straight away
+const MIN_CHARGE = 0.25;
+// Recoil and spread multipliers for aiming down sights and crouching
+const AIM_RECOIL = 0.6;
+const CROUCH_RECOIL = 0.75;
+const CROUCH_SPREAD = 0.7;
+// Spread grows by this share per consecutive shot, up to MAX_BLOOM_SHOTS shots
+const SPREAD_BLOOM = 0.1;
+const MAX_BLOOM_SHOTS = 10;
+// Seconds past the fire interval without a shot before a spray is over
+const SETTLE_DELAY = 0.15;
+
+// What weapon recoil turns: the player's view
+export interface RecoilTarget {
+  // Radians
+  addRecoil(up: number, right: number): void;
+  // Turns back towards the view before the spray by at most amount radians
+  recoverRecoil(amount: number): void;
 }
 
-export const WEAPON_CONFIGS: Record<WeaponType, WeaponConfig> = {
-  [WeaponType.RIFLE]: {
-    name: 'Assault Rifle',
-    damage: 25,
-    fireRate: 10,
-    maxAmmo: 30,
-    reserveAmmo: 120,
-    reloadTime: 1.5,
-    spread: 0.02,
-    aimSpread: 0.005,
-    recoil: 1,
-    aimFOV: 50,
-    projectileSpeed: 100,
-    pelletCount: 1
-  },
-  [WeaponType.SHOTGUN]: {
-    name: 'Shotgun',
-    damage: 15,
-    fireRate: 1.5,
-    maxAmmo: 8,
-    reserveAmmo: 32,
-    reloadTime: 2.5,
-    spread: 0.15,
-    aimSpread: 0.08,
-    recoil: 3,
-    aimFOV: 60,
-    projectileSpeed: 80,
-    pelletCount: 8
-  },
-  [WeaponType.SNIPER]: {
-    name: 'Sniper Rifle',
-    damage: 100,
-    fireRate: 0.8,
-    maxAmmo: 5,
-    reserveAmmo: 20,
-    reloadTime: 2.0,
-    spread: 0.0,
-    aimSpread: 0.0,
-    recoil: 4,
-    aimFOV: 20,
-    projectileSpeed: 150,
-    pelletCount: 1
-  },
-  [WeaponType.SMG]: {
-    name: 'SMG',
-    damage: 18,
-    fireRate: 15,
-    maxAmmo: 40,
-    reserveAmmo: 160,
-    reloadTime: 1.2,
-    spread: 0.04,
-    aimSpread: 0.015,
-    recoil: 0.7,
-    aimFOV: 55,
-    projectileSpeed: 90,
-    pelletCount: 1
-  }
-};
-
 export class MultiWeapon {
   private camera: THREE.PerspectiveCamera;
   private scene: THREE.Scene;
+  private random: Random;
   private mesh: THREE.Group;
   private scopeOverlay: HTMLDivElement | null = null;
   
-  private currentWeaponType: WeaponType = WeaponType.RIFLE;
-  private currentAmmo: number;
-  private reserveAmmo: number;
-  private lastShotTime = 0;
+  // Ammo and the weapon in hand live in the loadout
+  private loadout: Loadout;
+  private config: WeaponConfig;
+  private fireMode: FireMode;
+  // Fire mode picked for each weapon, kept across weapon switches
+  private selectedModes = new Map<WeaponId, FireMode>();
+  private triggerHeld = false;
+  // A pull made before the weapon was ready; fires once it is, unless the
+  // trigger is let go first
+  private pendingPull = false;
+  // Rounds still to come in the current burst
+  private burstRemaining = 0;
+  // 0 to 1 while a charge weapon's trigger is held
+  private charging = false;
+  private charge = 0;
+  // Seconds until a bolt-action weapon has chambered its next round
+  private boltTimer = 0;
+  private time = 0; // Game time, advanced by update()
+  private lastShotTime = -Infinity;
   private isReloading = false;
   private reloadTimer = 0;
   
   // Weapon recoil
+  private recoilTarget: RecoilTarget;
   private recoilAmount = 0;
   private recoilRecovery = 10;
+  private recoilKick = new THREE.Vector2(0, 1);
+  // Consecutive shots since the weapon last settled, for the recoil pattern
+  private sprayShots = 0;
+  private crouching = false;
   
   // ADS (Aim Down Sights)
   private isAiming = false;
@@ -106,155 +70,26 @@ export class MultiWeapon {
   private aimPosition = new THREE.Vector3(0, -0.12, -0.35);
   private aimTransition = 0;
 
-  constructor(camera: THREE.PerspectiveCamera, scene: THREE.Scene) {
+  constructor(camera: THREE.PerspectiveCamera, scene: THREE.Scene, random: Random, loadout: Loadout, recoilTarget: RecoilTarget) {
     this.camera = camera;
     this.scene = scene;
+    this.random = random;
+    this.loadout = loadout;
+    this.recoilTarget = recoilTarget;
     
-    const config = WEAPON_CONFIGS[this.currentWeaponType];
-    this.currentAmmo = config.maxAmmo;
-    this.reserveAmmo = config.reserveAmmo;
-    
-    this.mesh = this.createWeaponMesh(this.currentWeaponType);
+    this.config = loadout.getActive().config;
+    this.fireMode = this.config.fireModes[0];
+    this.mesh = this.createWeaponMesh(this.config);
     camera.add(this.mesh);
     this.createScopeOverlay();
+    loadout.onChange((weapon) => this.equip(weapon));
     
     document.addEventListener('contextmenu', (e) => e.preventDefault());
   }
 
-  private createWeaponMesh(type: WeaponType): THREE.Group {
-    switch (type) {
-      case WeaponType.RIFLE:
-        return this.createRifleMesh();
-      case WeaponType.SHOTGUN:
-        return this.createShotgunMesh();
-      case WeaponType.SNIPER:
-        return this.createSniperMesh();
-      case WeaponType.SMG:
-        return this.createSMGMesh();
-      default:
-        return this.createRifleMesh();
-    }
-  }
-
-  private createRifleMesh(): THREE.Group {
-    const group = new THREE.Group();
-    const bodyMat = new THREE.MeshStandardMaterial({ color: 0x5A5A68, metalness: 0, roughness: 0.9 });
-    
-    // Main body
-    const body = new THREE.Mesh(new THREE.BoxGeometry(0.08, 0.08, 0.6), bodyMat);
-    group.add(body);
-    
-    // Barrel
-    const barrel = new THREE.Mesh(new THREE.CylinderGeometry(0.015, 0.015, 0.4), bodyMat);
-    barrel.rotation.z = Math.PI / 2;
-    barrel.position.z = -0.5;
-    barrel.position.y = 0.03;
-    group.add(barrel);
-    
-    // Magazine
-    const mag = new THREE.Mesh(new THREE.BoxGeometry(0.05, 0.15, 0.08), bodyMat);
-    mag.position.y = -0.1;
-    group.add(mag);
-    
-    group.position.set(0.25, -0.2, -0.5);
-    return group;
-  }
-
-  private createShotgunMesh(): THREE.Group {
-    const group = new THREE.Group();
-    const bodyMat = new THREE.MeshStandardMaterial({ color: 0x8B6B50, metalness: 0, roughness: 0.9 });
-    
-    // Main body (wooden stock)
-    const body = new THREE.Mesh(new THREE.BoxGeometry(0.1, 0.1, 0.5), bodyMat);
-    group.add(body);
-    
-    // Barrel (thicker)
-    const barrel = new THREE.Mesh(
-      new THREE.CylinderGeometry(0.025, 0.025, 0.5),
-      new THREE.MeshStandardMaterial({ color: 0x4A4A58, metalness: 0, roughness: 0.9 })
-    );
-    barrel.rotation.z = Math.PI / 2;
-    barrel.position.z = -0.5;
-    barrel.position.y = 0.05;
-    group.add(barrel);
-    
-    // Pump
-    const pump = new THREE.Mesh(new THREE.BoxGeometry(0.08, 0.06, 0.15), bodyMat);
-    pump.position.z = -0.15;
-    pump.position.y = -0.05;
-    group.add(pump);
-    
-    group.position.set(0.25, -0.2, -0.5);
-    return group;
-  }
-
-  private createSniperMesh(): THREE.Group {
-    const group = new THREE.Group();
-    const bodyMat = new THREE.MeshStandardMaterial({ color: 0x5A7A5A, metalness: 0, roughness: 0.9 });
-    
-    // Main body
-    const body = new THREE.Mesh(new THREE.BoxGeometry(0.1, 0.1, 0.7), bodyMat);
-    group.add(body);
-    
-    // Long barrel
-    const barrel = new THREE.Mesh(new THREE.CylinderGeometry(0.018, 0.018, 0.8), bodyMat);
-    barrel.rotation.z = Math.PI / 2;
-    barrel.position.z = -0.7;
-    barrel.position.y = 0.04;
-    group.add(barrel);
-    
-    // Scope
-    const scopeBody = new THREE.Mesh(
-      new THREE.CylinderGeometry(0.03, 0.03, 0.25),
-      new THREE.MeshStandardMaterial({ color: 0x3A3A48, metalness: 0, roughness: 0.9 })
-    );
-    scopeBody.rotation.z = Math.PI / 2;
-    scopeBody.position.y = 0.12;
-    scopeBody.position.z = -0.1;
-    group.add(scopeBody);
-    
-    // Bipod
-    const bipodMat = new THREE.MeshStandardMaterial({ color: 0x2a2a2a });
-    const bipodLeft = new THREE.Mesh(new THREE.CylinderGeometry(0.01, 0.01, 0.15), bipodMat);
-    bipodLeft.position.set(-0.05, -0.12, -0.3);
-    bipodLeft.rotation.z = 0.3;
-    group.add(bipodLeft);
-    
-    const bipodRight = new THREE.Mesh(new THREE.CylinderGeometry(0.01, 0.01, 0.15), bipodMat);
-    bipodRight.position.set(0.05, -0.12, -0.3);
-    bipodRight.rotation.z = -0.3;
-    group.add(bipodRight);
-    
-    group.position.set(0.25, -0.2, -0.5);
-    return group;
-  }
-
-  private createSMGMesh(): THREE.Group {
-    const group = new THREE.Group();
-    const bodyMat = new THREE.MeshStandardMaterial({ color: 0x5A5A68, metalness: 0, roughness: 0.9 });
-    
-    // Compact body
-    const body = new THREE.Mesh(new THREE.BoxGeometry(0.07, 0.07, 0.4), bodyMat);
-    group.add(body);
-    
-    // Short barrel
-    const barrel = new THREE.Mesh(new THREE.CylinderGeometry(0.012, 0.012, 0.3), bodyMat);
-    barrel.rotation.z = Math.PI / 2;
-    barrel.position.z = -0.35;
-    barrel.position.y = 0.02;
-    group.add(barrel);
-    
-    // Large magazine
-    const mag = new THREE.Mesh(new THREE.BoxGeometry(0.06, 0.2, 0.08), bodyMat);
-    mag.position.y = -0.12;
-    group.add(mag);
-    
-    // Foregrip
-    const grip = new THREE.Mesh(new THREE.CylinderGeometry(0.02, 0.02, 0.1), bodyMat);
-    grip.position.set(0, -0.1, -0.2);
-    group.add(grip);
-    
-    group.position.set(0.25, -0.2, -0.5);
+  private createWeaponMesh(config: WeaponConfig): THREE.Group {
+    const group = createWeaponModel(config.parts);
+    group.position.copy(this.defaultPosition);
     return group;
   }
 
@@ -294,27 +129,99 @@ export class MultiWeapon {
     document.body.appendChild(this.scopeOverlay);
   }
 
-  public switchWeapon(type: WeaponType): void {
-    if (this.currentWeaponType === type || this.isReloading) return;
-    
-    this.currentWeaponType = type;
-    const config = WEAPON_CONFIGS[type];
-    
-    // Reset ammo
-    this.currentAmmo = config.maxAmmo;
-    this.reserveAmmo = config.reserveAmmo;
+  // False when the slot is empty, already in hand, or mid-reload
+  public switchSlot(slot: WeaponSlot): boolean {
+    if (this.isReloading) return false;
+    return this.loadout.selectSlot(slot);
+  }
+
+  // Takes the loadout's weapon in hand, dropping any reload in progress
+  private equip(weapon: CarriedWeapon): void {
+    const config = weapon.config;
+    if (config === this.config) return;
+    this.config = config;
+    this.fireMode = this.selectedModes.get(config.id) ?? config.fireModes[0];
     this.isReloading = false;
     this.recoilAmount = 0;
+    this.sprayShots = 0;
+    this.lastShotTime = -Infinity;
+    this.boltTimer = 0;
+    this.resetTrigger();
     
     // Replace mesh
     this.camera.remove(this.mesh);
-    this.mesh = this.createWeaponMesh(type);
+    this.mesh = this.createWeaponMesh(config);
     this.camera.add(this.mesh);
   }
 
-  public update(delta: number, aiming: boolean = false): void {
-    const config = WEAPON_CONFIGS[this.currentWeaponType];
-    this.isAiming = aiming && !this.isReloading;
+  // Steps to the next of the weapon's fire modes; false when it has only one
+  public cycleFireMode(): boolean {
+    const modes = this.config.fireModes;
+    if (modes.length < 2) return false;
+    this.fireMode = modes[(modes.indexOf(this.fireMode) + 1) % modes.length];
+    this.selectedModes.set(this.config.id, this.fireMode);
+    this.resetTrigger();
+    return true;
+  }
+
+  // Drops any burst or charge in progress; the bolt keeps cycling
+  public resetTrigger(): void {
+    this.pendingPull = false;
+    this.burstRemaining = 0;
+    this.charging = false;
+    this.charge = 0;
+  }
+
+  // Call every step with the fire button state. pulled is true when the button
+  // went down since the last call, so a tap shorter than a step still counts.
+  // Returns the projectiles fired, if any.
+  public pullTrigger(held: boolean, pulled: boolean = false): Projectile[] {
+    const pressed = pulled || (held && !this.triggerHeld);
+    this.triggerHeld = held;
+    if (pressed) this.pendingPull = true;
+    const pull = this.pendingPull && this.canShoot();
+    if (pull || !held) this.pendingPull = false;
+
+    switch (this.fireMode) {
+      case 'auto':
+        return pull || (held && this.canShoot()) ? this.fire() : [];
+
+      case 'semi':
+      case 'bolt':
+        return pull ? this.fire() : [];
+
+      case 'burst':
+        // Running dry or reloading cuts the burst short
+        if (this.isReloading || this.getCurrentAmmo() === 0) this.burstRemaining = 0;
+        if (pull && this.burstRemaining === 0) this.burstRemaining = this.config.burstCount!;
+        if (this.burstRemaining > 0 && this.canShoot()) {
+          this.burstRemaining--;
+          return this.fire();
+        }
+        return [];
+
+      case 'charge':
+        if (pull) {
+          this.charging = true;
+          this.charge = 0;
+        }
+        if (this.charging && !held) {
+          const power = MIN_CHARGE + (1 - MIN_CHARGE) * this.charge;
+          this.resetTrigger();
+          return this.canShoot() ? this.fire(power) : [];
+        }
+        return [];
+    }
+  }
+
+  public update(delta: number, aiming: boolean = false, crouching: boolean = false): void {
+    const config = this.config;
+    this.time += delta;
+    this.crouching = crouching;
+    this.boltTimer = Math.max(0, this.boltTimer - delta);
+    if (this.charging) this.charge = Math.min(1, this.charge + delta / config.chargeTime!);
+    // Working the bolt takes the eye off the sights
+    this.isAiming = aiming && !this.isReloading && this.boltTimer === 0;
     
     const targetTransition = this.isAiming ? 1 : 0;
     this.aimTransition += (targetTransition - this.aimTransition) * delta * 12;
@@ -323,14 +230,14 @@ export class MultiWeapon {
     this.camera.fov += (targetFOV - this.camera.fov) * delta * 12;
     this.camera.updateProjectionMatrix();
     
-    // Show scope overlay only for sniper rifle
+    // Show scope overlay only for scoped weapons
     if (this.scopeOverlay) {
-      const showScope = this.isAiming && this.currentWeaponType === WeaponType.SNIPER;
+      const showScope = this.isAiming && config.scope === true;
       this.scopeOverlay.style.opacity = (showScope ? this.aimTransition * 0.95 : 0).toString();
     }
     
-    // Hide weapon model when looking through sniper scope
-    if (this.currentWeaponType === WeaponType.SNIPER) {
+    // Hide weapon model when looking through the scope
+    if (config.scope) {
       this.mesh.visible = !(this.isAiming && this.aimTransition > 0.8);
     } else {
       this.mesh.visible = true;
@@ -351,9 +258,20 @@ export class MultiWeapon {
       this.recoilAmount = Math.max(0, this.recoilAmount);
     }
 
+    // Once the spray stops the pattern starts over and the view settles back
+    if (this.time - this.lastShotTime >= 1 / config.fireRate + SETTLE_DELAY) {
+      this.sprayShots = 0;
+      this.recoilTarget.recoverRecoil(THREE.MathUtils.degToRad(config.recoil.recovery) * delta);
+    }
+
     const targetPos = this.defaultPosition.clone().lerp(this.aimPosition, this.aimTransition);
     targetPos.z += this.recoilAmount * 0.1;
-    this.mesh.rotation.x = -this.recoilAmount * 0.1;
+    // Pulled in towards the shoulder as a charge builds
+    targetPos.z += this.charge * 0.06;
+    this.mesh.rotation.x = -this.recoilAmount * 0.1 * this.recoilKick.y;
+    this.mesh.rotation.y = -this.recoilAmount * 0.1 * this.recoilKick.x;
+    // Rolled over while the bolt is worked
+    this.mesh.rotation.z = config.boltTime ? Math.sin((this.boltTimer / config.boltTime) * Math.PI) * 0.4 : 0;
 
     const swayMult = 1 - this.aimTransition * 0.8;
     const targetX = targetPos.x + Math.sin(Date.now() * 0.002) * 0.005 * swayMult;
@@ -364,24 +282,36 @@ export class MultiWeapon {
     this.mesh.position.z += (targetPos.z - this.mesh.position.z) * 0.15;
   }
 
+  // Spread of the next shot: tightest for the first shot of a spray, growing
+  // as it goes on, and reduced by aiming and crouching
+  public getSpread(): number {
+    const config = this.config;
+    const base = this.isAiming ? config.aimSpread : config.spread;
+    const stance = this.crouching ? CROUCH_SPREAD : 1;
+    const bloom = this.sprayShots === 0
+      ? config.firstShotSpread
+      : 1 + Math.min(this.sprayShots, MAX_BLOOM_SHOTS) * SPREAD_BLOOM;
+    return base * stance * bloom;
+  }
+
   public canShoot(): boolean {
-    const config = WEAPON_CONFIGS[this.currentWeaponType];
-    const now = performance.now();
-    const timeSinceLastShot = now - this.lastShotTime;
-    const minTimeBetweenShots = 1000 / config.fireRate;
+    const config = this.config;
+    const timeSinceLastShot = this.time - this.lastShotTime;
+    const minTimeBetweenShots = 1 / config.fireRate;
     
     return !this.isReloading && 
-           this.currentAmmo > 0 && 
+           this.boltTimer === 0 &&
+           this.loadout.getActive().magazine > 0 && 
            timeSinceLastShot >= minTimeBetweenShots;
   }
 
-  public shoot(): Projectile[] {
-    if (!this.canShoot()) return [];
-
-    const config = WEAPON_CONFIGS[this.currentWeaponType];
-    this.lastShotTime = performance.now();
-    this.currentAmmo--;
-    this.recoilAmount = this.isAiming ? config.recoil * 0.5 : config.recoil;
+  // power scales damage (charge shots)
+  private fire(power: number = 1): Projectile[] {
+    const config = this.config;
+    this.lastShotTime = this.time;
+    this.loadout.consumeRound();
+    if (this.fireMode === 'bolt') this.boltTimer = config.boltTime!;
+    const spread = this.getSpread();
 
     const position = new THREE.Vector3();
     this.camera.getWorldPosition(position);
@@ -390,23 +320,36 @@ export class MultiWeapon {
     this.camera.getWorldDirection(direction);
 
     const projectiles: Projectile[] = [];
-    const spread = this.isAiming ? config.aimSpread : config.spread;
     
     // Create multiple projectiles for shotgun
     for (let i = 0; i < config.pelletCount; i++) {
       const spreadDir = direction.clone();
-      spreadDir.x += (Math.random() - 0.5) * spread;
-      spreadDir.y += (Math.random() - 0.5) * spread;
-      spreadDir.z += (Math.random() - 0.5) * spread;
+      spreadDir.x += this.random.spread(spread);
+      spreadDir.y += this.random.spread(spread);
+      spreadDir.z += this.random.spread(spread);
       spreadDir.normalize();
 
-      const projectile = new Projectile(this.scene, position, spreadDir);
+      const projectile = new Projectile(this.scene, position, spreadDir, config.ballistics.muzzleVelocity, config.ballistics.tracer);
+      projectile.damage = config.damage * power;
+      projectile.weapon = config.name;
+      projectile.hitZoneMultipliers = config.hitZoneMultipliers;
+      projectile.falloff = config.ballistics.falloff;
       projectiles.push(projectile);
     }
 
     this.createMuzzleFlash();
 
-    if (this.currentAmmo === 0 && this.reserveAmmo > 0) {
+    // Kick the view along the pattern after the shot has left; the viewmodel
+    // follows the same direction
+    const stance = (this.isAiming ? AIM_RECOIL : 1) * (this.crouching ? CROUCH_RECOIL : 1);
+    const pattern = config.recoil.pattern;
+    const [right, up] = pattern[Math.min(this.sprayShots, pattern.length - 1)];
+    this.recoilTarget.addRecoil(THREE.MathUtils.degToRad(up * stance), THREE.MathUtils.degToRad(right * stance));
+    this.recoilAmount = config.recoil.kick * stance;
+    this.recoilKick.set(right, up).normalize();
+    this.sprayShots++;
+
+    if (this.getCurrentAmmo() === 0 && this.getReserveAmmo() > 0) {
       this.reload();
     }
 
@@ -426,35 +369,31 @@ export class MultiWeapon {
   }
 
   public reload(): void {
-    const config = WEAPON_CONFIGS[this.currentWeaponType];
-    if (this.isReloading || this.currentAmmo === config.maxAmmo || this.reserveAmmo === 0) {
+    const config = this.config;
+    if (this.isReloading || this.getCurrentAmmo() === config.maxAmmo || this.getReserveAmmo() === 0) {
       return;
     }
 
     this.isReloading = true;
     this.reloadTimer = config.reloadTime;
+    this.resetTrigger();
   }
 
   private finishReload(): void {
-    const config = WEAPON_CONFIGS[this.currentWeaponType];
-    const ammoNeeded = config.maxAmmo - this.currentAmmo;
-    const ammoToAdd = Math.min(ammoNeeded, this.reserveAmmo);
-    
-    this.currentAmmo += ammoToAdd;
-    this.reserveAmmo -= ammoToAdd;
+    this.loadout.reload();
     this.isReloading = false;
     this.mesh.rotation.x = 0;
   }
 
-  public addAmmo(amount: number): void {
-    const config = WEAPON_CONFIGS[this.currentWeaponType];
-    this.reserveAmmo = Math.min(this.reserveAmmo + amount, config.reserveAmmo + 200);
+  public getCurrentAmmo(): number { return this.loadout.getActive().magazine; }
+  public getReserveAmmo(): number { return this.loadout.getReserve(); }
+  public isReloadingState(): boolean { return this.isReloading; }
+  public getConfig(): WeaponConfig { return this.config; }
+  public getCurrentWeaponName(): string { return this.config.name; }
+  public getFireMode(): FireMode { return this.fireMode; }
+  public getFireModeName(): string {
+    return this.fireMode === 'burst' ? `${this.config.burstCount}-Round Burst` : FIRE_MODE_NAMES[this.fireMode];
   }
-
-  public getCurrentAmmo(): number { return this.currentAmmo; }
-  public getReserveAmmo(): number { return this.reserveAmmo; }
-  public getCurrentWeaponType(): WeaponType { return this.currentWeaponType; }
-  public getCurrentWeaponName(): string { return WEAPON_CONFIGS[this.currentWeaponType].name; }
   public hide(): void { this.mesh.visible = false; }
   public show(): void { this.mesh.visible = true; }
 }
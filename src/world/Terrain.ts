@@ -1,4 +1,5 @@
 import * as THREE from 'three';
+import { Random } from '../utils/Random';
 
 // VIBRANT CANDY PALETTE - Fall Guys style!
 const PASTEL = {
@@ -17,16 +18,23 @@ const PASTEL = {
   roof: 0xFF5566,       // Bright red roofs
 };
 
+// Lake water surface (world space)
+const LAKE = { x: -80, z: 80, radius: 30, level: -1.5 };
+
 export class Terrain {
   private scene: THREE.Scene;
+  private random: Random;
   private ground!: THREE.Mesh;
   private colliders: THREE.Box3[] = [];
+  // Sandbag walls, crates and barriers; also in colliders
+  private cover: THREE.Box3[] = [];
   private heightData: number[][] = [];
   private terrainSize = 400;
   private segments = 100; // Smoother with less segments
 
-  constructor(scene: THREE.Scene) {
+  constructor(scene: THREE.Scene, random: Random) {
     this.scene = scene;
+    this.random = random;
     this.createTerrain();
     this.createMainRoads();
     this.createMilitaryBase();
@@ -132,12 +140,12 @@ export class Terrain {
     
     for (let i = 0; i < 50; i++) {
       const patch = new THREE.Mesh(
-        new THREE.CircleGeometry(4 + Math.random() * 10, 16),
+        new THREE.CircleGeometry(4 + this.random.next() * 10, 16),
         grassMaterial
       );
       patch.rotation.x = -Math.PI / 2;
-      const x = (Math.random() - 0.5) * 300;
-      const z = (Math.random() - 0.5) * 300;
+      const x = (this.random.next() - 0.5) * 300;
+      const z = (this.random.next() - 0.5) * 300;
       patch.position.set(x, this.getHeightAt(x, z) + 0.02, z);
       this.scene.add(patch);
     }
@@ -151,7 +159,7 @@ export class Terrain {
     
     for (let i = 0; i < 100; i++) {
       const flower = new THREE.Group();
-      const color = flowerColors[Math.floor(Math.random() * flowerColors.length)];
+      const color = flowerColors[Math.floor(this.random.next() * flowerColors.length)];
       
       // Stem
       const stem = new THREE.Mesh(
@@ -178,10 +186,10 @@ export class Terrain {
       center.position.y = 0.38;
       flower.add(center);
       
-      const x = (Math.random() - 0.5) * 350;
-      const z = (Math.random() - 0.5) * 350;
+      const x = (this.random.next() - 0.5) * 350;
+      const z = (this.random.next() - 0.5) * 350;
       flower.position.set(x, this.getHeightAt(x, z), z);
-      flower.scale.setScalar(0.8 + Math.random() * 0.6);
+      flower.scale.setScalar(0.8 + this.random.next() * 0.6);
       this.scene.add(flower);
     }
   }
@@ -254,7 +262,7 @@ export class Terrain {
     
     // VIBRANT candy building colors - Fall Guys style!
     const cartoonColors = [0xFF6699, 0x66DDFF, 0xFFDD44, 0x66FF99, 0xFF9966, 0xDD88FF, 0x88EEFF];
-    const buildingColor = cartoonColors[Math.floor(Math.random() * cartoonColors.length)];
+    const buildingColor = cartoonColors[Math.floor(this.random.next() * cartoonColors.length)];
     
     const wall = new THREE.MeshStandardMaterial({ color: buildingColor, roughness: 0.4, metalness: 0.05 });
     const building = new THREE.Mesh(new THREE.BoxGeometry(w, h, d), wall);
@@ -264,7 +272,7 @@ export class Terrain {
     
     // Bright shiny roof - Fall Guys candy style!
     const roofColors = [0xFF4466, 0x44DDCC, 0xFFCC22, 0x66EE99];
-    const roofColor = roofColors[Math.floor(Math.random() * roofColors.length)];
+    const roofColor = roofColors[Math.floor(this.random.next() * roofColors.length)];
     const roof = new THREE.Mesh(
       new THREE.ConeGeometry(Math.max(w, d) * 0.8, h * 0.4, 4),
       new THREE.MeshStandardMaterial({ color: roofColor, roughness: 0.35, metalness: 0.1 })
@@ -366,10 +374,10 @@ export class Terrain {
     }
     
     group.position.set(x, groundY, z);
-    group.rotation.y = Math.random() * Math.PI;
+    group.rotation.y = this.random.next() * Math.PI;
     this.scene.add(group);
     
-    this.colliders.push(new THREE.Box3().setFromObject(group));
+    this.addCover(new THREE.Box3().setFromObject(group));
   }
 
   private createUrbanArea(): void {
@@ -389,7 +397,7 @@ export class Terrain {
     const groundY = this.getHeightAt(x, z);
     const group = new THREE.Group();
     const colors = [0xE76F51, 0x87CEEB, 0xF4A261];
-    const body = new THREE.MeshStandardMaterial({ color: colors[Math.floor(Math.random() * colors.length)], metalness: 0, roughness: 0.9 });
+    const body = new THREE.MeshStandardMaterial({ color: colors[Math.floor(this.random.next() * colors.length)], metalness: 0, roughness: 0.9 });
     
     const car = new THREE.Mesh(new THREE.BoxGeometry(2, 1, 4), body);
     car.position.y = 0.7;
@@ -409,7 +417,7 @@ export class Terrain {
     });
     
     group.position.set(x, groundY, z);
-    group.rotation.y = Math.random() * Math.PI;
+    group.rotation.y = this.random.next() * Math.PI;
     this.scene.add(group);
     
     this.colliders.push(new THREE.Box3().setFromObject(group));
@@ -457,8 +465,8 @@ export class Terrain {
     const areas = [{ cx: 120, cz: 100, r: 40 }, { cx: -120, cz: -120, r: 50 }];
     areas.forEach(area => {
       for (let i = 0; i < area.r; i++) {
-        const angle = Math.random() * Math.PI * 2;
-        const dist = Math.random() * area.r;
+        const angle = this.random.next() * Math.PI * 2;
+        const dist = this.random.next() * area.r;
         const tx = area.cx + Math.cos(angle) * dist;
         const tz = area.cz + Math.sin(angle) * dist;
         if (Math.sqrt(tx * tx + tz * tz) > 40) this.createTree(tx, tz);
@@ -480,7 +488,7 @@ export class Terrain {
     
     // GLOSSY bright foliage - candy cotton look
     const foliageColors = [0x55EE66, 0x44DD55, 0x66FF77, 0x33CC44];
-    const foliageColor = foliageColors[Math.floor(Math.random() * foliageColors.length)];
+    const foliageColor = foliageColors[Math.floor(this.random.next() * foliageColors.length)];
     const foliageMat = new THREE.MeshStandardMaterial({ color: foliageColor, roughness: 0.35, metalness: 0.1 });
     
     // Main center puff
@@ -506,14 +514,14 @@ export class Terrain {
     });
     
     group.position.set(x, this.getHeightAt(x, z), z);
-    group.scale.setScalar(0.6 + Math.random() * 0.5);
+    group.scale.setScalar(0.6 + this.random.next() * 0.5);
     this.scene.add(group);
   }
 
   private createLake(): void {
     // GLOSSY bright cyan water - Fall Guys style!
     const water = new THREE.Mesh(
-      new THREE.CircleGeometry(30, 32),
+      new THREE.CircleGeometry(LAKE.radius, 32),
       new THREE.MeshStandardMaterial({ 
         color: 0x44DDFF, 
         metalness: 0.1, 
@@ -523,18 +531,18 @@ export class Terrain {
       })
     );
     water.rotation.x = -Math.PI / 2;
-    water.position.set(-80, -1.5, 80);
+    water.position.set(LAKE.x, LAKE.level, LAKE.z);
     this.scene.add(water);
     
     // Cute colorful rocks around the lake
     // GLOSSY candy rocks - vibrant colors!
     const rockColors = [0xFF77AA, 0xDD66FF, 0xAA88FF, 0x66CCFF];
     for (let i = 0; i < 15; i++) {
-      const angle = Math.random() * Math.PI * 2;
-      const dist = 28 + Math.random() * 5;
+      const angle = this.random.next() * Math.PI * 2;
+      const dist = 28 + this.random.next() * 5;
       const rockColor = rockColors[i % rockColors.length];
       const rock = new THREE.Mesh(
-        new THREE.SphereGeometry(0.5 + Math.random(), 8, 6),
+        new THREE.SphereGeometry(0.5 + this.random.next(), 8, 6),
         new THREE.MeshStandardMaterial({ color: rockColor, roughness: 0.4, metalness: 0.1 })
       );
       rock.scale.set(1, 0.6, 1);
@@ -600,21 +608,21 @@ export class Terrain {
 
     // Add river banks with rocks
     for (let i = 0; i < 40; i++) {
-      const t = Math.random();
+      const t = this.random.next();
       const idx = Math.floor(t * (riverPoints.length - 1));
       const p1 = riverPoints[idx];
       const p2 = riverPoints[Math.min(idx + 1, riverPoints.length - 1)];
       
       const x = p1.x + (p2.x - p1.x) * (t * (riverPoints.length - 1) - idx);
       const z = p1.z + (p2.z - p1.z) * (t * (riverPoints.length - 1) - idx);
-      const side = (Math.random() > 0.5 ? 1 : -1) * (12 + Math.random() * 5);
+      const side = (this.random.next() > 0.5 ? 1 : -1) * (12 + this.random.next() * 5);
       
       const rock = new THREE.Mesh(
-        new THREE.DodecahedronGeometry(0.8 + Math.random() * 1.5, 0),
+        new THREE.DodecahedronGeometry(0.8 + this.random.next() * 1.5, 0),
         new THREE.MeshStandardMaterial({ color: 0x6a6a6a, roughness: 0.9 })
       );
       rock.position.set(x + side * 0.3, 0, z + side);
-      rock.rotation.set(Math.random(), Math.random(), Math.random());
+      rock.rotation.set(this.random.next(), this.random.next(), this.random.next());
       rock.castShadow = true;
       this.scene.add(rock);
     }
@@ -703,8 +711,8 @@ export class Terrain {
     for (let i = 0; i < vertices.length; i += 3) {
       const y = vertices[i + 1];
       if (y < height * 0.9) {
-        vertices[i] += (Math.random() - 0.5) * radius * 0.3;
-        vertices[i + 2] += (Math.random() - 0.5) * radius * 0.3;
+        vertices[i] += (this.random.next() - 0.5) * radius * 0.3;
+        vertices[i + 2] += (this.random.next() - 0.5) * radius * 0.3;
       }
     }
     coneGeo.computeVertexNormals();
@@ -734,17 +742,17 @@ export class Terrain {
     // Add some rocks around base
     for (let i = 0; i < 10; i++) {
       const angle = (i / 10) * Math.PI * 2;
-      const dist = radius * (0.8 + Math.random() * 0.4);
+      const dist = radius * (0.8 + this.random.next() * 0.4);
       const rock = new THREE.Mesh(
-        new THREE.DodecahedronGeometry(2 + Math.random() * 3, 0),
+        new THREE.DodecahedronGeometry(2 + this.random.next() * 3, 0),
         rockMat
       );
       rock.position.set(
         Math.cos(angle) * dist,
-        1 + Math.random() * 2,
+        1 + this.random.next() * 2,
         Math.sin(angle) * dist
       );
-      rock.rotation.set(Math.random(), Math.random(), Math.random());
+      rock.rotation.set(this.random.next(), this.random.next(), this.random.next());
       rock.castShadow = true;
       group.add(rock);
     }
@@ -850,34 +858,34 @@ export class Terrain {
     const groundY = this.getHeightAt(x, z);
     const barrier = new THREE.Mesh(new THREE.BoxGeometry(4, 1.5, 0.5), new THREE.MeshStandardMaterial({ color: 0xFFB347, roughness: 0.9, metalness: 0 }));
     barrier.position.set(x, groundY + 0.75, z);
-    barrier.rotation.y = Math.random() * Math.PI;
+    barrier.rotation.y = this.random.next() * Math.PI;
     barrier.castShadow = true;
     this.scene.add(barrier);
     
-    this.colliders.push(new THREE.Box3().setFromObject(barrier));
+    this.addCover(new THREE.Box3().setFromObject(barrier));
   }
   
   private createCrate(x: number, z: number): void {
     const crate = new THREE.Mesh(new THREE.BoxGeometry(2, 2, 2), new THREE.MeshStandardMaterial({ color: 0x5a4a38, roughness: 0.9 }));
     crate.position.set(x, this.getHeightAt(x, z) + 1, z);
-    crate.rotation.y = Math.random() * 0.5;
+    crate.rotation.y = this.random.next() * 0.5;
     crate.castShadow = true;
     this.scene.add(crate);
     
-    this.colliders.push(new THREE.Box3().setFromObject(crate));
+    this.addCover(new THREE.Box3().setFromObject(crate));
   }
 
   private createAmbientDetails(): void {
     for (let i = 0; i < 40; i++) {
-      const angle = Math.random() * Math.PI * 2;
-      const dist = 20 + Math.random() * 130;
+      const angle = this.random.next() * Math.PI * 2;
+      const dist = 20 + this.random.next() * 130;
       const x = Math.cos(angle) * dist;
       const z = Math.sin(angle) * dist;
       
-      const rock = new THREE.Mesh(new THREE.DodecahedronGeometry(0.3 + Math.random() * 1.2, 0), new THREE.MeshStandardMaterial({ color: 0x5a5a5a, roughness: 0.95 }));
+      const rock = new THREE.Mesh(new THREE.DodecahedronGeometry(0.3 + this.random.next() * 1.2, 0), new THREE.MeshStandardMaterial({ color: 0x5a5a5a, roughness: 0.95 }));
       rock.position.set(x, this.getHeightAt(x, z) + 0.3, z);
-      rock.rotation.set(Math.random() * Math.PI, Math.random() * Math.PI, Math.random() * Math.PI);
-      rock.scale.set(1 + Math.random() * 0.5, 0.5 + Math.random() * 0.5, 1 + Math.random() * 0.5);
+      rock.rotation.set(this.random.next() * Math.PI, this.random.next() * Math.PI, this.random.next() * Math.PI);
+      rock.scale.set(1 + this.random.next() * 0.5, 0.5 + this.random.next() * 0.5, 1 + this.random.next() * 0.5);
       rock.castShadow = true;
       this.scene.add(rock);
       
@@ -961,7 +969,23 @@ export class Terrain {
     ));
   }
 
+  private addCover(box: THREE.Box3): void {
+    this.colliders.push(box);
+    this.cover.push(box);
+  }
+
   public getColliders(): THREE.Box3[] {
     return this.colliders;
   }
+
+  public getCover(): THREE.Box3[] {
+    return this.cover;
+  }
+
+  // Inside the lake where the ground is below its surface
+  public isWater(x: number, z: number): boolean {
+    const dx = x - LAKE.x;
+    const dz = z - LAKE.z;
+    return dx * dx + dz * dz < LAKE.radius * LAKE.radius && this.getHeightAt(x, z) < LAKE.level;
+  }
 }
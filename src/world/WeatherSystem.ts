@@ -1,51 +1,35 @@
 import * as THREE from 'three';
+import { WeatherState, WeatherType } from '../game/WeatherState';
 
-export enum WeatherType {
-  CLEAR = 'clear',
-  RAIN = 'rain',
-  SNOW = 'snow',
-  FOG = 'fog',
-  STORM = 'storm'
-}
-
+// Draws the weather; the simulation's WeatherState decides what it is
 export class WeatherSystem {
   private scene: THREE.Scene;
+  private state: WeatherState;
   private particleSystem: THREE.Points | null = null;
-  private currentWeather: WeatherType = WeatherType.CLEAR;
-  private fogDensity = 0;
-  private targetFogDensity = 0;
   private lightning: THREE.PointLight | null = null;
   private lightningTimer = 0;
 
-  constructor(scene: THREE.Scene) {
+  constructor(scene: THREE.Scene, state: WeatherState) {
     this.scene = scene;
+    this.state = state;
     this.scene.fog = new THREE.FogExp2(0x87ceeb, 0);
   }
 
   public setWeather(type: WeatherType): void {
     this.clearCurrentWeather();
-    this.currentWeather = type;
+    this.state.setWeather(type);
 
     switch (type) {
       case WeatherType.RAIN:
         this.createRain();
-        this.targetFogDensity = 0.003;
         break;
       case WeatherType.SNOW:
         this.createSnow();
-        this.targetFogDensity = 0.002;
-        break;
-      case WeatherType.FOG:
-        this.targetFogDensity = 0.015;
         break;
       case WeatherType.STORM:
         this.createRain(true);
-        this.targetFogDensity = 0.008;
         this.createLightning();
         break;
-      case WeatherType.CLEAR:
-        this.targetFogDensity = 0;
-        break;
     }
   }
 
@@ -125,21 +109,23 @@ export class WeatherSystem {
   }
 
   public update(delta: number, cameraPosition: THREE.Vector3): void {
-    // Update fog density
+    // Fog thickens and clears as the simulation steps it
     if (this.scene.fog && this.scene.fog instanceof THREE.FogExp2) {
-      const fogDiff = this.targetFogDensity - this.fogDensity;
-      this.fogDensity += fogDiff * delta * 2;
-      this.scene.fog.density = this.fogDensity;
+      this.scene.fog.density = this.state.getFogDensity();
     }
 
     // Update particles
     if (this.particleSystem) {
       const positions = this.particleSystem.geometry.attributes.position.array as Float32Array;
       const velocities = this.particleSystem.geometry.attributes.velocity.array as Float32Array;
+      // Storm rain blows with the wind, showing which way rounds will drift
+      const wind = this.state.getWind();
 
       for (let i = 0; i < positions.length; i += 3) {
         // Update Y position
         positions[i + 1] -= velocities[i / 3] * delta;
+        positions[i] += wind.x * delta;
+        positions[i + 2] += wind.z * delta;
 
         // Reset when particle hits ground
         if (positions[i + 1] < 0) {
@@ -158,7 +144,7 @@ export class WeatherSystem {
         }
 
         // Snow drift effect
-        if (this.currentWeather === WeatherType.SNOW) {
+        if (this.state.getWeather() === WeatherType.SNOW) {
           positions[i] += Math.sin(Date.now() * 0.001 + i) * 0.02;
           positions[i + 2] += Math.cos(Date.now() * 0.001 + i) * 0.02;
         }
@@ -168,7 +154,7 @@ export class WeatherSystem {
     }
 
     // Update lightning for storm
-    if (this.currentWeather === WeatherType.STORM && this.lightning) {
+    if (this.state.getWeather() === WeatherType.STORM && this.lightning) {
       this.lightningTimer += delta;
       
       // Random lightning strikes
@@ -233,7 +219,7 @@ export class WeatherSystem {
   }
 
   public getCurrentWeather(): WeatherType {
-    return this.currentWeather;
+    return this.state.getWeather();
   }
 
   public cycleWeather(): void {
@@ -244,7 +230,7 @@ export class WeatherSystem {
       WeatherType.SNOW,
       WeatherType.STORM
     ];
-    const currentIndex = weathers.indexOf(this.currentWeather);
+    const currentIndex = weathers.indexOf(this.state.getWeather());
     const nextIndex = (currentIndex + 1) % weathers.length;
     this.setWeather(weathers[nextIndex]);
   }